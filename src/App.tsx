@@ -1,4 +1,10 @@
-import React, { useEffect, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import {
   Plane,
   ArrowUp,
@@ -6,71 +12,85 @@ import {
   Navigation,
   AlertCircle,
   MapPin,
+  Fuel,
+  Loader2,
 } from "lucide-react";
-import { getAirportData } from "./services/airport";
-
-type SpeedUnit = "kt" | "mph" | "kmh";
-type RateUnit = "ftmin" | "ms";
-
-interface Airport {
-  icao: string;
-  elevation: number;
-  name?: string;
-  city?: string;
-  state?: string;
-  coordinates?: {
-    lat: number;
-    lon: number;
-  };
-}
-
-interface CalculationResult {
-  tocDistance: number;
-  todDistance: number;
-  totalDistance: number;
-  climbTime: number;
-  cruiseTime: number;
-  descentTime: number;
-  totalTime: number;
-}
-
-const convertSpeed = (
-  value: number,
-  from: SpeedUnit,
-  to: SpeedUnit
-): number => {
-  const toKnots: Record<SpeedUnit, number> = {
-    kt: 1,
-    mph: 0.868976,
-    kmh: 0.539957,
-  };
-  const fromKnots: Record<SpeedUnit, number> = {
-    kt: 1,
-    mph: 1.15078,
-    kmh: 1.852,
-  };
-  const result = value * toKnots[from] * fromKnots[to];
-  return isFinite(result) ? result : 0;
-};
-const convertRate = (value: number, from: RateUnit, to: RateUnit): number => {
-  if (from === to) return value;
-  let result;
-  if (from === "ftmin" && to === "ms") {
-    result = value * 0.00508;
-  } else {
-    result = value * 196.85;
-  }
-  return isFinite(result) ? result : 0;
-};
-
-function App() {
-  const [speedUnit, setSpeedUnit] = useState<SpeedUnit>("kt");
-  const [rateUnit, setRateUnit] = useState<RateUnit>("ftmin");
-  const [error, setError] = useState<{ departure?: string; arrival?: string }>(
-    {}
-  );
+import {
+  applyUserAirports,
+  getAirportData,
+  getAirportSnapshot,
+  loadAirports,
+  searchAirports,
+  subscribeAirports,
+} from "./services/airport";
+import { loadStoredDataset } from "./services/airportDataset";
+import { ResolvedRoute, resolveRoute } from "./services/route";
+import {
+  createProfileId,
+  getAllProfiles,
+  loadUserProfiles,
+  saveUserProfiles,
+} from "./services/aircraftProfiles";
+import {
+  decodePlanQuery,
+  encodePlanQuery,
+  FlightInputs,
+  FlightPlanState,
+  loadHistory,
+  loadLastPlan,
+  pushHistory,
+  saveLastPlan,
+} from "./services/flightPlan";
+import { AircraftProfile, ProfileLimits } from "./data/aircraft-profiles";
+import { BrazilianAirport } from "./data/brazilian-airports";
+import {
+  calculateFlightProfile,
+  FlightProfileInput,
+} from "./engine/flightProfile";
+import { calculateFuelPlan, convertFuel, FuelSettings } from "./engine/fuel";
+import { formatVariation } from "./engine/magnetic";
+import {
+  Airport,
+  RateUnit,
+  SpeedMode,
+  SpeedUnit,
+  Waypoint,
+} from "./engine/types";
+import { convertSpeed } from "./engine/units";
+import { DiagnosticPhase, isPhaseComputable } from "./engine/validation";
+import { FlightPhase, WindProfile } from "./engine/wind";
+import { PerformanceBand } from "./engine/performance";
+import { MessageKey, useI18n } from "./i18n";
+import AircraftProfilePanel from "./components/AircraftProfilePanel";
+import AirportDatasetPanel from "./components/AirportDatasetPanel";
+import AirportAutocomplete from "./components/AirportAutocomplete";
+import CruiseLevelAdvisor from "./components/CruiseLevelAdvisor";
+import DescentPlanner from "./components/DescentPlanner";
+import BandBreakdownTable from "./components/BandBreakdownTable";
+import FlightPlanPanel from "./components/FlightPlanPanel";
+import FuelPanel from "./components/FuelPanel";
+import FuelSummary from "./components/FuelSummary";
+import LanguageSelect from "./components/LanguageSelect";
+import DaylightPanel from "./components/DaylightPanel";
+import DiversionTable from "./components/DiversionTable";
+import LegsTable from "./components/LegsTable";
+import NearestAirportsPanel from "./components/NearestAirportsPanel";
+import NavlogSheet from "./components/NavlogSheet";
+import PhaseDiagnostics from "./components/PhaseDiagnostics";
+import PhaseWind from "./components/PhaseWind";
+import PerformanceTablePanel from "./components/PerformanceTablePanel";
+import PositionDetails from "./components/PositionDetails";
+import ProfileChart from "./components/ProfileChart";
+import RouteMap from "./components/RouteMap";
+import RunwayTable from "./components/RunwayTable";
+import UpdatePrompt from "./components/UpdatePrompt";
+import WeatherPanel from "./components/WeatherPanel";
+import WindPanel from "./components/WindPanel";
 
-  const [inputs, setInputs] = useState({
+const defaultPlan: FlightPlanState = {
+  speedUnit: "kt",
+  rateUnit: "ftmin",
+  inputs: {
     cruiseAltitude: null, // feet
     climbSpeed: null, // in selected speed unit
     cruiseSpeed: null, // in selected speed unit
@@ -79,173 +99,458 @@ function App() {
     descentRate: null, // in selected rate unit
     departureIcao: "",
     arrivalIcao: "",
-  });
+  },
+  speedModes: { climb: "tas", cruise: "tas", descent: "tas" },
+  isaDeviation: 0,
+  route: "",
+  fuel: {
+    unit: "l",
+    fuelType: "avgas",
+    climbFlow: 0,
+    cruiseFlow: 0,
+    descentFlow: 0,
+    taxi: 0,
+    contingencyPercent: 5,
+    finalReserveMinutes: 45,
+  },
+  alternateIcao: "",
+};
+
+const AIRPORT_DB_ERROR: MessageKey = "airportDb.unavailable";
+
+const lookupAirport = async (code: string): Promise<Airport | undefined> => {
+  const airportData = await getAirportData(code);
+  if (!airportData) return undefined;
+  return {
+    icao: code,
+    elevation: airportData.elevation.feet,
+    name: airportData.name,
+    city: airportData.city,
+    state: airportData.state,
+    coordinates: airportData.coordinates,
+    runways: airportData.runways,
+  };
+};
+
+function App() {
+  const { t, formatNumber } = useI18n();
+  const [speedUnit, setSpeedUnit] = useState<SpeedUnit>(defaultPlan.speedUnit);
+  const [rateUnit, setRateUnit] = useState<RateUnit>(defaultPlan.rateUnit);
+  const [error, setError] = useState<{
+    departure?: MessageKey;
+    arrival?: MessageKey;
+  }>({});
+
+  const [inputs, setInputs] = useState<FlightInputs>(defaultPlan.inputs);
+
+  const [speedModes, setSpeedModes] = useState<Record<FlightPhase, SpeedMode>>(
+    defaultPlan.speedModes
+  );
+  const [isaDeviation, setIsaDeviation] = useState(defaultPlan.isaDeviation);
+  const [winds, setWinds] = useState<WindProfile>();
+  const [routeString, setRouteString] = useState("");
+  const [climbTable, setClimbTable] = useState<PerformanceBand[]>();
+  const [descentTable, setDescentTable] = useState<PerformanceBand[]>();
+  const [userProfiles, setUserProfiles] = useState(loadUserProfiles);
+  const [profileId, setProfileId] = useState<string>();
+
+  const [fuel, setFuel] = useState<FuelSettings>(defaultPlan.fuel);
+  const [view, setView] = useState<"profile" | "descent">("profile");
+  const [alternateIcao, setAlternateIcao] = useState("");
+  const [alternate, setAlternate] = useState<Airport>();
+  const [alternateError, setAlternateError] = useState<MessageKey>();
+  const [history, setHistory] = useState(loadHistory);
+  // Read before the effects below start writing the current state back
+  const [initialPlan] = useState(
+    () =>
+      decodePlanQuery(window.location.search, defaultPlan) ??
+      loadLastPlan(defaultPlan)
+  );
+  const [userAirports, setUserAirports] = useState<BrazilianAirport[]>([]);
+  // The URL and the stored plan keep the initial plan until it is applied
+  const [restored, setRestored] = useState(false);
+
+  const profiles = getAllProfiles(userProfiles);
+  const profile = profiles.find((p) => p.id === profileId);
 
   const [airports, setAirports] = useState<{
     departure?: Airport;
     arrival?: Airport;
   }>({});
 
-  const calculateResults = (): CalculationResult => {
-    // Convert all speeds to knots for calculations
-    const climbSpeedKt = convertSpeed(inputs.climbSpeed ?? 0, speedUnit, "kt");
-    const cruiseSpeedKt = convertSpeed(
-      inputs.cruiseSpeed ?? 0,
-      speedUnit,
-      "kt"
-    );
-    const descentSpeedKt = convertSpeed(
-      inputs.descentSpeed ?? 0,
-      speedUnit,
-      "kt"
-    );
+  const [route, setRoute] = useState<ResolvedRoute>({
+    waypoints: [],
+    unknown: [],
+  });
+  const airportDb = useSyncExternalStore(subscribeAirports, getAirportSnapshot);
 
-    // Convert rates to ft/min for calculations
-    const climbRateFtMin = convertRate(
-      inputs.climbRate ?? 0,
+  useEffect(() => {
+    let current = true;
+    resolveRoute(routeString, airports.departure?.icao, airports.arrival?.icao)
+      .then((resolved) => {
+        if (current) setRoute(resolved);
+      })
+      .catch(() => undefined); // surfaced through the airport status
+    return () => {
+      current = false;
+    };
+  }, [
+    routeString,
+    airports.departure?.icao,
+    airports.arrival?.icao,
+    airportDb.revision,
+  ]);
+
+  // Kept stable between renders so the cruise level advice is only redone
+  // when a profile input changes
+  const profileInput = useMemo<FlightProfileInput>(
+    () => ({
+      cruiseAltitude: inputs.cruiseAltitude ?? 0,
+      climbSpeed: inputs.climbSpeed ?? 0,
+      cruiseSpeed: inputs.cruiseSpeed ?? 0,
+      descentSpeed: inputs.descentSpeed ?? 0,
+      climbRate: inputs.climbRate ?? 0,
+      descentRate: inputs.descentRate ?? 0,
+      speedUnit,
       rateUnit,
-      "ftmin"
-    );
-    const descentRateFtMin = convertRate(
-      inputs.descentRate ?? 0,
+      departure: airports.departure,
+      arrival: airports.arrival,
+      route: route.waypoints,
+      climbTable,
+      descentTable,
+      speedModes,
+      isaDeviation,
+      winds,
+      serviceCeiling: profile?.serviceCeiling,
+    }),
+    [
+      inputs,
+      speedUnit,
       rateUnit,
-      "ftmin"
-    );
-
-    // Calculate climb phase
-    const climbHeight =
-      (inputs.cruiseAltitude ?? 0) - (airports.departure?.elevation || 0);
-    const climbTimeHours = climbHeight / (climbRateFtMin * 60);
-    const tocDistance = climbSpeedKt * climbTimeHours;
-
-    // Calculate descent phase
-    const descentHeight =
-      (inputs.cruiseAltitude ?? 0) - (airports.arrival?.elevation || 0);
-    const descentTimeHours = descentHeight / (descentRateFtMin * 60);
-    const todDistance = descentSpeedKt * descentTimeHours;
-
-    // Calculate total distance using coordinates if available
-    let totalDistance = tocDistance + todDistance + 100; // Default with padding
-
-    if (airports.departure?.coordinates && airports.arrival?.coordinates) {
-      const R = 3440.065; // Earth's radius in nautical miles
-      const lat1 = (airports.departure.coordinates.lat * Math.PI) / 180;
-      const lon1 = (airports.departure.coordinates.lon * Math.PI) / 180;
-      const lat2 = (airports.arrival.coordinates.lat * Math.PI) / 180;
-      const lon2 = (airports.arrival.coordinates.lon * Math.PI) / 180;
-
-      // Haversine formula
-      const dlon = lon2 - lon1;
-      const dlat = lat2 - lat1;
-      const a =
-        Math.sin(dlat / 2) ** 2 +
-        Math.cos(lat1) * Math.cos(lat2) * Math.sin(dlon / 2) ** 2;
-      const c = 2 * Math.asin(Math.sqrt(a));
-
-      // Calculate great circle distance
-      totalDistance = R * c;
-    }
+      airports.departure,
+      airports.arrival,
+      route.waypoints,
+      climbTable,
+      descentTable,
+      speedModes,
+      isaDeviation,
+      winds,
+      profile?.serviceCeiling,
+    ]
+  );
+  const results = calculateFlightProfile(profileInput);
 
-    // Calculate cruise time
-    const cruiseDistance = totalDistance - (tocDistance + todDistance);
-    const cruiseTimeHours = cruiseDistance / cruiseSpeedKt;
-
-    return {
-      tocDistance: Math.round(tocDistance * 10) / 10,
-      todDistance: Math.round(todDistance * 10) / 10,
-      totalDistance: Math.round(totalDistance * 10) / 10,
-      climbTime: Math.round(climbTimeHours * 60), // Convert to minutos
-      cruiseTime: Math.round(cruiseTimeHours * 60), // Convert to minutos
-      descentTime: Math.round(descentTimeHours * 60), // Convert to minutos
-      totalTime: Math.round(
-        (climbTimeHours + cruiseTimeHours + descentTimeHours) * 60
-      ), // Total minutos
-    };
+  const routePath: Waypoint[] =
+    airports.departure?.coordinates && airports.arrival?.coordinates
+      ? [
+          {
+            ident: airports.departure.icao,
+            coordinates: airports.departure.coordinates,
+          },
+          ...route.waypoints,
+          {
+            ident: airports.arrival.icao,
+            coordinates: airports.arrival.coordinates,
+          },
+        ]
+      : [];
+  const cruiseGroundSpeed =
+    results.wind?.cruise.groundSpeed ?? results.cruiseTrueAirspeed;
+
+  const planState: FlightPlanState = {
+    speedUnit,
+    rateUnit,
+    inputs,
+    speedModes,
+    isaDeviation,
+    route: routeString,
+    winds,
+    climbTable,
+    descentTable,
+    profileId,
+    fuel,
+    alternateIcao,
   };
+  const planQuery = encodePlanQuery(planState);
+
+  const fuelPlan = calculateFuelPlan(
+    {
+      climb: results.climbTime,
+      cruise: results.cruiseTime,
+      descent: results.descentTime,
+    },
+    {
+      ...fuel,
+      arrival: airports.arrival?.coordinates,
+      alternate: alternate?.coordinates,
+      cruiseGroundSpeed,
+    }
+  );
 
-  const results = calculateResults();
+  const displayValue = (value: number, phase: DiagnosticPhase) =>
+    isPhaseComputable(results.diagnostics, phase) && isFinite(value)
+      ? value
+      : "—";
+
+  const diagnosticsFor = (phase: DiagnosticPhase) =>
+    results.diagnostics.filter((d) => d.phase === phase);
+
+  const speedLabel = (phase: FlightPhase) =>
+    speedModes[phase] === "mach"
+      ? "Mach"
+      : `${speedModes[phase].toUpperCase()}, ${speedUnit}`;
+
+  const displaySpeed = (kt: number, phase: DiagnosticPhase) =>
+    displayValue(Math.round(convertSpeed(kt, "kt", speedUnit)), phase);
+
+  const handleSpeedModeChange =
+    (phase: FlightPhase) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const mode = e.target.value as SpeedMode;
+      setSpeedModes((prev) => ({ ...prev, [phase]: mode }));
+    };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setInputs((prev) => ({
       ...prev,
-      [name]: Number(value) || value, // Allow string values for ICAO codes
+      [name]: value === "" ? null : Number(value), // null while cleared
     }));
   };
 
-  const handleAirportSearch = (icao: string, type: "departure" | "arrival") => {
-    if (!icao) {
-      setError((prev) => ({
-        ...prev,
-        [type]: "Por favor, insira um código ICAO",
-      }));
-      return;
-    }
+  const handleAirportSearch = useCallback(
+    async (icao: string, type: "departure" | "arrival") => {
+      if (!icao) {
+        setError((prev) => ({
+          ...prev,
+          [type]: "app.enterIcao",
+        }));
+        return;
+      }
+
+      setError((prev) => ({ ...prev, [type]: undefined }));
 
-    setError((prev) => ({ ...prev, [type]: undefined }));
+      // Fall back to the best search match for names, cities and IATA codes
+      let code = icao.trim().toUpperCase();
+      let airport: Airport | undefined;
+      try {
+        airport = await lookupAirport(code);
+        if (!airport) {
+          const [match] = await searchAirports(icao, 1);
+          if (match) {
+            code = match.airport.icao;
+            setInputs((prev) => ({ ...prev, [`${type}Icao`]: code }));
+            airport = await lookupAirport(code);
+          }
+        }
+      } catch {
+        setError((prev) => ({ ...prev, [type]: AIRPORT_DB_ERROR }));
+        return;
+      }
 
-    const airportData = getAirportData(icao.toUpperCase());
+      if (!airport) {
+        setError((prev) => ({ ...prev, [type]: "app.airportNotFound" }));
+        return;
+      }
 
-    if (!airportData) {
-      setError((prev) => ({
+      setAirports((prev) => ({ ...prev, [type]: airport }));
+    },
+    []
+  );
+
+  const handleSelectProfile = (selected: AircraftProfile | undefined) => {
+    setProfileId(selected?.id);
+    if (!selected) return;
+    setSpeedUnit(selected.speedUnit);
+    setRateUnit(selected.rateUnit);
+    setSpeedModes(selected.speedModes);
+    setInputs((prev) => ({
+      ...prev,
+      climbSpeed: selected.climbSpeed,
+      cruiseSpeed: selected.cruiseSpeed,
+      descentSpeed: selected.descentSpeed,
+      climbRate: selected.climbRate,
+      descentRate: selected.descentRate,
+    }));
+    if (selected.fuel) {
+      const { usableCapacity, ...flows } = selected.fuel;
+      setFuel((prev) => ({
         ...prev,
-        [type]: "Aeroporto não encontrado.",
+        ...flows,
+        usableCapacity,
+        capacityUnit: selected.fuel?.unit,
       }));
-      return;
     }
+  };
 
-    const airport: Airport = {
-      icao: icao.toUpperCase(),
-      elevation: airportData.elevation.feet,
-      name: airportData.name,
-      city: airportData.city,
-      state: airportData.state,
-      coordinates: airportData.coordinates,
+  const handleSaveProfile = (name: string, limits: ProfileLimits) => {
+    const saved: AircraftProfile = {
+      id: createProfileId(),
+      name,
+      speedUnit,
+      rateUnit,
+      climbSpeed: inputs.climbSpeed ?? 0,
+      cruiseSpeed: inputs.cruiseSpeed ?? 0,
+      descentSpeed: inputs.descentSpeed ?? 0,
+      climbRate: inputs.climbRate ?? 0,
+      descentRate: inputs.descentRate ?? 0,
+      speedModes,
+      ...limits,
+      fuel:
+        fuel.cruiseFlow > 0
+          ? {
+              fuelType: fuel.fuelType,
+              unit: fuel.unit,
+              climbFlow: fuel.climbFlow,
+              cruiseFlow: fuel.cruiseFlow,
+              descentFlow: fuel.descentFlow,
+              usableCapacity:
+                fuel.usableCapacity !== undefined
+                  ? convertFuel(
+                      fuel.usableCapacity,
+                      fuel.capacityUnit ?? fuel.unit,
+                      fuel.unit,
+                      fuel.fuelType
+                    )
+                  : undefined,
+            }
+          : undefined,
     };
+    const next = [...userProfiles, saved];
+    setUserProfiles(next);
+    saveUserProfiles(next);
+    setProfileId(saved.id);
+  };
 
-    setAirports((prev) => ({ ...prev, [type]: airport }));
+  const handleDeleteProfile = (id: string) => {
+    const next = userProfiles.filter((p) => p.id !== id);
+    setUserProfiles(next);
+    saveUserProfiles(next);
+    setProfileId(undefined);
   };
 
-  useEffect(() => {
-    if (inputs.departureIcao === "" || inputs.arrivalIcao === "") {
+  const handleSelectAirport = (icao: string, type: "departure" | "arrival") => {
+    setInputs((prev) => ({ ...prev, [`${type}Icao`]: icao }));
+    handleAirportSearch(icao, type);
+  };
+
+  const handleSelectAlternate = useCallback(async (icao: string) => {
+    setAlternateIcao(icao);
+    try {
+      const airport = await lookupAirport(icao.trim().toUpperCase());
+      setAlternate(airport);
+      setAlternateError(airport ? undefined : "app.airportNotFound");
+    } catch {
+      setAlternate(undefined);
+      setAlternateError(AIRPORT_DB_ERROR);
+    }
+  }, []);
+
+  const handleAlternateChange = useCallback((value: string) => {
+    setAlternateIcao(value);
+    if (value === "") {
+      setAlternate(undefined);
+      setAlternateError(undefined);
+    }
+  }, []);
+
+  const applyPlan = useCallback(
+    (plan: FlightPlanState) => {
+      setSpeedUnit(plan.speedUnit);
+      setRateUnit(plan.rateUnit);
+      setInputs(plan.inputs);
+      setSpeedModes(plan.speedModes);
+      setIsaDeviation(plan.isaDeviation);
+      setRouteString(plan.route);
+      setWinds(plan.winds);
+      setClimbTable(plan.climbTable);
+      setDescentTable(plan.descentTable);
+      setProfileId(plan.profileId);
+      setFuel(plan.fuel);
+      setError({});
       setAirports({});
-      return;
+      handleAlternateChange(plan.alternateIcao);
+      if (plan.inputs.departureIcao) {
+        handleAirportSearch(plan.inputs.departureIcao, "departure");
+      }
+      if (plan.inputs.arrivalIcao) {
+        handleAirportSearch(plan.inputs.arrivalIcao, "arrival");
+      }
+      if (plan.alternateIcao) handleSelectAlternate(plan.alternateIcao);
+    },
+    [handleAirportSearch, handleAlternateChange, handleSelectAlternate]
+  );
+
+  const handleSaveHistory = () => setHistory(pushHistory(history, planState));
+
+  // Restore the stored user airports first, so a shared link may use them,
+  // then the link itself or else the last session's plan; afterwards the URL
+  // and the stored plan follow the state. applyPlan and initialPlan never
+  // change, so this runs once.
+  useEffect(() => {
+    const restore = async () => {
+      const user = await loadStoredDataset();
+      if (user) {
+        await applyUserAirports(user);
+        setUserAirports(user);
+      }
+    };
+    restore()
+      .catch(() => undefined) // the bundled set still works
+      .then(() => {
+        if (initialPlan) applyPlan(initialPlan);
+        setRestored(true);
+      });
+  }, [applyPlan, initialPlan]);
+
+  useEffect(() => {
+    if (!restored) return;
+    window.history.replaceState(null, "", `?${planQuery}`);
+    saveLastPlan(planQuery);
+  }, [planQuery, restored]);
+
+  useEffect(() => {
+    if (inputs.departureIcao === "") {
+      setAirports((prev) => ({ ...prev, departure: undefined }));
+    }
+    if (inputs.arrivalIcao === "") {
+      setAirports((prev) => ({ ...prev, arrival: undefined }));
     }
   }, [inputs.arrivalIcao, inputs.departureIcao]);
 
   return (
-    <div className="min-h-screen bg-gradient-to-b from-emerald-50 to-emerald-100">
+    <div className="min-h-screen bg-gradient-to-b from-emerald-50 to-emerald-100 print:bg-none print:bg-white">
       <div className="container mx-auto px-4 py-8">
-        <div className="flex items-center justify-center mb-8">
+        <div className="relative flex items-center justify-center mb-8 print:hidden">
           <Plane className="w-8 h-8 text-emerald-600 mr-2" />
-          <h1 className="text-3xl font-bold text-gray-800">
-            Calculadora TOC/TOD
-          </h1>
+          <h1 className="text-3xl font-bold text-gray-800">{t("app.title")}</h1>
+          <div className="absolute right-0">
+            <LanguageSelect />
+          </div>
         </div>
 
         {/* Unit Selection */}
-        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8 print:hidden">
           <h2 className="text-xl font-semibold mb-4 text-gray-700">
-            Preferências de Unidade
+            {t("app.units")}
           </h2>
           <div className="flex gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-600 mb-1">
-                Unidade de Velocidade
+                {t("app.speedUnit")}
               </label>
               <select
                 value={speedUnit}
                 onChange={(e) => setSpeedUnit(e.target.value as SpeedUnit)}
                 className="px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
               >
-                <option value="kt">Knots</option>
+                <option value="kt">{t("app.knots")}</option>
                 <option value="mph">MPH</option>
                 <option value="kmh">km/h</option>
               </select>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-600 mb-1">
-                Unidade de Taxa
+                {t("app.rateUnit")}
               </label>
               <select
                 value={rateUnit}
@@ -259,33 +564,51 @@ function App() {
           </div>
         </div>
 
-        <div className="grid md:grid-cols-2 gap-8">
+        {/* Plan Sharing */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-8 print:hidden">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">
+            {t("app.share")}
+          </h2>
+          <FlightPlanPanel
+            plan={planState}
+            history={history}
+            onLoad={applyPlan}
+            onSaveHistory={handleSaveHistory}
+          />
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-8 print:hidden">
           {/* Input Section */}
           <div className="bg-white rounded-lg shadow-lg p-6">
             <h2 className="text-xl font-semibold mb-4 text-gray-700">
-              Parâmetros de Voo
+              {t("app.parameters")}
             </h2>
             <div className="space-y-4">
               {/* Airport Selection */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-600 mb-1">
-                    ICAO de Partida
+                    {t("app.departureIcao")}
                   </label>
                   <div className="flex gap-2">
                     <div className="flex-1">
-                      <input
-                        type="text"
-                        name="departureIcao"
+                      <AirportAutocomplete
                         value={inputs.departureIcao}
-                        onChange={handleInputChange}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500 uppercase"
-                        maxLength={4}
+                        label={t("app.departureIcao")}
+                        onChange={(value) =>
+                          setInputs((prev) => ({
+                            ...prev,
+                            departureIcao: value,
+                          }))
+                        }
+                        onSelect={(icao) =>
+                          handleSelectAirport(icao, "departure")
+                        }
                       />
                       {error.departure && (
                         <p className="mt-1 text-sm text-red-600 flex items-center">
                           <AlertCircle className="w-4 h-4 mr-1" />
-                          {error.departure}
+                          {t(error.departure)}
                         </p>
                       )}
                       {airports.departure && (
@@ -297,8 +620,15 @@ function App() {
                             {airports.departure.state}
                           </p>
                           <p className="text-gray-600">
-                            Elevação: {airports.departure.elevation} ft
+                            {t("app.elevation", {
+                              elevation: airports.departure.elevation,
+                            })}
                           </p>
+                          <RunwayTable
+                            airport={airports.departure}
+                            operation="takeoff"
+                            requiredDistance={profile?.takeoffDistance}
+                          />
                         </div>
                       )}
                     </div>
@@ -314,22 +644,24 @@ function App() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-600 mb-1">
-                    ICAO de Chegada
+                    {t("app.arrivalIcao")}
                   </label>
                   <div className="flex gap-2">
                     <div className="flex-1">
-                      <input
-                        type="text"
-                        name="arrivalIcao"
+                      <AirportAutocomplete
                         value={inputs.arrivalIcao}
-                        onChange={handleInputChange}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500 uppercase"
-                        maxLength={4}
+                        label={t("app.arrivalIcao")}
+                        onChange={(value) =>
+                          setInputs((prev) => ({ ...prev, arrivalIcao: value }))
+                        }
+                        onSelect={(icao) =>
+                          handleSelectAirport(icao, "arrival")
+                        }
                       />
                       {error.arrival && (
                         <p className="mt-1 text-sm text-red-600 flex items-center">
                           <AlertCircle className="w-4 h-4 mr-1" />
-                          {error.arrival}
+                          {t(error.arrival)}
                         </p>
                       )}
                       {airports.arrival && (
@@ -340,8 +672,15 @@ function App() {
                             {airports.arrival.city}, {airports.arrival.state}
                           </p>
                           <p className="text-gray-600">
-                            Elevação: {airports.arrival.elevation} ft
+                            {t("app.elevation", {
+                              elevation: airports.arrival.elevation,
+                            })}
                           </p>
+                          <RunwayTable
+                            airport={airports.arrival}
+                            operation="landing"
+                            requiredDistance={profile?.landingDistance}
+                          />
                         </div>
                       )}
                     </div>
@@ -357,61 +696,149 @@ function App() {
                 </div>
               </div>
 
+              {airportDb.status === "loading" && (
+                <p className="text-sm text-gray-500 flex items-center">
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  {t("airportDb.loading")}
+                </p>
+              )}
+              {airportDb.status === "error" && (
+                <p className="text-sm text-red-600 flex items-center">
+                  <AlertCircle className="w-4 h-4 mr-1" />
+                  {t(AIRPORT_DB_ERROR)}
+                  <button
+                    onClick={() => loadAirports().catch(() => undefined)}
+                    className="ml-2 underline hover:text-red-700"
+                  >
+                    {t("airportDb.retry")}
+                  </button>
+                </p>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">
-                  Altitude de Cruzeiro (pés)
+                  {t("app.route")}
                 </label>
                 <input
-                  type="number"
-                  name="cruiseAltitude"
-                  value={inputs.cruiseAltitude ?? ""}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                  type="text"
+                  value={routeString}
+                  onChange={(e) => setRouteString(e.target.value)}
+                  placeholder={t("app.routePlaceholder")}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500 uppercase"
                 />
+                {route.unknown.length > 0 && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center">
+                    <AlertCircle className="w-4 h-4 mr-1" />
+                    {t("app.unknownFixes", { fixes: route.unknown.join(", ") })}
+                  </p>
+                )}
               </div>
 
+              <AircraftProfilePanel
+                profiles={profiles}
+                selectedId={profileId}
+                onSelect={handleSelectProfile}
+                onSave={handleSaveProfile}
+                onDelete={handleDeleteProfile}
+              />
+
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">
-                  Velocidade de Subida ({speedUnit})
+                  {t("app.cruiseAltitude")}
                 </label>
                 <input
                   type="number"
-                  name="climbSpeed"
-                  value={inputs.climbSpeed ?? ""}
+                  name="cruiseAltitude"
+                  value={inputs.cruiseAltitude ?? ""}
                   onChange={handleInputChange}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
                 />
+                <CruiseLevelAdvisor
+                  input={profileInput}
+                  onSelect={(cruiseAltitude) =>
+                    setInputs((prev) => ({ ...prev, cruiseAltitude }))
+                  }
+                />
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">
-                  Velocidade de Cruzeiro ({speedUnit})
+                  {t("app.climbSpeed", { mode: speedLabel("climb") })}
                 </label>
-                <input
-                  type="number"
-                  name="cruiseSpeed"
-                  value={inputs.cruiseSpeed ?? ""}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    name="climbSpeed"
+                    value={inputs.climbSpeed ?? ""}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                  <select
+                    value={speedModes.climb}
+                    onChange={handleSpeedModeChange("climb")}
+                    aria-label={t("speedMode.label")}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                  >
+                    <option value="tas">TAS</option>
+                    <option value="ias">IAS</option>
+                    <option value="mach">Mach</option>
+                  </select>
+                </div>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">
-                  Velocidade de Descida ({speedUnit})
+                  {t("app.cruiseSpeed", { mode: speedLabel("cruise") })}
                 </label>
-                <input
-                  type="number"
-                  name="descentSpeed"
-                  value={inputs.descentSpeed ?? ""}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    name="cruiseSpeed"
+                    value={inputs.cruiseSpeed ?? ""}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                  <select
+                    value={speedModes.cruise}
+                    onChange={handleSpeedModeChange("cruise")}
+                    aria-label={t("speedMode.label")}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                  >
+                    <option value="tas">TAS</option>
+                    <option value="ias">IAS</option>
+                    <option value="mach">Mach</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-1">
+                  {t("app.descentSpeed", { mode: speedLabel("descent") })}
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    name="descentSpeed"
+                    value={inputs.descentSpeed ?? ""}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                  <select
+                    value={speedModes.descent}
+                    onChange={handleSpeedModeChange("descent")}
+                    aria-label={t("speedMode.label")}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                  >
+                    <option value="tas">TAS</option>
+                    <option value="ias">IAS</option>
+                    <option value="mach">Mach</option>
+                  </select>
+                </div>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">
-                  Taxa de Subida ({rateUnit})
+                  {t("app.climbRate", { unit: rateUnit })}
                 </label>
                 <input
                   type="number"
@@ -424,7 +851,7 @@ function App() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">
-                  Taxa de Descida ({rateUnit})
+                  {t("app.descentRate", { unit: rateUnit })}
                 </label>
                 <input
                   type="number"
@@ -434,131 +861,411 @@ function App() {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
                 />
               </div>
+
+              <PerformanceTablePanel
+                label={t("phase.climb")}
+                value={climbTable}
+                speedUnit={speedUnit}
+                rateUnit={rateUnit}
+                fallback={{
+                  speed: inputs.climbSpeed ?? 0,
+                  rate: inputs.climbRate ?? 0,
+                }}
+                onChange={setClimbTable}
+              />
+
+              <PerformanceTablePanel
+                label={t("phase.descent")}
+                value={descentTable}
+                speedUnit={speedUnit}
+                rateUnit={rateUnit}
+                fallback={{
+                  speed: inputs.descentSpeed ?? 0,
+                  rate: inputs.descentRate ?? 0,
+                }}
+                onChange={setDescentTable}
+              />
+
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-1">
+                  {t("app.isaDeviation")}
+                </label>
+                <input
+                  type="number"
+                  value={isaDeviation}
+                  onChange={(e) => setIsaDeviation(Number(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+
+              <WindPanel
+                value={winds}
+                speedUnit={speedUnit}
+                onChange={setWinds}
+              />
             </div>
           </div>
 
           {/* Results Section */}
           <div className="bg-white rounded-lg shadow-lg p-6">
-            <h2 className="text-xl font-semibold mb-6 text-gray-700">
-              Perfil de Voo
-            </h2>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold text-gray-700">
+                {t(view === "profile" ? "app.profile" : "app.descentPlanner")}
+              </h2>
+              <select
+                value={view}
+                onChange={(e) =>
+                  setView(e.target.value as "profile" | "descent")
+                }
+                aria-label={t("app.view")}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="profile">{t("app.view.profile")}</option>
+                <option value="descent">{t("app.view.descent")}</option>
+              </select>
+            </div>
 
-            <div className="space-y-6">
-              <div className="bg-neutral-50 p-4 rounded-lg">
-                <div className="flex items-center mb-2">
-                  <ArrowUp className="w-5 h-5 text-emerald-600 mr-2" />
-                  <h3 className="text-lg font-medium text-gray-800">
-                    Fase de Subida
-                  </h3>
+            {view === "descent" ? (
+              <DescentPlanner
+                settings={{
+                  descentSpeed: inputs.descentSpeed ?? 0,
+                  descentRate: inputs.descentRate ?? 0,
+                  speedUnit,
+                  rateUnit,
+                  speedMode: speedModes.descent,
+                  descentTable,
+                  isaDeviation,
+                }}
+                arrival={airports.arrival}
+                cruiseAltitude={inputs.cruiseAltitude ?? undefined}
+                headwind={results.wind?.descent.headwind}
+              />
+            ) : (
+              <div className="space-y-6">
+                {isPhaseComputable(results.diagnostics, "total") && (
+                  <ProfileChart
+                    profile={results.profile}
+                    departure={airports.departure}
+                    arrival={airports.arrival}
+                  />
+                )}
+
+                <div className="bg-neutral-50 p-4 rounded-lg">
+                  <div className="flex items-center mb-2">
+                    <ArrowUp className="w-5 h-5 text-emerald-600 mr-2" />
+                    <h3 className="text-lg font-medium text-gray-800">
+                      {t("app.climbPhase")}
+                    </h3>
+                  </div>
+                  <p className="text-gray-600">
+                    {t("app.tocDistance")}{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {t("units.nm", {
+                        value: displayValue(results.tocDistance, "climb"),
+                      })}
+                    </span>
+                  </p>
+                  <p className="text-gray-600">
+                    {t("app.climbTime")}{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {t("units.minutes", {
+                        value: displayValue(results.climbTime, "climb"),
+                      })}
+                    </span>
+                  </p>
+                  <PositionDetails
+                    label="TOC"
+                    position={results.toc}
+                    available={isPhaseComputable(results.diagnostics, "climb")}
+                  />
+                  <p className="text-gray-600">
+                    {t("app.tocTas")}{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {displaySpeed(results.tocTrueAirspeed, "climb")}{" "}
+                      {speedUnit}
+                    </span>
+                  </p>
+                  {isPhaseComputable(results.diagnostics, "climb") && (
+                    <BandBreakdownTable bands={results.climbBands} />
+                  )}
+                  <PhaseWind
+                    solution={results.wind?.climb}
+                    speedUnit={speedUnit}
+                  />
+                  <PhaseDiagnostics diagnostics={diagnosticsFor("climb")} />
                 </div>
-                <p className="text-gray-600">
-                  Distância para TOC:{" "}
-                  <span className="font-semibold text-emerald-600">
-                    {isNaN(results.tocDistance) ||
-                    !isFinite(results.tocDistance)
-                      ? 0
-                      : results.tocDistance}{" "}
-                    NM
-                  </span>
-                </p>
-                <p className="text-gray-600">
-                  Tempo de subida:{" "}
-                  <span className="font-semibold text-emerald-600">
-                    {isNaN(results.climbTime) || !isFinite(results.climbTime)
-                      ? 0
-                      : results.climbTime}{" "}
-                    minutos
-                  </span>
-                </p>
-              </div>
 
-              <div className="bg-green-50 p-4 rounded-lg">
-                <div className="flex items-center mb-2">
-                  <Plane className="w-5 h-5 text-green-600 mr-2" />
-                  <h3 className="text-lg font-medium text-gray-800">
-                    Fase de Cruzeiro
-                  </h3>
+                <div className="bg-green-50 p-4 rounded-lg">
+                  <div className="flex items-center mb-2">
+                    <Plane className="w-5 h-5 text-green-600 mr-2" />
+                    <h3 className="text-lg font-medium text-gray-800">
+                      {t("app.cruisePhase")}
+                    </h3>
+                  </div>
+                  <p className="text-gray-600">
+                    {t("app.cruiseTime")}{" "}
+                    <span className="font-semibold text-green-600">
+                      {t("units.minutes", {
+                        value: displayValue(results.cruiseTime, "cruise"),
+                      })}
+                    </span>
+                  </p>
+                  <p className="text-gray-600">
+                    {t("app.cruiseTas")}{" "}
+                    <span className="font-semibold text-green-600">
+                      {displaySpeed(results.cruiseTrueAirspeed, "cruise")}{" "}
+                      {speedUnit}
+                    </span>
+                  </p>
+                  <PhaseWind
+                    solution={results.wind?.cruise}
+                    speedUnit={speedUnit}
+                  />
+                  <PhaseDiagnostics diagnostics={diagnosticsFor("cruise")} />
                 </div>
-                <p className="text-gray-600">
-                  Tempo de Cruzeiro:{" "}
-                  <span className="font-semibold text-green-600">
-                    {isNaN(results.cruiseTime) || !isFinite(results.cruiseTime)
-                      ? 0
-                      : results.cruiseTime}{" "}
-                    minutos
-                  </span>
-                </p>
-              </div>
 
-              <div className="bg-neutral-50 p-4 rounded-lg">
-                <div className="flex items-center mb-2">
-                  <ArrowDown className="w-5 h-5 text-emerald-600 mr-2" />
-                  <h3 className="text-lg font-medium text-gray-800">
-                    Fase de Descida
-                  </h3>
+                <div className="bg-neutral-50 p-4 rounded-lg">
+                  <div className="flex items-center mb-2">
+                    <ArrowDown className="w-5 h-5 text-emerald-600 mr-2" />
+                    <h3 className="text-lg font-medium text-gray-800">
+                      {t("app.descentPhase")}
+                    </h3>
+                  </div>
+                  <p className="text-gray-600">
+                    {t("app.todDistance")}{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {t("units.nm", {
+                        value: displayValue(results.todDistance, "descent"),
+                      })}
+                    </span>
+                  </p>
+                  <p className="text-gray-600">
+                    {t("app.descentTime")}{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {t("units.minutes", {
+                        value: displayValue(results.descentTime, "descent"),
+                      })}
+                    </span>
+                  </p>
+                  <PositionDetails
+                    label="TOD"
+                    position={results.tod}
+                    available={isPhaseComputable(results.diagnostics, "total")}
+                  />
+                  {isPhaseComputable(results.diagnostics, "descent") && (
+                    <BandBreakdownTable bands={results.descentBands} />
+                  )}
+                  <PhaseWind
+                    solution={results.wind?.descent}
+                    speedUnit={speedUnit}
+                  />
+                  <PhaseDiagnostics diagnostics={diagnosticsFor("descent")} />
                 </div>
-                <p className="text-gray-600">
-                  Distância do TOD:{" "}
-                  <span className="font-semibold text-emerald-600">
-                    {isNaN(results.todDistance) ||
-                    !isFinite(results.todDistance)
-                      ? 0
-                      : results.todDistance}{" "}
-                    NM
-                  </span>
-                </p>
-                <p className="text-gray-600">
-                  Tempo de Descida:{" "}
-                  <span className="font-semibold text-emerald-600">
-                    {isNaN(results.descentTime) ||
-                    !isFinite(results.descentTime)
-                      ? 0
-                      : results.descentTime}{" "}
-                    minutos
-                  </span>
-                </p>
-              </div>
 
-              <div className="bg-neutral-50 p-4 rounded-lg">
-                <div className="flex items-center mb-2">
-                  <Navigation className="w-5 h-5 text-emerald-600 mr-2" />
-                  <h3 className="text-lg font-medium text-gray-800">
-                    Voo Total
+                <div className="bg-neutral-50 p-4 rounded-lg">
+                  <div className="flex items-center mb-2">
+                    <Navigation className="w-5 h-5 text-emerald-600 mr-2" />
+                    <h3 className="text-lg font-medium text-gray-800">
+                      {t("app.total")}
+                    </h3>
+                  </div>
+                  <p className="text-gray-600">
+                    {t("app.totalDistance")}{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {t("units.nm", {
+                        value: displayValue(results.totalDistance, "total"),
+                      })}
+                    </span>
+                  </p>
+                  <p className="text-gray-600">
+                    {t("app.totalTime")}{" "}
+                    <span className="font-semibold text-emerald-600">
+                      {t("units.minutes", {
+                        value: displayValue(results.totalTime, "total"),
+                      })}
+                    </span>
+                  </p>
+                  {results.trueCourse !== undefined && (
+                    <p className="text-gray-600">
+                      {t("app.trueCourse")}{" "}
+                      <span className="font-semibold text-emerald-600">
+                        {Math.round(results.trueCourse)}°
+                      </span>
+                    </p>
+                  )}
+                  {results.magneticCourse !== undefined && (
+                    <p className="text-gray-600">
+                      {t("app.magneticCourse")}{" "}
+                      <span className="font-semibold text-emerald-600">
+                        {Math.round(results.magneticCourse)}°
+                      </span>{" "}
+                      <span className="text-sm text-gray-500">
+                        (
+                        {t("app.variation", {
+                          variation: formatVariation(
+                            results.legs[0].variation,
+                            formatNumber
+                          ),
+                        })}
+                        )
+                      </span>
+                    </p>
+                  )}
+                  <LegsTable
+                    legs={results.legs}
+                    showEte={isPhaseComputable(results.diagnostics, "total")}
+                    speedUnit={speedUnit}
+                  />
+                  <PhaseDiagnostics diagnostics={diagnosticsFor("total")} />
+                </div>
+
+                <div className="mt-6 p-4 bg-yellow-50 rounded-lg">
+                  <h3 className="text-sm font-medium text-gray-500 mb-2">
+                    {t("app.note")}
                   </h3>
+                  <p className="text-sm text-gray-600">{t("app.disclaimer")}</p>
                 </div>
-                <p className="text-gray-600">
-                  Distância Total:{" "}
-                  <span className="font-semibold text-emerald-600">
-                    {isNaN(results.totalDistance) ||
-                    !isFinite(results.totalDistance)
-                      ? 0
-                      : results.totalDistance}{" "}
-                    NM
-                  </span>
-                </p>
-                <p className="text-gray-600">
-                  Tempo total:{" "}
-                  <span className="font-semibold text-emerald-600">
-                    {isNaN(results.totalTime) ? 0 : results.totalTime} minutos
-                  </span>
-                </p>
               </div>
+            )}
+          </div>
+        </div>
 
-              <div className="mt-6 p-4 bg-yellow-50 rounded-lg">
-                <h3 className="text-sm font-medium text-gray-500 mb-2">
-                  Nota:
+        {/* Fuel Section */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-8 print:hidden">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">
+            {t("app.fuel")}
+          </h2>
+          <div className="grid md:grid-cols-2 gap-8">
+            <FuelPanel
+              value={fuel}
+              alternateIcao={alternateIcao}
+              alternate={alternate}
+              alternateError={alternateError && t(alternateError)}
+              onChange={setFuel}
+              onAlternateChange={handleAlternateChange}
+              onAlternateSelect={handleSelectAlternate}
+            />
+            <div className="bg-neutral-50 p-4 rounded-lg">
+              <div className="flex items-center mb-2">
+                <Fuel className="w-5 h-5 text-emerald-600 mr-2" />
+                <h3 className="text-lg font-medium text-gray-800">
+                  {t("app.fuelRequired")}
                 </h3>
-                <p className="text-sm text-gray-600">
-                  Os cálculos realizados pela plataforma são aproximados. Use
-                  apenas para fins de planejamento e treinamento. Sempre siga os
-                  procedimentos recomendados e o perfil de voo do fabricante da
-                  aeronave.
+              </div>
+              {isPhaseComputable(results.diagnostics, "total") &&
+              fuel.cruiseFlow > 0 ? (
+                <>
+                  <FuelSummary
+                    plan={fuelPlan}
+                    unit={fuel.unit}
+                    reserveMinutes={fuel.finalReserveMinutes}
+                    contingencyPercent={fuel.contingencyPercent}
+                    alternateIcao={alternate?.icao}
+                  />
+                  <PhaseDiagnostics diagnostics={fuelPlan.diagnostics} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  {t("app.fuelIncomplete")}
                 </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Navlog Section */}
+        {isPhaseComputable(results.diagnostics, "total") && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mt-8 print:mt-0 print:p-0 print:shadow-none">
+            <h2 className="text-xl font-semibold mb-4 text-gray-700">Navlog</h2>
+            <NavlogSheet
+              result={results}
+              departure={airports.departure}
+              arrival={airports.arrival}
+              route={route.waypoints}
+              cruiseAltitude={inputs.cruiseAltitude ?? 0}
+            />
+          </div>
+        )}
+
+        {/* Daylight */}
+        {isPhaseComputable(results.diagnostics, "total") && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mt-8 print:hidden">
+            <h2 className="text-xl font-semibold mb-4 text-gray-700">
+              {t("app.daylight")}
+            </h2>
+            <DaylightPanel
+              departure={airports.departure}
+              arrival={airports.arrival}
+              totalTime={results.totalTime}
+            />
+          </div>
+        )}
+
+        {/* Weather Reports */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-8 print:hidden">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">
+            {t("app.weather")}
+          </h2>
+          <WeatherPanel
+            departure={airports.departure}
+            arrival={airports.arrival}
+            onApplyIsaDeviation={setIsaDeviation}
+          />
+        </div>
+
+        {/* Nearest Airports */}
+        {routePath.length > 1 && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mt-8 print:hidden">
+            <h2 className="text-xl font-semibold mb-4 text-gray-700">
+              {t("app.nearest")}
+            </h2>
+            <div className="grid md:grid-cols-2 gap-8">
+              <NearestAirportsPanel
+                path={routePath}
+                toc={results.toc}
+                tod={results.tod}
+                groundSpeed={cruiseGroundSpeed}
+              />
+              <div>
+                <h3 className="text-lg font-medium text-gray-800 mb-2">
+                  {t("app.diversions")}
+                </h3>
+                <DiversionTable
+                  path={routePath}
+                  groundSpeed={cruiseGroundSpeed}
+                />
               </div>
             </div>
           </div>
+        )}
+
+        {/* Airport Dataset */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-8 print:hidden">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">
+            {t("app.airportDb")}
+          </h2>
+          <AirportDatasetPanel
+            userAirports={userAirports}
+            onChange={setUserAirports}
+          />
+        </div>
+
+        {/* Map Section */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-8 print:hidden">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">
+            {t("app.map")}
+          </h2>
+          <RouteMap
+            departure={airports.departure}
+            arrival={airports.arrival}
+            route={route.waypoints}
+            toc={results.toc}
+            tod={results.tod}
+            onSelectAirport={handleSelectAirport}
+          />
         </div>
       </div>
+      <UpdatePrompt />
     </div>
   );
 }
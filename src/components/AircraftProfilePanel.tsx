@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Plane, Save, Trash2 } from "lucide-react";
+import { AircraftProfile, ProfileLimits } from "../data/aircraft-profiles";
+import { useI18n } from "../i18n";
+
+interface AircraftProfilePanelProps {
+  profiles: AircraftProfile[];
+  selectedId?: string;
+  onSelect: (profile: AircraftProfile | undefined) => void;
+  onSave: (name: string, limits: ProfileLimits) => void;
+  onDelete: (id: string) => void;
+}
+
+function AircraftProfilePanel({
+  profiles,
+  selectedId,
+  onSelect,
+  onSave,
+  onDelete,
+}: AircraftProfilePanelProps) {
+  const { t } = useI18n();
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [ceiling, setCeiling] = useState("");
+  const [takeoff, setTakeoff] = useState("");
+  const [landing, setLanding] = useState("");
+
+  const selected = profiles.find((profile) => profile.id === selectedId);
+  const builtIn = profiles.filter((profile) => profile.builtIn);
+  const custom = profiles.filter((profile) => !profile.builtIn);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim(), {
+      serviceCeiling: Number(ceiling) || undefined,
+      takeoffDistance: Number(takeoff) || undefined,
+      landingDistance: Number(landing) || undefined,
+    });
+    setSaving(false);
+    setName("");
+    setCeiling("");
+    setTakeoff("");
+    setLanding("");
+  };
+
+  return (
+    <div>
+      <label className="flex items-center text-sm font-medium text-gray-600 mb-1">
+        <Plane className="w-4 h-4 mr-1" />
+        {t("profile.title")}
+      </label>
+      <div className="flex gap-2">
+        <select
+          value={selectedId ?? ""}
+          onChange={(e) =>
+            onSelect(profiles.find((profile) => profile.id === e.target.value))
+          }
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">{t("profile.custom")}</option>
+          <optgroup label={t("profile.builtIn")}>
+            {builtIn.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </optgroup>
+          {custom.length > 0 && (
+            <optgroup label={t("profile.mine")}>
+              {custom.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {selected && !selected.builtIn && (
+          <button
+            onClick={() => onDelete(selected.id)}
+            aria-label={t("profile.delete")}
+            className="h-10 px-3 py-2 text-gray-500 border border-gray-300 rounded-md hover:text-red-600"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setSaving((prev) => !prev)}
+          aria-label={t("profile.save")}
+          className="h-10 px-3 py-2 bg-emerald-500 text-white rounded-md hover:bg-emerald-600"
+        >
+          <Save className="w-4 h-4" />
+        </button>
+      </div>
+      {selected?.serviceCeiling && (
+        <p className="mt-1 text-sm text-gray-500">
+          {t("profile.ceiling", { ceiling: selected.serviceCeiling })}
+        </p>
+      )}
+      {(selected?.takeoffDistance || selected?.landingDistance) && (
+        <p className="mt-1 text-sm text-gray-500">
+          {t("profile.distances", {
+            takeoff: selected.takeoffDistance ?? "—",
+            landing: selected.landingDistance ?? "—",
+          })}
+        </p>
+      )}
+      {saving && (
+        <div className="mt-2 p-3 bg-neutral-50 rounded-md space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("profile.namePlaceholder")}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <input
+            type="number"
+            value={ceiling}
+            onChange={(e) => setCeiling(e.target.value)}
+            placeholder={t("profile.ceilingPlaceholder")}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              value={takeoff}
+              onChange={(e) => setTakeoff(e.target.value)}
+              placeholder={t("profile.takeoffPlaceholder")}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <input
+              type="number"
+              min={0}
+              value={landing}
+              onChange={(e) => setLanding(e.target.value)}
+              placeholder={t("profile.landingPlaceholder")}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-3 py-2 bg-emerald-500 text-white rounded-md hover:bg-emerald-600 disabled:opacity-50"
+          >
+            {t("profile.saveCurrent")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AircraftProfilePanel;
@@ -0,0 +1,136 @@
+import { useEffect, useId, useState } from "react";
+import { useI18n } from "../i18n";
+import { AirportSearchResult, searchAirports } from "../services/airport";
+
+interface AirportAutocompleteProps {
+  value: string;
+  label: string;
+  onChange: (value: string) => void;
+  onSelect: (icao: string) => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+function AirportAutocomplete({
+  value,
+  label,
+  onChange,
+  onSelect,
+}: AirportAutocompleteProps) {
+  const { t } = useI18n();
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const [matches, setMatches] = useState<{
+    query: string;
+    results: AirportSearchResult[];
+  }>({ query: "", results: [] });
+
+  const query = value.trim();
+  const searching = open && query.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    if (!searching) return;
+    let current = true;
+    searchAirports(query)
+      .then((results) => {
+        if (current) setMatches({ query, results });
+      })
+      .catch(() => {
+        if (current) setMatches({ query, results: [] });
+      });
+    return () => {
+      current = false;
+    };
+  }, [query, searching]);
+
+  // Results of an older query are dropped rather than shown against new text
+  const results = searching && matches.query === query ? matches.results : [];
+
+  const select = (icao: string) => {
+    setOpen(false);
+    onSelect(icao);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && results.length > 0) {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % results.length);
+    } else if (e.key === "ArrowUp" && results.length > 0) {
+      e.preventDefault();
+      setHighlighted((index) => (index - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const result = results[highlighted];
+      select(result ? result.airport.icao : value);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        role="combobox"
+        aria-label={label}
+        aria-expanded={results.length > 0}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          results.length > 0 ? `${listId}-${highlighted}` : undefined
+        }
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlighted(0);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={t("airportSearch.placeholder")}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+      />
+      {results.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-72 max-h-72 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {results.map(({ airport }, index) => (
+            <li
+              key={airport.icao}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                // Keep focus so the click lands before the list closes
+                e.preventDefault();
+                select(airport.icao);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`px-3 py-2 cursor-pointer text-sm ${
+                index === highlighted ? "bg-emerald-50" : ""
+              }`}
+            >
+              <p className="font-medium text-gray-800">
+                {airport.icao}
+                {airport.iata && (
+                  <span className="ml-1 text-gray-500">/ {airport.iata}</span>
+                )}
+              </p>
+              <p className="text-gray-600 truncate">{airport.name}</p>
+              <p className="text-gray-400 text-xs">
+                {airport.city}, {airport.state}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AirportAutocomplete;
@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  Database,
+  RotateCcw,
+  Upload,
+} from "lucide-react";
+import { BrazilianAirport } from "../data/brazilian-airports";
+import { MessageKey, MessageParams, useI18n } from "../i18n";
+import {
+  AirportStats,
+  applyUserAirports,
+  getAirportSnapshot,
+  loadAirports,
+  subscribeAirports,
+} from "../services/airport";
+import {
+  clearStoredDataset,
+  DatasetIssue,
+  mergeAirports,
+  parseAirportDataset,
+  saveStoredDataset,
+} from "../services/airportDataset";
+
+interface AirportDatasetPanelProps {
+  userAirports: BrazilianAirport[];
+  onChange: (userAirports: BrazilianAirport[]) => void;
+}
+
+const MAX_ISSUES_SHOWN = 20;
+
+// Kept as message keys so the status follows a language switch
+type StatusMessage = [MessageKey, MessageParams?];
+
+const buttonClass =
+  "flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-emerald-50";
+
+function AirportDatasetPanel({
+  userAirports,
+  onChange,
+}: AirportDatasetPanelProps) {
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [issues, setIssues] = useState<DatasetIssue[]>([]);
+  const [status, setStatus] = useState<StatusMessage[]>([]);
+  const [stats, setStats] = useState<AirportStats>();
+  const { status: dbStatus, revision } = useSyncExternalStore(
+    subscribeAirports,
+    getAirportSnapshot
+  );
+
+  // Counts only once something else has loaded the database; the panel
+  // alone is no reason to fetch it
+  useEffect(() => {
+    if (dbStatus !== "ready") return;
+    loadAirports()
+      .then(setStats)
+      .catch(() => setStats(undefined));
+  }, [dbStatus, revision]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const parsed = parseAirportDataset(await file.text(), file.name);
+    setIssues(parsed.issues);
+    if (parsed.airports.length === 0) {
+      setStatus([["dataset.noneValid"]]);
+      return;
+    }
+
+    // Later files win over earlier ones, and all of them over the bundled set
+    const user = mergeAirports(userAirports, parsed.airports).airports;
+    try {
+      await applyUserAirports(user);
+    } catch {
+      setStatus([["dataset.loadFailed"]]);
+      return;
+    }
+    onChange(user);
+    const loaded: StatusMessage = [
+      "dataset.loaded",
+      { count: parsed.airports.length, file: file.name },
+    ];
+    setStatus([loaded]);
+    try {
+      await saveStoredDataset(user);
+    } catch {
+      setStatus([loaded, ["dataset.saveFailed"]]);
+    }
+  };
+
+  const handleReset = async () => {
+    onChange([]);
+    setIssues([]);
+    try {
+      await applyUserAirports([]);
+      setStatus([["dataset.restored"]]);
+      await clearStoredDataset();
+    } catch {
+      // The stored set stays in place and loads again on the next visit
+    }
+  };
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+
+  return (
+    <div className="space-y-4">
+      <p className="flex items-center text-sm text-gray-600">
+        <Database className="w-4 h-4 mr-1" />
+        {stats
+          ? t("dataset.bundled", { count: stats.bundled })
+          : dbStatus === "error"
+            ? t("airportDb.unavailable")
+            : t("dataset.notLoaded")}
+        {stats &&
+          userAirports.length > 0 &&
+          ` + ${t("dataset.user", { count: userAirports.length })}`}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => fileInput.current?.click()}
+          className={buttonClass}
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          {t("dataset.load")}
+        </button>
+        {userAirports.length > 0 && (
+          <button onClick={handleReset} className={buttonClass}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            {t("dataset.restore")}
+          </button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      <p className="text-xs text-gray-500">{t("dataset.fields")}</p>
+
+      {status.length > 0 && (
+        <p className="text-sm text-green-600">
+          {status.map(([key, params]) => t(key, params)).join(" ")}
+        </p>
+      )}
+
+      {issues.length > 0 && (
+        <div className="text-sm">
+          <p className="font-medium text-gray-700">
+            {t("dataset.issues", {
+              errors,
+              warnings: issues.length - errors,
+            })}
+          </p>
+          <ul className="mt-1 space-y-1">
+            {issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => {
+              const Icon =
+                issue.severity === "error" ? AlertCircle : AlertTriangle;
+              return (
+                <li
+                  key={index}
+                  className={`flex items-start ${
+                    issue.severity === "error"
+                      ? "text-red-600"
+                      : "text-amber-600"
+                  }`}
+                >
+                  <Icon className="w-4 h-4 mr-1 mt-0.5 shrink-0" />
+                  {issue.row > 0 && t("dataset.row", { row: issue.row })}
+                  {issue.icao && ` (${issue.icao})`}
+                  {issue.row > 0 && ": "}
+                  {t(
+                    issue.variant
+                      ? `dataset.issue.invalid-runway.${issue.variant}`
+                      : `dataset.issue.${issue.code}`,
+                    issue.params
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {issues.length > MAX_ISSUES_SHOWN && (
+            <p className="mt-1 text-gray-500">
+              {t("dataset.more", {
+                count: issues.length - MAX_ISSUES_SHOWN,
+              })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AirportDatasetPanel;
@@ -0,0 +1,46 @@
+import { BandBreakdown } from "../engine/flightProfile";
+import { useI18n } from "../i18n";
+
+interface BandBreakdownTableProps {
+  bands: BandBreakdown[];
+}
+
+function BandBreakdownTable({ bands }: BandBreakdownTableProps) {
+  const { t, formatNumber } = useI18n();
+
+  if (bands.length < 2) return null;
+
+  return (
+    <table className="w-full mt-2 text-sm text-gray-600">
+      <thead>
+        <tr className="text-left text-gray-500 border-b border-gray-200">
+          <th className="py-1 font-medium">{t("bands.band")}</th>
+          <th className="py-1 font-medium text-right">
+            {t("common.distance")}
+          </th>
+          <th className="py-1 font-medium text-right">{t("common.time")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {bands.map((band) => (
+          <tr
+            key={`${band.floor}-${band.ceiling}`}
+            className="border-b border-gray-100 last:border-0"
+          >
+            <td className="py-1">
+              {formatNumber(band.floor)} – {formatNumber(band.ceiling)}
+            </td>
+            <td className="py-1 text-right">
+              {t("units.nm", { value: band.distance })}
+            </td>
+            <td className="py-1 text-right">
+              {t("units.min", { value: band.time })}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default BandBreakdownTable;
@@ -0,0 +1,98 @@
+import { useMemo, useState } from "react";
+import { Layers } from "lucide-react";
+import { adviseCruiseLevels, FlightRules } from "../engine/cruiseLevels";
+import { FlightProfileInput } from "../engine/flightProfile";
+import { useI18n } from "../i18n";
+import PhaseDiagnostics from "./PhaseDiagnostics";
+
+interface CruiseLevelAdvisorProps {
+  input: FlightProfileInput;
+  onSelect: (altitude: number) => void;
+}
+
+const inputClass =
+  "px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+function CruiseLevelAdvisor({ input, onSelect }: CruiseLevelAdvisorProps) {
+  const { t } = useI18n();
+  const [rules, setRules] = useState<FlightRules>("vfr");
+  const [minimumAltitude, setMinimumAltitude] = useState("");
+
+  // Each candidate level is a full profile calculation
+  const advice = useMemo(
+    () => adviseCruiseLevels(input, rules, Number(minimumAltitude) || 0),
+    [input, rules, minimumAltitude]
+  );
+
+  return (
+    <div className="mt-2 bg-neutral-50 p-3 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Layers className="w-4 h-4 text-emerald-600" />
+        <span className="font-medium text-gray-700">{t("levels.title")}</span>
+        <select
+          value={rules}
+          onChange={(e) => setRules(e.target.value as FlightRules)}
+          aria-label={t("levels.rules")}
+          className={inputClass}
+        >
+          <option value="vfr">VFR</option>
+          <option value="ifr">IFR</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          step={100}
+          value={minimumAltitude}
+          onChange={(e) => setMinimumAltitude(e.target.value)}
+          placeholder={t("levels.minimum")}
+          aria-label={t("levels.minimumLabel")}
+          className={`${inputClass} w-32`}
+        />
+      </div>
+
+      {!advice ? (
+        <p className="mt-2 text-gray-500">{t("levels.needAirports")}</p>
+      ) : (
+        <>
+          <p className="mt-2 text-gray-500">
+            {t(`levels.course.${advice.semicircle}`, {
+              course: Math.round(advice.magneticCourse) % 360,
+            })}
+          </p>
+          {advice.options.length === 0 ? (
+            <p className="mt-1 text-gray-500">{t("levels.none")}</p>
+          ) : (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {advice.options.map((option, index) => (
+                <button
+                  key={option.altitude}
+                  type="button"
+                  onClick={() => onSelect(option.altitude)}
+                  title={t("levels.cruiseTime", { value: option.cruiseTime })}
+                  className={`px-2 py-1 rounded-md border ${
+                    option.altitude === input.cruiseAltitude
+                      ? "border-emerald-600 bg-emerald-600 text-white"
+                      : "border-gray-300 bg-white text-gray-700 hover:border-emerald-500"
+                  }`}
+                >
+                  {t("units.ft", { value: option.altitude })}
+                  <span className="ml-1 opacity-75">
+                    · {t("units.min", { value: option.totalTime })}
+                  </span>
+                  {index === 0 && (
+                    <span className="ml-1 font-medium">
+                      ({t("levels.fastest")})
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          <PhaseDiagnostics diagnostics={advice.diagnostics} />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CruiseLevelAdvisor;
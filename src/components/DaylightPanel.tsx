@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Moon, Sun } from "lucide-react";
+import { checkDaylight, SunTimes } from "../engine/sun";
+import { Airport } from "../engine/types";
+import { MessageKey, useI18n } from "../i18n";
+
+interface DaylightPanelProps {
+  departure?: Airport;
+  arrival?: Airport;
+  totalTime: number; // minutes, takeoff to landing
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const MS_PER_DAY = 86400000;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const events: [keyof SunTimes, MessageKey][] = [
+  ["civilDawn", "daylight.civilDawn"],
+  ["sunrise", "daylight.sunrise"],
+  ["sunset", "daylight.sunset"],
+  ["civilDusk", "daylight.civilDusk"],
+];
+
+function DaylightPanel({ departure, arrival, totalTime }: DaylightPanelProps) {
+  const { t, formatClock } = useI18n();
+  const [date, setDate] = useState(today);
+  const [time, setTime] = useState("");
+
+  const departureTime = new Date(`${date}T${time}Z`);
+  const valid = time !== "" && !isNaN(departureTime.getTime());
+  const check =
+    valid && departure?.coordinates && arrival?.coordinates
+      ? checkDaylight(
+          departureTime,
+          totalTime,
+          departure.coordinates,
+          arrival.coordinates
+        )
+      : undefined;
+
+  // UTC clock, with the day offset from the departure date when it differs
+  const clock = (value?: Date) => {
+    if (!value) return "—";
+    const days = Math.floor(
+      (value.getTime() - Date.parse(`${date}T00:00Z`)) / MS_PER_DAY
+    );
+    const offset = days === 0 ? "" : ` (${days > 0 ? "+" : ""}${days}d)`;
+    return `${formatClock(value.getTime() / 60000)}Z${offset}`;
+  };
+
+  const sunTable = (label: MessageKey, airport: Airport, sun: SunTimes) => (
+    <div className="bg-neutral-50 p-4 rounded-lg">
+      <h3 className="text-lg font-medium text-gray-800 mb-2">
+        {t(label)} · {airport.icao}
+      </h3>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        {events.map(([event, name]) => (
+          <div key={event} className="contents">
+            <dt className="text-gray-600">{t(name)}</dt>
+            <dd className="font-semibold text-gray-800">{clock(sun[event])}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+
+  const arrivalVerdict = () => {
+    if (!check) return null;
+    const { eta, arrivalSun, margin } = check;
+    const dusk = clock(arrivalSun.civilDusk);
+    if (!check.arrivesAtNight) {
+      return (
+        <p className="flex items-center text-emerald-700">
+          <Sun className="w-4 h-4 mr-2 shrink-0" />
+          {margin !== undefined
+            ? t("daylight.arrivesInDaylight", {
+                eta: clock(eta),
+                margin,
+                dusk,
+              })
+            : t("daylight.arrivesInPolarDay", { eta: clock(eta) })}
+        </p>
+      );
+    }
+    const beforeDawn =
+      arrivalSun.civilDawn !== undefined && eta < arrivalSun.civilDawn;
+    return (
+      <p className="flex items-center text-red-600">
+        <Moon className="w-4 h-4 mr-2 shrink-0" />
+        {beforeDawn
+          ? t("daylight.arrivesBeforeDawn", {
+              eta: clock(eta),
+              dawn: clock(arrivalSun.civilDawn),
+            })
+          : margin !== undefined
+            ? t("daylight.arrivesAtNight", {
+                eta: clock(eta),
+                late: -margin,
+                dusk,
+              })
+            : t("daylight.arrivesInPolarNight", { eta: clock(eta) })}
+      </p>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">{t("daylight.intro")}</p>
+      <div className="grid md:grid-cols-2 gap-4 max-w-md">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("daylight.date")}
+          </label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("daylight.departureTime")}
+          </label>
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {!departure?.coordinates || !arrival?.coordinates ? (
+        <p className="text-sm text-gray-500">{t("daylight.noCoordinates")}</p>
+      ) : !check ? (
+        <p className="text-sm text-gray-500">{t("daylight.enterTime")}</p>
+      ) : (
+        <>
+          <div className="grid md:grid-cols-2 gap-8">
+            {sunTable("daylight.departure", departure, check.departureSun)}
+            {sunTable("daylight.arrival", arrival, check.arrivalSun)}
+          </div>
+          <div className="space-y-2 text-sm">
+            {check.departsAtNight && (
+              <p className="flex items-center text-amber-600">
+                <Moon className="w-4 h-4 mr-2 shrink-0" />
+                {t("daylight.departsAtNight", {
+                  departure: clock(check.departure),
+                })}
+              </p>
+            )}
+            {arrivalVerdict()}
+            {check.latestDeparture && (
+              <p className="text-gray-700">
+                {t("daylight.latestDeparture")}{" "}
+                <span className="font-semibold text-gray-800">
+                  {clock(check.latestDeparture)}
+                </span>
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DaylightPanel;
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { ArrowDown, Crosshair } from "lucide-react";
+import {
+  DEFAULT_PATH_ANGLE,
+  DescentPlan,
+  DescentPlanInput,
+  planDescent,
+} from "../engine/descent";
+import { Airport } from "../engine/types";
+import { convertSpeed } from "../engine/units";
+import { useI18n } from "../i18n";
+import PhaseDiagnostics from "./PhaseDiagnostics";
+
+type DescentSettings = Omit<
+  DescentPlanInput,
+  | "currentAltitude"
+  | "targetAltitude"
+  | "restrictionDistance"
+  | "headwind"
+  | "pathAngle"
+  | "distanceToFix"
+>;
+
+interface DescentPlannerProps {
+  settings: DescentSettings;
+  arrival?: Airport;
+  cruiseAltitude?: number; // feet, used until a current altitude is entered
+  headwind?: number; // kt, descent headwind from the flight profile
+}
+
+type TargetMode = "pattern" | "restriction";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const optionalNumber = (value: string) =>
+  value === "" || !isFinite(Number(value)) ? undefined : Number(value);
+
+function DescentPlanner({
+  settings,
+  arrival,
+  cruiseAltitude,
+  headwind,
+}: DescentPlannerProps) {
+  const { t } = useI18n();
+  const [currentAltitude, setCurrentAltitude] = useState("");
+  const [targetMode, setTargetMode] = useState<TargetMode>("pattern");
+  const [patternHeight, setPatternHeight] = useState("1000");
+  const [restrictionAltitude, setRestrictionAltitude] = useState("");
+  const [restrictionDistance, setRestrictionDistance] = useState("");
+  const [pathAngle, setPathAngle] = useState(String(DEFAULT_PATH_ANGLE));
+  const [distanceToFix, setDistanceToFix] = useState("");
+  const [windInput, setWindInput] = useState("");
+
+  const fieldElevation = arrival?.elevation ?? 0;
+  const targetAltitude =
+    targetMode === "pattern"
+      ? fieldElevation + (optionalNumber(patternHeight) ?? 0)
+      : optionalNumber(restrictionAltitude);
+  const altitude = optionalNumber(currentAltitude) ?? cruiseAltitude;
+  const enteredWind = optionalNumber(windInput);
+
+  const plan =
+    altitude !== undefined && targetAltitude !== undefined
+      ? planDescent({
+          ...settings,
+          currentAltitude: altitude,
+          targetAltitude,
+          restrictionDistance:
+            targetMode === "restriction"
+              ? optionalNumber(restrictionDistance)
+              : undefined,
+          headwind:
+            enteredWind !== undefined
+              ? convertSpeed(enteredWind, settings.speedUnit, "kt")
+              : headwind,
+          pathAngle: optionalNumber(pathAngle),
+          distanceToFix: optionalNumber(distanceToFix),
+        })
+      : undefined;
+  const computable =
+    plan !== undefined &&
+    !plan.diagnostics.some((d) => d.severity !== "warning");
+  const fix = arrival?.icao ?? t("descent.fix");
+
+  const result = (label: string, value: (plan: DescentPlan) => string) => (
+    <p className="text-gray-600">
+      {label}:{" "}
+      <span className="font-semibold text-emerald-600">
+        {plan && computable ? value(plan) : "—"}
+      </span>
+    </p>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("descent.currentAltitude")}
+          </label>
+          <input
+            type="number"
+            value={currentAltitude}
+            placeholder={cruiseAltitude ? String(cruiseAltitude) : undefined}
+            onChange={(e) => setCurrentAltitude(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("descent.target")}
+          </label>
+          <select
+            value={targetMode}
+            onChange={(e) => setTargetMode(e.target.value as TargetMode)}
+            className={inputClass}
+          >
+            <option value="pattern">{t("descent.target.pattern")}</option>
+            <option value="restriction">
+              {t("descent.target.restriction")}
+            </option>
+          </select>
+        </div>
+      </div>
+
+      {targetMode === "pattern" ? (
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("descent.patternHeight")}
+          </label>
+          <input
+            type="number"
+            value={patternHeight}
+            onChange={(e) => setPatternHeight(e.target.value)}
+            className={inputClass}
+          />
+          <p className="mt-1 text-sm text-gray-500">
+            {t("descent.patternTarget", {
+              altitude: targetAltitude ?? 0,
+              field: arrival ? arrival.icao : t("descent.arrival"),
+              elevation: fieldElevation,
+            })}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              {t("descent.crossAtOrBelow")}
+            </label>
+            <input
+              type="number"
+              value={restrictionAltitude}
+              onChange={(e) => setRestrictionAltitude(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              {t("descent.nmBefore", { fix })}
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={restrictionDistance}
+              onChange={(e) => setRestrictionDistance(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("descent.angle")}
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={pathAngle}
+            onChange={(e) => setPathAngle(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("descent.headwind", { unit: settings.speedUnit })}
+          </label>
+          <input
+            type="number"
+            value={windInput}
+            placeholder={
+              headwind
+                ? String(
+                    Math.round(convertSpeed(headwind, "kt", settings.speedUnit))
+                  )
+                : "0"
+            }
+            onChange={(e) => setWindInput(e.target.value)}
+            aria-label={t("descent.headwindLabel")}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("descent.distanceToFix", { fix })}
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={distanceToFix}
+            onChange={(e) => setDistanceToFix(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="bg-neutral-50 p-4 rounded-lg">
+        <div className="flex items-center mb-2">
+          <ArrowDown className="w-5 h-5 text-emerald-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-800">
+            {t("descent.planned")}
+          </h3>
+        </div>
+        {result(t("descent.todBefore", { fix }), (p) =>
+          t("units.nm", { value: p.todDistance })
+        )}
+        {result(t("descent.altitudeToLose"), (p) =>
+          t("units.ft", { value: p.altitudeToLose })
+        )}
+        {result(t("descent.time"), (p) =>
+          t("units.minutes", { value: p.descentTime })
+        )}
+        {result(t("descent.groundSpeed"), (p) =>
+          t("units.kt", { value: p.groundSpeed })
+        )}
+        {result(
+          t("descent.pathRate", { angle: plan?.pathAngle ?? pathAngle }),
+          (p) => t("units.ftmin", { value: p.pathRate })
+        )}
+        {result(
+          t("descent.pathTod", { angle: plan?.pathAngle ?? pathAngle }),
+          (p) => t("descent.nmBeforeFix", { distance: p.pathTodDistance, fix })
+        )}
+      </div>
+
+      {plan?.distanceToTod !== undefined && (
+        <div className="bg-green-50 p-4 rounded-lg">
+          <div className="flex items-center mb-2">
+            <Crosshair className="w-5 h-5 text-green-600 mr-2" />
+            <h3 className="text-lg font-medium text-gray-800">
+              {t("descent.currentPosition")}
+            </h3>
+          </div>
+          {result(t("descent.startIn"), (p) =>
+            p.distanceToTod !== undefined && p.distanceToTod > 0
+              ? t("units.nm", { value: p.distanceToTod })
+              : t("descent.now")
+          )}
+          {plan.requiredRate !== undefined &&
+            result(t("descent.requiredRate"), (p) =>
+              t("units.ftmin", { value: p.requiredRate ?? 0 })
+            )}
+          {plan.requiredAngle !== undefined &&
+            result(t("descent.requiredAngle"), (p) =>
+              t("units.degrees", { value: p.requiredAngle ?? 0 })
+            )}
+        </div>
+      )}
+
+      {plan && <PhaseDiagnostics diagnostics={plan.diagnostics} />}
+    </div>
+  );
+}
+
+export default DescentPlanner;
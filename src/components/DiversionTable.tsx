@@ -0,0 +1,192 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import {
+  DEFAULT_SAMPLE_SPACING_NM,
+  findCoverageGaps,
+  sampleRoute,
+  timeToReach,
+} from "../engine/diversion";
+import { Waypoint } from "../engine/types";
+import { useI18n } from "../i18n";
+import {
+  findNearestAirports,
+  getAirportSnapshot,
+  NearbyAirport,
+  subscribeAirports,
+} from "../services/airport";
+
+interface DiversionTableProps {
+  path: Waypoint[]; // departure, route fixes and arrival
+  groundSpeed: number; // kt
+}
+
+// Consecutive samples sharing the same nearest airport
+interface Stretch {
+  start: number; // NM from departure
+  end: number; // NM from departure
+  nearest: NearbyAirport;
+  farthest: number; // NM, worst distance to the airport along the stretch
+}
+
+const inputClass =
+  "w-24 px-2 py-1 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const round = (value: number) => Math.round(value);
+
+function DiversionTable({ path, groundSpeed }: DiversionTableProps) {
+  const { t } = useI18n();
+  const [radius, setRadius] = useState(50);
+  const [nearest, setNearest] = useState<{
+    key: string;
+    airports: (NearbyAirport | undefined)[];
+    failed?: boolean;
+  }>();
+  const { revision } = useSyncExternalStore(
+    subscribeAirports,
+    getAirportSnapshot
+  );
+
+  const samples = sampleRoute(path, DEFAULT_SAMPLE_SPACING_NM);
+  const key = samples
+    .map(({ coordinates }) => `${coordinates.lat},${coordinates.lon}`)
+    .join(";");
+
+  useEffect(() => {
+    if (!key) return;
+    let current = true;
+    const points = key.split(";").map((pair) => {
+      const [lat, lon] = pair.split(",").map(Number);
+      return { lat, lon };
+    });
+    findNearestAirports(points, 1)
+      .then((lists) => {
+        if (current) setNearest({ key, airports: lists.map(([a]) => a) });
+      })
+      .catch(() => {
+        if (current) setNearest({ key, airports: [], failed: true });
+      });
+    return () => {
+      current = false;
+    };
+  }, [key, revision]);
+
+  if (samples.length === 0) return null;
+  if (nearest?.key !== key) {
+    return <p className="text-sm text-gray-500">{t("diversion.analyzing")}</p>;
+  }
+  if (nearest.failed) {
+    return <p className="text-sm text-red-600">{t("airportDb.queryFailed")}</p>;
+  }
+
+  const covered = samples.map((sample, index) => ({
+    ...sample,
+    nearest: nearest.airports[index],
+    nearestDistance: nearest.airports[index]?.distance,
+  }));
+  const gaps = findCoverageGaps(covered, radius);
+
+  const stretches: Stretch[] = [];
+  covered.forEach((sample) => {
+    if (!sample.nearest) return;
+    const last = stretches[stretches.length - 1];
+    if (last && last.nearest.airport.icao === sample.nearest.airport.icao) {
+      last.end = sample.distance;
+      last.farthest = Math.max(last.farthest, sample.nearest.distance);
+    } else {
+      stretches.push({
+        start: sample.distance,
+        end: sample.distance,
+        nearest: sample.nearest,
+        farthest: sample.nearest.distance,
+      });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <label htmlFor="diversion-radius">{t("diversion.radius")}</label>
+        <input
+          id="diversion-radius"
+          type="number"
+          min={1}
+          value={radius}
+          onChange={(e) => setRadius(Number(e.target.value) || 0)}
+          className={inputClass}
+        />
+      </div>
+
+      {gaps.length === 0 ? (
+        <p className="flex items-center text-sm text-emerald-600">
+          <ShieldCheck className="w-4 h-4 mr-1" />
+          {t("diversion.covered", { radius })}
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {gaps.map((gap) => (
+            <li
+              key={gap.start}
+              className="flex items-start text-sm text-amber-600"
+            >
+              <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 shrink-0" />
+              {t("diversion.gap", {
+                radius,
+                start: round(gap.start),
+                end: round(gap.end),
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <table className="w-full text-sm text-gray-600">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-1 font-medium">{t("diversion.stretch")}</th>
+            <th className="py-1 font-medium">{t("diversion.nearest")}</th>
+            <th className="py-1 font-medium text-right">
+              {t("diversion.maxDistance")}
+            </th>
+            <th className="py-1 font-medium text-right">
+              {t("diversion.maxTime")}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {stretches.map((stretch) => {
+            const minutes = timeToReach(stretch.farthest, groundSpeed);
+            return (
+              <tr
+                key={stretch.start}
+                className={`border-b border-gray-100 last:border-0 ${
+                  stretch.farthest > radius ? "text-amber-600" : ""
+                }`}
+              >
+                <td className="py-1">
+                  {round(stretch.start)} – {round(stretch.end)}
+                </td>
+                <td className="py-1">
+                  <span className="font-medium">
+                    {stretch.nearest.airport.icao}
+                  </span>{" "}
+                  {stretch.nearest.airport.name} ·{" "}
+                  {t("units.ft", { value: stretch.nearest.airport.elevation })}
+                </td>
+                <td className="py-1 text-right">
+                  {t("units.nm", { value: round(stretch.farthest) })}
+                </td>
+                <td className="py-1 text-right">
+                  {isFinite(minutes)
+                    ? t("units.min", { value: round(minutes) })
+                    : "—"}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default DiversionTable;
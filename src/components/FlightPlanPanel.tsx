@@ -0,0 +1,159 @@
+import { useRef, useState } from "react";
+import {
+  AlertCircle,
+  Check,
+  Download,
+  History,
+  Link,
+  Save,
+  Upload,
+} from "lucide-react";
+import { useI18n } from "../i18n";
+import {
+  exportPlan,
+  FlightPlanState,
+  HistoryEntry,
+  parsePlanFile,
+  PlanIssue,
+} from "../services/flightPlan";
+
+interface FlightPlanPanelProps {
+  plan: FlightPlanState;
+  history: HistoryEntry[];
+  onLoad: (plan: FlightPlanState) => void;
+  onSaveHistory: () => void;
+}
+
+const buttonClass =
+  "flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-emerald-50";
+
+const planTitle = (plan: FlightPlanState) => {
+  const { departureIcao, arrivalIcao, cruiseAltitude } = plan.inputs;
+  const legs = [departureIcao || "?", arrivalIcao || "?"].join(" → ");
+  return cruiseAltitude ? `${legs} · ${cruiseAltitude} ft` : legs;
+};
+
+function FlightPlanPanel({
+  plan,
+  history,
+  onLoad,
+  onSaveHistory,
+}: FlightPlanPanelProps) {
+  const { t, locale } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<PlanIssue[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+      onSaveHistory();
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPlan(plan)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    const { departureIcao, arrivalIcao } = plan.inputs;
+    link.href = url;
+    link.download = `${t("plan.fileName")}-${departureIcao || "dep"}-${arrivalIcao || "arr"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    onSaveHistory();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const result = parsePlanFile(await file.text());
+    if (result.ok) {
+      setErrors([]);
+      onLoad(result.file.plan);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleCopyLink} className={buttonClass}>
+          {copied ? (
+            <Check className="w-4 h-4 mr-1 text-emerald-600" />
+          ) : (
+            <Link className="w-4 h-4 mr-1" />
+          )}
+          {t(copied ? "plan.linkCopied" : "plan.copyLink")}
+        </button>
+        <button onClick={handleExport} className={buttonClass}>
+          <Download className="w-4 h-4 mr-1" />
+          {t("plan.export")}
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className={buttonClass}
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          {t("plan.import")}
+        </button>
+        <button onClick={onSaveHistory} className={buttonClass}>
+          <Save className="w-4 h-4 mr-1" />
+          {t("plan.saveHistory")}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-sm text-red-600">
+          <p className="flex items-center font-medium">
+            <AlertCircle className="w-4 h-4 mr-1" />
+            {t("plan.importFailed")}
+          </p>
+          <ul className="mt-1 ml-5 list-disc">
+            {errors.map((error, index) => (
+              <li key={index}>{t(`plan.issue.${error.code}`, error.params)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div>
+          <p className="flex items-center text-sm font-medium text-gray-600 mb-1">
+            <History className="w-4 h-4 mr-1" />
+            {t("plan.recent")}
+          </p>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {history.map((entry) => (
+              <li key={entry.savedAt}>
+                <button
+                  onClick={() => onLoad(entry.plan)}
+                  className="w-full flex justify-between py-1 text-left text-gray-700 hover:text-emerald-600"
+                >
+                  <span>{planTitle(entry.plan)}</span>
+                  <span className="text-gray-400">
+                    {new Date(entry.savedAt).toLocaleString(locale)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FlightPlanPanel;
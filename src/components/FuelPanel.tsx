@@ -0,0 +1,192 @@
+import { Fuel } from "lucide-react";
+import {
+  FuelSettings,
+  FuelType,
+  FuelUnit,
+  fuelUnitLabels,
+} from "../engine/fuel";
+import { Airport } from "../engine/types";
+import { useI18n } from "../i18n";
+import AirportAutocomplete from "./AirportAutocomplete";
+
+interface FuelPanelProps {
+  value: FuelSettings;
+  alternateIcao: string;
+  alternate?: Airport;
+  alternateError?: string;
+  onChange: (value: FuelSettings) => void;
+  onAlternateChange: (value: string) => void;
+  onAlternateSelect: (icao: string) => void;
+}
+
+const fuelTypeLabels: Record<FuelType, string> = {
+  avgas: "AvGas 100LL",
+  jeta1: "Jet A-1",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+function FuelPanel({
+  value,
+  alternateIcao,
+  alternate,
+  alternateError,
+  onChange,
+  onAlternateChange,
+  onAlternateSelect,
+}: FuelPanelProps) {
+  const { t } = useI18n();
+  const unit = fuelUnitLabels[value.unit];
+
+  const numberField = (
+    key: keyof FuelSettings,
+    label: string,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-600 mb-1">
+        {label}
+      </label>
+      <input
+        type="number"
+        min={0}
+        value={(value[key] as number | undefined) ?? ""}
+        onChange={(e) =>
+          onChange({ ...value, [key]: Number(e.target.value) || 0 })
+        }
+        className={inputClass}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-600 mb-1">
+            <Fuel className="w-4 h-4 mr-1" />
+            {t("fuel.type")}
+          </label>
+          <select
+            value={value.fuelType}
+            onChange={(e) =>
+              onChange({ ...value, fuelType: e.target.value as FuelType })
+            }
+            className={inputClass}
+          >
+            {(Object.keys(fuelTypeLabels) as FuelType[]).map((type) => (
+              <option key={type} value={type}>
+                {fuelTypeLabels[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("fuel.unit")}
+          </label>
+          <select
+            value={value.unit}
+            onChange={(e) =>
+              onChange({ ...value, unit: e.target.value as FuelUnit })
+            }
+            className={inputClass}
+          >
+            <option value="l">{t("fuel.unit.l")}</option>
+            <option value="gal">{t("fuel.unit.gal")}</option>
+            <option value="kg">{t("fuel.unit.kg")}</option>
+            <option value="lb">{t("fuel.unit.lb")}</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {numberField("climbFlow", t("fuel.climbFlow", { unit }))}
+        {numberField("cruiseFlow", t("fuel.cruiseFlow", { unit }))}
+        {numberField("descentFlow", t("fuel.descentFlow", { unit }))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {numberField("taxi", t("fuel.taxi", { unit }))}
+        {numberField("contingencyPercent", t("fuel.contingencyPercent"), {
+          max: 100,
+        })}
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("fuel.finalReserve")}
+          </label>
+          <select
+            value={value.finalReserveMinutes}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                finalReserveMinutes: Number(e.target.value),
+              })
+            }
+            className={inputClass}
+          >
+            <option value={30}>{t("units.min", { value: 30 })}</option>
+            <option value={45}>{t("units.min", { value: 45 })}</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("fuel.capacity")}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              value={value.usableCapacity ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  usableCapacity: Number(e.target.value) || undefined,
+                })
+              }
+              className={inputClass}
+            />
+            <select
+              value={value.capacityUnit ?? value.unit}
+              onChange={(e) =>
+                onChange({ ...value, capacityUnit: e.target.value as FuelUnit })
+              }
+              aria-label={t("fuel.capacityUnit")}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              {(Object.keys(fuelUnitLabels) as FuelUnit[]).map((u) => (
+                <option key={u} value={u}>
+                  {fuelUnitLabels[u]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("fuel.alternate")}
+          </label>
+          <AirportAutocomplete
+            value={alternateIcao}
+            label={t("fuel.alternate")}
+            onChange={onAlternateChange}
+            onSelect={onAlternateSelect}
+          />
+          {alternateError && (
+            <p className="mt-1 text-sm text-red-600">{alternateError}</p>
+          )}
+          {alternate && (
+            <p className="mt-1 text-sm text-green-600">{alternate.name}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default FuelPanel;
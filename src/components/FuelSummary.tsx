@@ -0,0 +1,108 @@
+import { FuelPlan, FuelUnit, fuelUnitLabels } from "../engine/fuel";
+import { MessageKey, useI18n } from "../i18n";
+
+interface FuelSummaryProps {
+  plan: FuelPlan;
+  unit: FuelUnit;
+  reserveMinutes: number;
+  contingencyPercent: number;
+  alternateIcao?: string;
+}
+
+function FuelSummary({
+  plan,
+  unit,
+  reserveMinutes,
+  contingencyPercent,
+  alternateIcao,
+}: FuelSummaryProps) {
+  const { t, formatNumber } = useI18n();
+  const format = (value: number) =>
+    `${formatNumber(value)} ${fuelUnitLabels[unit]}`;
+
+  const rows: [MessageKey, number][] = [
+    ["phase.climb", plan.climb],
+    ["phase.cruise", plan.cruise],
+    ["phase.descent", plan.descent],
+  ];
+
+  return (
+    <table className="w-full text-sm text-gray-600">
+      <tbody>
+        {rows.map(([label, value]) => (
+          <tr key={label} className="border-b border-gray-100">
+            <td className="py-1 pl-4 text-gray-500">{t(label)}</td>
+            <td className="py-1 text-right">{format(value)}</td>
+          </tr>
+        ))}
+        <tr className="border-b border-gray-200">
+          <td className="py-1 font-medium">{t("fuelSummary.trip")}</td>
+          <td className="py-1 text-right font-medium">{format(plan.trip)}</td>
+        </tr>
+        <tr className="border-b border-gray-100">
+          <td className="py-1">
+            {t("fuelSummary.contingency", { percent: contingencyPercent })}
+          </td>
+          <td className="py-1 text-right">{format(plan.contingency)}</td>
+        </tr>
+        <tr className="border-b border-gray-100">
+          <td className="py-1">
+            {t("fuelSummary.alternate")}
+            {alternateIcao && plan.alternateDistance !== undefined && (
+              <span className="text-gray-400">
+                {" "}
+                ({alternateIcao},{" "}
+                {t("units.nm", { value: plan.alternateDistance })})
+              </span>
+            )}
+          </td>
+          <td className="py-1 text-right">{format(plan.alternate)}</td>
+        </tr>
+        <tr className="border-b border-gray-100">
+          <td className="py-1">
+            {t("fuelSummary.finalReserve", { minutes: reserveMinutes })}
+          </td>
+          <td className="py-1 text-right">{format(plan.finalReserve)}</td>
+        </tr>
+        <tr className="border-b border-gray-200">
+          <td className="py-1 font-medium">{t("fuelSummary.minimum")}</td>
+          <td className="py-1 text-right font-medium">
+            {format(plan.minimum)}
+          </td>
+        </tr>
+        <tr className="border-b border-gray-100">
+          <td className="py-1">{t("fuelSummary.taxi")}</td>
+          <td className="py-1 text-right">{format(plan.taxi)}</td>
+        </tr>
+        <tr className="border-b border-gray-200">
+          <td className="py-1 font-semibold text-gray-800">
+            {t("fuelSummary.block")}
+          </td>
+          <td className="py-1 text-right font-semibold text-emerald-600">
+            {format(plan.block)}
+          </td>
+        </tr>
+        {plan.capacity !== undefined && plan.margin !== undefined && (
+          <>
+            <tr className="border-b border-gray-100">
+              <td className="py-1">{t("fuel.capacity")}</td>
+              <td className="py-1 text-right">{format(plan.capacity)}</td>
+            </tr>
+            <tr>
+              <td className="py-1">{t("fuelSummary.margin")}</td>
+              <td
+                className={`py-1 text-right font-medium ${
+                  plan.margin < 0 ? "text-red-600" : "text-emerald-600"
+                }`}
+              >
+                {format(plan.margin)}
+              </td>
+            </tr>
+          </>
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+export default FuelSummary;
@@ -0,0 +1,26 @@
+import { Languages } from "lucide-react";
+import { availableLocales, setLocale, useI18n } from "../i18n";
+
+function LanguageSelect() {
+  const { t, locale } = useI18n();
+
+  return (
+    <label className="flex items-center text-sm text-gray-600">
+      <Languages className="w-4 h-4 mr-1" aria-hidden />
+      <span className="sr-only">{t("app.language")}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+      >
+        {availableLocales.map(({ locale, label }) => (
+          <option key={locale} value={locale}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default LanguageSelect;
@@ -0,0 +1,80 @@
+import { LegResult } from "../engine/flightProfile";
+import { formatVariation } from "../engine/magnetic";
+import { SpeedUnit } from "../engine/types";
+import { convertSpeed } from "../engine/units";
+import { useI18n } from "../i18n";
+
+interface LegsTableProps {
+  legs: LegResult[];
+  showEte: boolean;
+  speedUnit: SpeedUnit;
+}
+
+const formatDirection = (degrees: number) =>
+  `${String(Math.round(degrees) % 360).padStart(3, "0")}°`;
+
+function LegsTable({ legs, showEte, speedUnit }: LegsTableProps) {
+  const { t, formatNumber } = useI18n();
+
+  if (legs.length === 0) return null;
+
+  return (
+    <table className="w-full mt-3 text-sm text-gray-600">
+      <thead>
+        <tr className="text-left text-gray-500 border-b border-gray-200">
+          <th className="py-1 font-medium">{t("legs.leg")}</th>
+          <th className="py-1 font-medium text-right">
+            {t("legs.trueCourse")}
+          </th>
+          <th className="py-1 font-medium text-right">
+            {t("legs.magneticCourse")}
+          </th>
+          <th className="py-1 font-medium text-right">{t("legs.heading")}</th>
+          <th className="py-1 font-medium text-right">GS</th>
+          <th className="py-1 font-medium text-right">
+            {t("common.distance")}
+          </th>
+          <th className="py-1 font-medium text-right">ETE</th>
+        </tr>
+      </thead>
+      <tbody>
+        {legs.map((leg, index) => (
+          <tr key={index} className="border-b border-gray-100 last:border-0">
+            <td className="py-1">
+              {leg.from} → {leg.to}
+            </td>
+            <td className="py-1 text-right">
+              {formatDirection(leg.trueCourse)}
+            </td>
+            <td
+              className="py-1 text-right"
+              title={t("legs.variation", {
+                variation: formatVariation(leg.variation, formatNumber),
+              })}
+            >
+              {formatDirection(leg.magneticCourse)}
+            </td>
+            <td className="py-1 text-right">
+              {isNaN(leg.heading) ? "—" : formatDirection(leg.heading)}
+            </td>
+            <td className="py-1 text-right">
+              {showEte && isFinite(leg.groundSpeed)
+                ? `${Math.round(convertSpeed(leg.groundSpeed, "kt", speedUnit))} ${speedUnit}`
+                : "—"}
+            </td>
+            <td className="py-1 text-right">
+              {t("units.nm", { value: leg.distance })}
+            </td>
+            <td className="py-1 text-right">
+              {showEte && isFinite(leg.ete)
+                ? t("units.min", { value: leg.ete })
+                : "—"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default LegsTable;
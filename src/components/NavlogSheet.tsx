@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { FileSpreadsheet, Printer } from "lucide-react";
+import { buildNavlog, navlogToCsv, NavlogInput } from "../engine/navlog";
+import { Airport } from "../engine/types";
+import { useI18n } from "../i18n";
+
+type NavlogSheetProps = Omit<NavlogInput, "offBlock" | "taxiMinutes">;
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const buttonClass =
+  "flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-emerald-50";
+
+const cellClass = "px-2 py-1 border border-gray-300";
+
+function NavlogSheet(props: NavlogSheetProps) {
+  const { result, departure, arrival, cruiseAltitude } = props;
+  const { t, formatNumber, formatClock } = useI18n();
+  const [offBlock, setOffBlock] = useState("");
+  const [taxiMinutes, setTaxiMinutes] = useState("");
+
+  const rows = buildNavlog({
+    ...props,
+    offBlock,
+    taxiMinutes: Number(taxiMinutes) || 0,
+  });
+  const showEta = rows.some((row) => row.eta !== undefined);
+
+  const handleCsv = () => {
+    // The BOM makes spreadsheet software read the accents as UTF-8
+    const csv = navlogToCsv(rows, {
+      header: [
+        t("navlog.csv.fix"),
+        t("navlog.csv.altitude"),
+        t("navlog.csv.position"),
+        t("navlog.csv.legDistance"),
+        t("navlog.csv.totalDistance"),
+        t("navlog.csv.legTime"),
+        t("navlog.csv.elapsed"),
+        "ETA",
+        "ATA",
+        t("navlog.csv.fuel"),
+      ],
+      formatClock,
+      decimalSeparator: formatNumber(1.5).includes(",") ? "," : ".",
+    });
+    const blob = new Blob(["\uFEFF", csv], {
+      type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `navlog-${departure?.icao ?? "dep"}-${arrival?.icao ?? "arr"}.csv`;
+    link.click();
+    // Revoked later, so the browser has started the download by then
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  const airportLine = (label: string, airport?: Airport) =>
+    airport ? (
+      <p>
+        <span className="font-medium">{label}:</span> {airport.icao}
+        {airport.name && ` — ${airport.name}`} ·{" "}
+        {t("navlog.elevation", { elevation: airport.elevation })}
+      </p>
+    ) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4 print:hidden">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("navlog.offBlock")}
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="14:30"
+            value={offBlock}
+            onChange={(e) => setOffBlock(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("navlog.taxi")}
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={taxiMinutes}
+            onChange={(e) => setTaxiMinutes(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <button onClick={() => window.print()} className={buttonClass}>
+          <Printer className="w-4 h-4 mr-1" />
+          {t("navlog.print")}
+        </button>
+        <button onClick={handleCsv} className={buttonClass}>
+          <FileSpreadsheet className="w-4 h-4 mr-1" />
+          {t("navlog.exportCsv")}
+        </button>
+      </div>
+
+      <div className="text-sm text-gray-700 space-y-1">
+        {airportLine(t("navlog.departure"), departure)}
+        {airportLine(t("navlog.arrival"), arrival)}
+        <p>
+          <span className="font-medium">{t("navlog.cruiseAltitude")}</span>{" "}
+          {t("units.ft", { value: cruiseAltitude })} ·{" "}
+          <span className="font-medium">TOC:</span>{" "}
+          {t("units.nm", { value: result.tocDistance })} ·{" "}
+          <span className="font-medium">TOD:</span>{" "}
+          {t("navlog.todBeforeArrival", { distance: result.todDistance })}
+        </p>
+        <p>
+          <span className="font-medium">{t("navlog.times")}</span>{" "}
+          {t("navlog.timeBreakdown", {
+            climb: result.climbTime,
+            cruise: result.cruiseTime,
+            descent: result.descentTime,
+            total: result.totalTime,
+          })}
+        </p>
+      </div>
+
+      <table className="w-full text-sm text-gray-700 border-collapse">
+        <thead>
+          <tr className="bg-neutral-50 text-left">
+            <th className={cellClass}>{t("navlog.fix")}</th>
+            <th className={`${cellClass} text-right`}>
+              {t("navlog.altitude")}
+            </th>
+            <th className={cellClass}>{t("navlog.position")}</th>
+            <th className={`${cellClass} text-right`}>
+              {t("navlog.distance")}
+            </th>
+            <th className={`${cellClass} text-right`}>
+              {t("navlog.cumulative")}
+            </th>
+            <th className={`${cellClass} text-right`}>ETE</th>
+            <th className={`${cellClass} text-right`}>
+              {t("navlog.cumulative")}
+            </th>
+            {showEta && <th className={`${cellClass} text-right`}>ETA</th>}
+            <th className={`${cellClass} w-16`}>ATA</th>
+            <th className={`${cellClass} w-20`}>{t("navlog.fuel")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr
+              key={`${row.kind}-${row.ident}-${index}`}
+              className={
+                row.kind === "toc" || row.kind === "tod" ? "bg-emerald-50" : ""
+              }
+            >
+              <td className={`${cellClass} font-medium`}>{row.ident}</td>
+              <td className={`${cellClass} text-right`}>
+                {formatNumber(row.altitude)}
+              </td>
+              <td className={`${cellClass} whitespace-nowrap`}>
+                {row.position ?? "—"}
+              </td>
+              <td className={`${cellClass} text-right`}>
+                {formatNumber(row.legDistance)}
+              </td>
+              <td className={`${cellClass} text-right`}>
+                {formatNumber(row.cumulativeDistance)}
+              </td>
+              <td className={`${cellClass} text-right`}>{row.legTime}</td>
+              <td className={`${cellClass} text-right`}>{row.elapsed}</td>
+              {showEta && (
+                <td className={`${cellClass} text-right`}>
+                  {row.eta !== undefined && formatClock(row.eta)}
+                </td>
+              )}
+              <td className={cellClass} />
+              <td className={cellClass} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500">{t("navlog.note")}</p>
+    </div>
+  );
+}
+
+export default NavlogSheet;
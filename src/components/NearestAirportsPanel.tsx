@@ -0,0 +1,247 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { LocateFixed } from "lucide-react";
+import { timeToReach } from "../engine/diversion";
+import { RoutePosition, buildLegs, locateAlongRoute } from "../engine/route";
+import { Coordinates, Waypoint } from "../engine/types";
+import { useI18n } from "../i18n";
+import {
+  findNearestAirports,
+  getAirportSnapshot,
+  NearbyAirport,
+  subscribeAirports,
+} from "../services/airport";
+
+interface NearestAirportsPanelProps {
+  path: Waypoint[]; // departure, route fixes and arrival
+  toc?: RoutePosition;
+  tod?: RoutePosition;
+  groundSpeed: number; // kt, used until a speed is entered
+}
+
+type PointSource = "toc" | "tod" | "route" | "manual";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const optionalNumber = (value: string) =>
+  value === "" || !isFinite(Number(value)) ? undefined : Number(value);
+
+function NearestAirportsPanel({
+  path,
+  toc,
+  tod,
+  groundSpeed,
+}: NearestAirportsPanelProps) {
+  const { t } = useI18n();
+  const [source, setSource] = useState<PointSource>("toc");
+  const [alongRoute, setAlongRoute] = useState("");
+  const [lat, setLat] = useState("");
+  const [lon, setLon] = useState("");
+  const [count, setCount] = useState(5);
+  const [speed, setSpeed] = useState("");
+  const [nearest, setNearest] = useState<NearbyAirport[]>([]);
+  const [failed, setFailed] = useState(false);
+  const { revision } = useSyncExternalStore(
+    subscribeAirports,
+    getAirportSnapshot
+  );
+
+  let point: Coordinates | undefined;
+  if (source === "toc") point = toc?.coordinates;
+  else if (source === "tod") point = tod?.coordinates;
+  else if (source === "route") {
+    const distance = optionalNumber(alongRoute);
+    if (distance !== undefined) {
+      point = locateAlongRoute(buildLegs(path), distance)?.coordinates;
+    }
+  } else {
+    const latitude = optionalNumber(lat);
+    const longitude = optionalNumber(lon);
+    if (
+      latitude !== undefined &&
+      longitude !== undefined &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180
+    ) {
+      point = { lat: latitude, lon: longitude };
+    }
+  }
+
+  const pointLat = point?.lat;
+  const pointLon = point?.lon;
+  useEffect(() => {
+    if (pointLat === undefined || pointLon === undefined) return;
+    let current = true;
+    findNearestAirports([{ lat: pointLat, lon: pointLon }], count)
+      .then(([airports]) => {
+        if (!current) return;
+        setNearest(airports);
+        setFailed(false);
+      })
+      .catch(() => {
+        if (current) setFailed(true);
+      });
+    return () => {
+      current = false;
+    };
+  }, [pointLat, pointLon, count, revision]);
+
+  const speedKt = optionalNumber(speed) ?? groundSpeed;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-600 mb-1">
+            <LocateFixed className="w-4 h-4 mr-1" />
+            {t("nearest.point")}
+          </label>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as PointSource)}
+            className={inputClass}
+          >
+            <option value="toc">TOC</option>
+            <option value="tod">TOD</option>
+            <option value="route">{t("nearest.alongRoute")}</option>
+            <option value="manual">{t("nearest.coordinates")}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("nearest.count")}
+          </label>
+          <select
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className={inputClass}
+          >
+            {[3, 5, 10].map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("performance.speed", { unit: "kt" })}
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={speed}
+            placeholder={groundSpeed > 0 ? String(Math.round(groundSpeed)) : ""}
+            onChange={(e) => setSpeed(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {source === "route" && (
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            {t("nearest.distanceFromDeparture")}
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={alongRoute}
+            onChange={(e) => setAlongRoute(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      )}
+      {source === "manual" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Latitude (°)
+            </label>
+            <input
+              type="number"
+              step="any"
+              placeholder="-23.43"
+              value={lat}
+              onChange={(e) => setLat(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Longitude (°)
+            </label>
+            <input
+              type="number"
+              step="any"
+              placeholder="-46.47"
+              value={lon}
+              onChange={(e) => setLon(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {failed ? (
+        <p className="text-sm text-red-600">{t("airportDb.queryFailed")}</p>
+      ) : !point ? (
+        <p className="text-sm text-gray-500">{t("nearest.empty")}</p>
+      ) : (
+        <table className="w-full text-sm text-gray-600">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 font-medium">{t("nearest.airport")}</th>
+              <th className="py-1 font-medium text-right">
+                {t("common.distance")}
+              </th>
+              <th className="py-1 font-medium text-right">
+                {t("nearest.bearing")}
+              </th>
+              <th className="py-1 font-medium text-right">
+                {t("common.elevation")}
+              </th>
+              <th className="py-1 font-medium text-right">
+                {t("common.time")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {nearest.map(({ airport, distance, bearing }) => {
+              const minutes = timeToReach(distance, speedKt);
+              return (
+                <tr
+                  key={airport.icao}
+                  className="border-b border-gray-100 last:border-0"
+                >
+                  <td className="py-1">
+                    <span className="font-medium text-gray-800">
+                      {airport.icao}
+                    </span>{" "}
+                    <span className="text-gray-500">{airport.name}</span>
+                  </td>
+                  <td className="py-1 text-right">
+                    {t("units.nm", { value: distance })}
+                  </td>
+                  <td className="py-1 text-right">
+                    {String(Math.round(bearing) % 360).padStart(3, "0")}°
+                  </td>
+                  <td className="py-1 text-right">
+                    {t("units.ft", { value: airport.elevation })}
+                  </td>
+                  <td className="py-1 text-right">
+                    {isFinite(minutes)
+                      ? t("units.min", { value: Math.round(minutes) })
+                      : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default NearestAirportsPanel;
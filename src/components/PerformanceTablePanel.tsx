@@ -0,0 +1,149 @@
+import { Plus, Trash2 } from "lucide-react";
+import { PerformanceBand } from "../engine/performance";
+import { RateUnit, SpeedMode, SpeedUnit } from "../engine/types";
+import { useI18n } from "../i18n";
+
+interface PerformanceTablePanelProps {
+  label: string;
+  value?: PerformanceBand[];
+  speedUnit: SpeedUnit;
+  rateUnit: RateUnit;
+  fallback: { speed: number; rate: number };
+  onChange: (value: PerformanceBand[] | undefined) => void;
+}
+
+const inputClass =
+  "w-full px-2 py-1 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const defaultEdges = [0, 10000, 24000, 45000];
+
+function PerformanceTablePanel({
+  label,
+  value,
+  speedUnit,
+  rateUnit,
+  fallback,
+  onChange,
+}: PerformanceTablePanelProps) {
+  const { t } = useI18n();
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(undefined);
+      return;
+    }
+    onChange(
+      defaultEdges.slice(1).map((ceiling, index) => ({
+        floor: defaultEdges[index],
+        ceiling,
+        ...fallback,
+      }))
+    );
+  };
+
+  const updateBand = (index: number, band: PerformanceBand) => {
+    if (!value) return;
+    onChange(value.map((b, i) => (i === index ? band : b)));
+  };
+
+  const numberField = (
+    index: number,
+    band: PerformanceBand,
+    field: "floor" | "ceiling" | "speed" | "rate",
+    ariaLabel: string
+  ) => (
+    <input
+      type="number"
+      aria-label={ariaLabel}
+      value={band[field]}
+      onChange={(e) =>
+        updateBand(index, { ...band, [field]: Number(e.target.value) || 0 })
+      }
+      className={inputClass}
+    />
+  );
+
+  const addBand = () => {
+    if (!value) return;
+    const last = value[value.length - 1];
+    const floor = last ? last.ceiling : 0;
+    onChange([...value, { floor, ceiling: floor + 10000, ...fallback }]);
+  };
+
+  return (
+    <div>
+      <label className="flex items-center text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="mr-2 accent-emerald-600"
+        />
+        {t("performance.byBand", { label })}
+      </label>
+
+      {value && (
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-6 gap-2 text-xs text-gray-500">
+            <span>{t("performance.from")}</span>
+            <span>{t("performance.to")}</span>
+            <span>{t("performance.speedShort")}</span>
+            <span>{t("performance.mode")}</span>
+            <span>{t("performance.rate", { unit: rateUnit })}</span>
+          </div>
+          {value.map((band, index) => (
+            <div key={index} className="grid grid-cols-6 gap-2 items-center">
+              {numberField(index, band, "floor", t("performance.floor"))}
+              {numberField(index, band, "ceiling", t("performance.ceiling"))}
+              {numberField(
+                index,
+                band,
+                "speed",
+                t("performance.speed", { unit: speedUnit })
+              )}
+              <select
+                aria-label={t("speedMode.label")}
+                value={band.mode ?? ""}
+                onChange={(e) =>
+                  updateBand(index, {
+                    ...band,
+                    mode: (e.target.value || undefined) as
+                      SpeedMode | undefined,
+                  })
+                }
+                className={inputClass}
+              >
+                <option value="">{t("performance.phaseMode")}</option>
+                <option value="tas">TAS</option>
+                <option value="ias">IAS</option>
+                <option value="mach">Mach</option>
+              </select>
+              {numberField(
+                index,
+                band,
+                "rate",
+                t("performance.rate", { unit: rateUnit })
+              )}
+              <button
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                aria-label={t("performance.remove")}
+                className="justify-self-start p-1 text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addBand}
+            className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t("performance.add")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PerformanceTablePanel;
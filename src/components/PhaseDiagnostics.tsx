@@ -0,0 +1,38 @@
+import { AlertCircle, AlertTriangle, Info } from "lucide-react";
+import { Diagnostic } from "../engine/validation";
+import { diagnosticMessage, useI18n } from "../i18n";
+
+interface PhaseDiagnosticsProps {
+  diagnostics: Diagnostic[];
+}
+
+const styles = {
+  error: { className: "text-red-600", Icon: AlertCircle },
+  warning: { className: "text-amber-600", Icon: AlertTriangle },
+  info: { className: "text-gray-500", Icon: Info },
+};
+
+function PhaseDiagnostics({ diagnostics }: PhaseDiagnosticsProps) {
+  const i18n = useI18n();
+
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {diagnostics.map((diagnostic, index) => {
+        const { className, Icon } = styles[diagnostic.severity];
+        return (
+          <li
+            key={`${diagnostic.code}-${index}`}
+            className={`text-sm flex items-start ${className}`}
+          >
+            <Icon className="w-4 h-4 mr-1 mt-0.5 shrink-0" />
+            {diagnosticMessage(diagnostic, i18n)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default PhaseDiagnostics;
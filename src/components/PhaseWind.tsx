@@ -0,0 +1,47 @@
+import { SpeedUnit } from "../engine/types";
+import { convertSpeed } from "../engine/units";
+import { WindSolution } from "../engine/wind";
+import { useI18n } from "../i18n";
+
+interface PhaseWindProps {
+  solution?: WindSolution;
+  speedUnit: SpeedUnit;
+}
+
+const formatSigned = (value: number) =>
+  `${value >= 0 ? "+" : ""}${Math.round(value)}`;
+
+function PhaseWind({ solution, speedUnit }: PhaseWindProps) {
+  const { t } = useI18n();
+
+  if (!solution || isNaN(solution.groundSpeed)) return null;
+
+  const toUnit = (kt: number) => Math.round(convertSpeed(kt, "kt", speedUnit));
+  const headwind = toUnit(Math.abs(solution.headwind));
+
+  return (
+    <div className="mt-2 text-sm text-gray-500">
+      <p>
+        {t("wind.groundSpeed")}{" "}
+        <span className="font-medium">
+          {toUnit(solution.groundSpeed)} {speedUnit}
+        </span>{" "}
+        (
+        {t(solution.headwind >= 0 ? "wind.headwind" : "wind.tailwind", {
+          value: headwind,
+        })}
+        , {t("wind.crosswind", { value: toUnit(Math.abs(solution.crosswind)) })}
+        )
+      </p>
+      <p>
+        {t("wind.correction")}{" "}
+        <span className="font-medium">
+          {formatSigned(solution.windCorrectionAngle)}°
+        </span>{" "}
+        ({t("wind.trueHeading", { heading: Math.round(solution.heading) })})
+      </p>
+    </div>
+  );
+}
+
+export default PhaseWind;
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Check, Copy } from "lucide-react";
+import {
+  formatDecimal,
+  formatDegreesMinutes,
+  formatFmsCoordinates,
+} from "../engine/coordinateFormat";
+import { RoutePosition } from "../engine/route";
+import { useI18n } from "../i18n";
+
+interface PositionDetailsProps {
+  label: string;
+  position?: RoutePosition;
+  available: boolean;
+}
+
+function PositionDetails({ label, position, available }: PositionDetailsProps) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  if (!position) return null;
+
+  if (!available) {
+    return (
+      <p className="text-gray-600">
+        {t("position.label", { label })}{" "}
+        <span className="font-semibold text-emerald-600">—</span>
+      </p>
+    );
+  }
+
+  const fms = formatFmsCoordinates(position.coordinates);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(fms);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="text-gray-600">
+      <p>
+        {t("position.label", { label })}{" "}
+        <span className="font-semibold text-emerald-600">
+          {t("position.afterFix", {
+            distance: position.distanceFromFix,
+            fix: position.fix,
+          })}
+        </span>
+      </p>
+      <p className="text-sm">
+        {formatDegreesMinutes(position.coordinates)}{" "}
+        <span className="text-gray-400">
+          ({formatDecimal(position.coordinates)})
+        </span>
+      </p>
+      <p className="text-sm flex items-center gap-1">
+        FMS: <span className="font-mono">{fms}</span>
+        <button
+          onClick={handleCopy}
+          aria-label={t("position.copy", { label })}
+          className="p-1 text-gray-400 hover:text-emerald-600"
+        >
+          {copied ? (
+            <Check className="w-4 h-4" />
+          ) : (
+            <Copy className="w-4 h-4" />
+          )}
+        </button>
+      </p>
+    </div>
+  );
+}
+
+export default PositionDetails;
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { ProfilePoint } from "../engine/flightProfile";
+import { Airport } from "../engine/types";
+import { useI18n } from "../i18n";
+
+interface ProfileChartProps {
+  profile: ProfilePoint[];
+  departure?: Airport;
+  arrival?: Airport;
+}
+
+const WIDTH = 600;
+const HEIGHT = 260;
+const MARGIN = { top: 20, right: 20, bottom: 36, left: 56 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+/** Step of roughly `count` round-numbered ticks covering 0..max. */
+const niceStep = (max: number, count: number) => {
+  const raw = max / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  const nice =
+    normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+const ticks = (max: number, step: number) =>
+  Array.from({ length: Math.floor(max / step) + 1 }, (_, i) => i * step);
+
+/** Profile point at a given distance, linearly interpolated. */
+const pointAt = (profile: ProfilePoint[], distance: number): ProfilePoint => {
+  const index = profile.findIndex((point) => point.distance >= distance);
+  if (index <= 0) return profile[Math.max(index, 0)];
+  const before = profile[index - 1];
+  const after = profile[index];
+  const span = after.distance - before.distance;
+  const t = span > 0 ? (distance - before.distance) / span : 0;
+  return {
+    distance,
+    altitude: before.altitude + (after.altitude - before.altitude) * t,
+    time: before.time + (after.time - before.time) * t,
+  };
+};
+
+function ProfileChart({ profile, departure, arrival }: ProfileChartProps) {
+  const { t, formatNumber } = useI18n();
+  const [hover, setHover] = useState<ProfilePoint | null>(null);
+
+  const valid =
+    profile.length > 1 &&
+    profile.every((p) => isFinite(p.distance) && isFinite(p.altitude));
+  if (!valid) return null;
+
+  const totalDistance = profile[profile.length - 1].distance;
+  const cruiseAltitude = Math.max(...profile.map((p) => p.altitude));
+  const distanceStep = niceStep(totalDistance, 5);
+  const altitudeStep = niceStep(cruiseAltitude * 1.1, 4);
+  const maxDistance = Math.max(totalDistance, distanceStep);
+  const maxAltitude =
+    Math.ceil((cruiseAltitude * 1.1) / altitudeStep) * altitudeStep;
+
+  const x = (distance: number) =>
+    MARGIN.left + (distance / maxDistance) * PLOT_WIDTH;
+  const y = (altitude: number) =>
+    MARGIN.top + PLOT_HEIGHT - (altitude / maxAltitude) * PLOT_HEIGHT;
+
+  const toc = profile.find((p) => p.altitude === cruiseAltitude);
+  const tod = [...profile].reverse().find((p) => p.altitude === cruiseAltitude);
+  const path = profile
+    .map((p) => `${x(p.distance)},${y(p.altitude)}`)
+    .join(" ");
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const rect = e.currentTarget.ownerSVGElement?.getBoundingClientRect();
+    if (!rect) return;
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const distance = ((svgX - MARGIN.left) / PLOT_WIDTH) * maxDistance;
+    setHover(pointAt(profile, Math.min(Math.max(distance, 0), totalDistance)));
+  };
+
+  const markers = [
+    { point: toc, label: "TOC" },
+    { point: tod, label: "TOD" },
+  ];
+
+  const fields = [
+    { field: departure, distance: 0, anchor: "start" as const },
+    { field: arrival, distance: totalDistance, anchor: "end" as const },
+  ];
+
+  const tooltipX = hover ? Math.min(x(hover.distance) + 8, WIDTH - 130) : 0;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto select-none"
+      role="img"
+      aria-label={t("chart.label")}
+    >
+      {ticks(maxAltitude, altitudeStep).map((altitude) => (
+        <g key={`y-${altitude}`}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(altitude)}
+            y2={y(altitude)}
+            className="stroke-gray-200"
+          />
+          <text
+            x={MARGIN.left - 6}
+            y={y(altitude)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-gray-500 text-[10px]"
+          >
+            {formatNumber(altitude)}
+          </text>
+        </g>
+      ))}
+      {ticks(maxDistance, distanceStep).map((distance) => (
+        <text
+          key={`x-${distance}`}
+          x={x(distance)}
+          y={HEIGHT - MARGIN.bottom + 16}
+          textAnchor="middle"
+          className="fill-gray-500 text-[10px]"
+        >
+          {distance}
+        </text>
+      ))}
+      <text
+        x={MARGIN.left + PLOT_WIDTH / 2}
+        y={HEIGHT - 4}
+        textAnchor="middle"
+        className="fill-gray-500 text-[10px]"
+      >
+        {t("chart.distance")}
+      </text>
+      <text
+        x={12}
+        y={MARGIN.top + PLOT_HEIGHT / 2}
+        textAnchor="middle"
+        transform={`rotate(-90 12 ${MARGIN.top + PLOT_HEIGHT / 2})`}
+        className="fill-gray-500 text-[10px]"
+      >
+        {t("chart.altitude")}
+      </text>
+
+      {fields.map(
+        ({ field, distance, anchor }) =>
+          field && (
+            <g key={field.icao}>
+              <rect
+                x={anchor === "start" ? x(distance) : x(distance) - 24}
+                y={y(field.elevation)}
+                width={24}
+                height={y(0) - y(field.elevation)}
+                className="fill-amber-200"
+              />
+              <text
+                x={x(distance)}
+                y={y(field.elevation) - 6}
+                textAnchor={anchor}
+                className="fill-gray-700 text-[10px] font-medium"
+              >
+                {field.icao} ({field.elevation} ft)
+              </text>
+            </g>
+          )
+      )}
+
+      <polyline
+        points={path}
+        fill="none"
+        className="stroke-emerald-600"
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+
+      {markers.map(
+        ({ point, label }) =>
+          point && (
+            <g key={label}>
+              <circle
+                cx={x(point.distance)}
+                cy={y(point.altitude)}
+                r={4}
+                className="fill-white stroke-emerald-700"
+                strokeWidth={2}
+              />
+              <text
+                x={x(point.distance)}
+                y={y(point.altitude) - 8}
+                textAnchor="middle"
+                className="fill-emerald-700 text-[10px] font-semibold"
+              >
+                {label}
+              </text>
+            </g>
+          )
+      )}
+
+      {hover && (
+        <g pointerEvents="none">
+          <line
+            x1={x(hover.distance)}
+            x2={x(hover.distance)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + PLOT_HEIGHT}
+            className="stroke-gray-400"
+            strokeDasharray="3 3"
+          />
+          <circle
+            cx={x(hover.distance)}
+            cy={y(hover.altitude)}
+            r={3}
+            className="fill-emerald-700"
+          />
+          <rect
+            x={tooltipX}
+            y={MARGIN.top}
+            width={122}
+            height={48}
+            rx={4}
+            className="fill-white stroke-gray-300"
+          />
+          <text
+            x={tooltipX + 8}
+            y={MARGIN.top + 14}
+            className="fill-gray-700 text-[10px]"
+          >
+            {t("units.nm", { value: hover.distance })}
+          </text>
+          <text
+            x={tooltipX + 8}
+            y={MARGIN.top + 28}
+            className="fill-gray-700 text-[10px]"
+          >
+            {t("units.ft", { value: Math.round(hover.altitude) })}
+          </text>
+          <text
+            x={tooltipX + 8}
+            y={MARGIN.top + 42}
+            className="fill-gray-700 text-[10px]"
+          >
+            {t("units.min", { value: Math.round(hover.time) })}
+          </text>
+        </g>
+      )}
+
+      <rect
+        x={MARGIN.left}
+        y={MARGIN.top}
+        width={PLOT_WIDTH}
+        height={PLOT_HEIGHT}
+        fill="transparent"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHover(null)}
+      />
+    </svg>
+  );
+}
+
+export default ProfileChart;
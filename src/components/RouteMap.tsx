@@ -0,0 +1,293 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { MapPin, PlaneLanding, PlaneTakeoff } from "lucide-react";
+import { brazilOutline } from "../data/brazil-outline";
+import { BrazilianAirport } from "../data/brazilian-airports";
+import { intermediatePoint } from "../engine/geo";
+import { RoutePosition } from "../engine/route";
+import { Airport, Coordinates, Waypoint } from "../engine/types";
+import { useI18n } from "../i18n";
+import {
+  Bounds,
+  getAirportSnapshot,
+  getAirportsInBounds,
+  subscribeAirports,
+} from "../services/airport";
+
+interface RouteMapProps {
+  departure?: Airport;
+  arrival?: Airport;
+  route: Waypoint[];
+  toc?: RoutePosition;
+  tod?: RoutePosition;
+  onSelectAirport: (icao: string, type: "departure" | "arrival") => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 420;
+const BRAZIL_BOUNDS: Bounds = { north: 5.5, south: -34, east: -34, west: -74 };
+const SAMPLES_PER_LEG = 24;
+
+const boundsAround = (points: Coordinates[]): Bounds => {
+  const lats = points.map((p) => p.lat);
+  const lons = points.map((p) => p.lon);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const east = Math.max(...lons);
+  const west = Math.min(...lons);
+  const padding = Math.max(1, (north - south) * 0.25, (east - west) * 0.25);
+  return {
+    north: north + padding,
+    south: south - padding,
+    east: east + padding,
+    west: west - padding,
+  };
+};
+
+/**
+ * Equirectangular projection scaled by the cosine of the mid latitude and
+ * fitted into the view box, keeping the aspect ratio.
+ */
+const projection = (bounds: Bounds) => {
+  const midLat = ((bounds.north + bounds.south) / 2) * (Math.PI / 180);
+  const spanX = (bounds.east - bounds.west) * Math.cos(midLat);
+  const spanY = bounds.north - bounds.south;
+  const scale = Math.min(WIDTH / spanX, HEIGHT / spanY);
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (HEIGHT - spanY * scale) / 2;
+  return (point: Coordinates) => ({
+    x: offsetX + (point.lon - bounds.west) * Math.cos(midLat) * scale,
+    y: offsetY + (bounds.north - point.lat) * scale,
+  });
+};
+
+function RouteMap({
+  departure,
+  arrival,
+  route,
+  toc,
+  tod,
+  onSelectAirport,
+}: RouteMapProps) {
+  const { t } = useI18n();
+  const [selected, setSelected] = useState<BrazilianAirport | null>(null);
+  const [nearby, setNearby] = useState<BrazilianAirport[]>([]);
+  const container = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(
+    () => typeof IntersectionObserver === "undefined"
+  );
+  const { revision } = useSyncExternalStore(
+    subscribeAirports,
+    getAirportSnapshot
+  );
+
+  const path: Waypoint[] = [];
+  if (departure?.coordinates && arrival?.coordinates) {
+    path.push(
+      { ident: departure.icao, coordinates: departure.coordinates },
+      ...route,
+      { ident: arrival.icao, coordinates: arrival.coordinates }
+    );
+  } else {
+    [departure, arrival].forEach((airport) => {
+      if (airport?.coordinates) {
+        path.push({ ident: airport.icao, coordinates: airport.coordinates });
+      }
+    });
+  }
+
+  const bounds =
+    path.length > 0
+      ? boundsAround(path.map((p) => p.coordinates))
+      : BRAZIL_BOUNDS;
+  const project = projection(bounds);
+  const { north, south, east, west } = bounds;
+
+  // The map sits at the bottom of the page: its airports, and with them the
+  // airport database, load once it is scrolled into view
+  useEffect(() => {
+    const element = container.current;
+    if (visible || !element) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) setVisible(true);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let current = true;
+    getAirportsInBounds({ north, south, east, west })
+      .then((airports) => {
+        if (current) setNearby(airports);
+      })
+      .catch(() => {
+        if (current) setNearby([]);
+      });
+    return () => {
+      current = false;
+    };
+  }, [north, south, east, west, revision, visible]);
+
+  const outline = brazilOutline
+    .map(([lon, lat]) => {
+      const { x, y } = project({ lat, lon });
+      return `${x},${y}`;
+    })
+    .join(" ");
+
+  // Each leg drawn as a sampled great circle
+  const track: Coordinates[] = [];
+  for (let i = 1; i < path.length; i++) {
+    for (let step = 0; step <= SAMPLES_PER_LEG; step++) {
+      track.push(
+        intermediatePoint(
+          path[i - 1].coordinates,
+          path[i].coordinates,
+          step / SAMPLES_PER_LEG
+        )
+      );
+    }
+  }
+  const trackPoints = track
+    .map((point) => {
+      const { x, y } = project(point);
+      return `${x},${y}`;
+    })
+    .join(" ");
+
+  const markers = [
+    { position: toc, label: "TOC" },
+    { position: tod, label: "TOD" },
+  ];
+
+  const handleSelect = (type: "departure" | "arrival") => {
+    if (!selected) return;
+    onSelectAirport(selected.icao, type);
+    setSelected(null);
+  };
+
+  return (
+    <div ref={container}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto rounded-md bg-sky-50"
+        role="img"
+        aria-label={t("map.label")}
+      >
+        <polygon
+          points={outline}
+          className="fill-emerald-50 stroke-emerald-300"
+          strokeWidth={1}
+        />
+
+        {nearby.map((airport) => {
+          const { x, y } = project({ lat: airport.lat, lon: airport.lon });
+          const isSelected = selected?.icao === airport.icao;
+          return (
+            <circle
+              key={airport.icao}
+              cx={x}
+              cy={y}
+              r={isSelected ? 5 : airport.icao.startsWith("SB") ? 3 : 2}
+              className={
+                isSelected
+                  ? "fill-amber-500 cursor-pointer"
+                  : "fill-gray-400 hover:fill-amber-500 cursor-pointer"
+              }
+              onClick={() => setSelected(airport)}
+            >
+              <title>{`${airport.icao} – ${airport.name}`}</title>
+            </circle>
+          );
+        })}
+
+        {track.length > 0 && (
+          <polyline
+            points={trackPoints}
+            fill="none"
+            className="stroke-emerald-600"
+            strokeWidth={2}
+          />
+        )}
+
+        {path.map((waypoint, index) => {
+          const { x, y } = project(waypoint.coordinates);
+          return (
+            <g key={`${waypoint.ident}-${index}`} pointerEvents="none">
+              <circle
+                cx={x}
+                cy={y}
+                r={5}
+                className="fill-white stroke-emerald-700"
+                strokeWidth={2}
+              />
+              <text
+                x={x + 8}
+                y={y - 6}
+                className="fill-gray-800 text-[11px] font-semibold"
+              >
+                {waypoint.ident}
+              </text>
+            </g>
+          );
+        })}
+
+        {markers.map(({ position, label }) => {
+          if (!position) return null;
+          const { x, y } = project(position.coordinates);
+          return (
+            <g key={label} pointerEvents="none">
+              <rect
+                x={x - 4}
+                y={y - 4}
+                width={8}
+                height={8}
+                className="fill-emerald-700"
+                transform={`rotate(45 ${x} ${y})`}
+              />
+              <text
+                x={x + 8}
+                y={y + 12}
+                className="fill-emerald-800 text-[10px] font-semibold"
+              >
+                {label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {selected && (
+        <div className="mt-2 p-3 bg-neutral-50 rounded-md text-sm">
+          <p className="font-medium text-gray-800">
+            {selected.icao} – {selected.name}
+          </p>
+          <p className="flex items-center text-gray-600">
+            <MapPin className="w-4 h-4 mr-1" />
+            {selected.city}, {selected.state} ·{" "}
+            {t("units.ft", { value: selected.elevation })}
+          </p>
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={() => handleSelect("departure")}
+              className="flex items-center px-3 py-1 bg-emerald-500 text-white rounded-md hover:bg-emerald-600"
+            >
+              <PlaneTakeoff className="w-4 h-4 mr-1" />
+              {t("map.setDeparture")}
+            </button>
+            <button
+              onClick={() => handleSelect("arrival")}
+              className="flex items-center px-3 py-1 bg-emerald-500 text-white rounded-md hover:bg-emerald-600"
+            >
+              <PlaneLanding className="w-4 h-4 mr-1" />
+              {t("map.setArrival")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RouteMap;
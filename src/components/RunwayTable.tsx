@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { magneticVariation } from "../engine/magnetic";
+import { checkRunwayDistance, runwayEnds, runwayWind } from "../engine/runway";
+import { Airport } from "../engine/types";
+import { useI18n } from "../i18n";
+
+interface RunwayTableProps {
+  airport: Airport;
+  operation: "takeoff" | "landing";
+  requiredDistance?: number; // meters, from the aircraft profile
+}
+
+const inputClass =
+  "w-16 px-2 py-1 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const optionalNumber = (value: string) =>
+  value === "" || !isFinite(Number(value)) ? undefined : Number(value);
+
+function RunwayTable({
+  airport,
+  operation,
+  requiredDistance,
+}: RunwayTableProps) {
+  const { t } = useI18n();
+  const [direction, setDirection] = useState("");
+  const [speed, setSpeed] = useState("");
+
+  const runways = airport.runways ?? [];
+  if (runways.length === 0) {
+    return <p className="text-gray-500">{t("runways.none")}</p>;
+  }
+
+  const windDirection = optionalNumber(direction);
+  const windSpeed = optionalNumber(speed);
+  const wind =
+    windDirection !== undefined && windSpeed !== undefined
+      ? { direction: windDirection, speed: windSpeed }
+      : undefined;
+  const variation = airport.coordinates
+    ? magneticVariation(airport.coordinates)
+    : 0;
+
+  return (
+    <div className="mt-2 text-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{t("runways.title")}</span>
+        <label className="flex items-center gap-1 text-gray-600">
+          {t("runways.wind")}
+          <input
+            type="number"
+            min={0}
+            max={360}
+            value={direction}
+            onChange={(e) => setDirection(e.target.value)}
+            placeholder="°"
+            aria-label={t("runways.windDirection")}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            value={speed}
+            onChange={(e) => setSpeed(e.target.value)}
+            placeholder="kt"
+            aria-label={t("runways.windSpeed")}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <p className="mt-1 text-gray-500">
+        {requiredDistance
+          ? t(`runways.required.${operation}`, { distance: requiredDistance })
+          : t(`runways.noDistance.${operation}`)}
+      </p>
+      <table className="mt-1 w-full text-left">
+        <thead className="text-gray-500">
+          <tr>
+            <th className="pr-2 font-medium">{t("runways.runway")}</th>
+            <th className="pr-2 font-medium">{t("runways.size")}</th>
+            <th className="pr-2 font-medium">{t("runways.surface")}</th>
+            {wind && (
+              <>
+                <th className="pr-2 font-medium">{t("runways.headwind")}</th>
+                <th className="pr-2 font-medium">{t("runways.crosswind")}</th>
+              </>
+            )}
+            {requiredDistance ? (
+              <th className="font-medium">{t("runways.margin")}</th>
+            ) : null}
+          </tr>
+        </thead>
+        <tbody>
+          {runways.flatMap((runway) => {
+            const check = requiredDistance
+              ? checkRunwayDistance(runway, requiredDistance)
+              : undefined;
+            return runwayEnds(runway).map((end) => {
+              const components = wind
+                ? runwayWind(end.heading, wind, variation)
+                : undefined;
+              return (
+                <tr key={end.designator}>
+                  <td className="pr-2 font-medium">{end.designator}</td>
+                  <td className="pr-2">
+                    {runway.length} × {runway.width} m
+                  </td>
+                  <td className="pr-2">{runway.surface}</td>
+                  {components && (
+                    <>
+                      <td
+                        className={`pr-2 ${
+                          components.headwind < 0 ? "text-amber-600" : ""
+                        }`}
+                      >
+                        {Math.round(components.headwind)}
+                      </td>
+                      <td className="pr-2">
+                        {Math.round(Math.abs(components.crosswind))}
+                        {components.crosswind >= 0 ? " R" : " L"}
+                      </td>
+                    </>
+                  )}
+                  {check && (
+                    <td
+                      title={t("runways.check", {
+                        required: check.required,
+                        available: check.available,
+                      })}
+                      className={
+                        check.margin >= 0 ? "text-emerald-600" : "text-red-600"
+                      }
+                    >
+                      {check.margin >= 0
+                        ? t("runways.fits", { margin: check.margin })
+                        : t("runways.short", { missing: -check.margin })}
+                    </td>
+                  )}
+                </tr>
+              );
+            });
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default RunwayTable;
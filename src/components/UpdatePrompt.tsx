@@ -0,0 +1,47 @@
+import { useSyncExternalStore } from "react";
+import { RefreshCw } from "lucide-react";
+import { useI18n } from "../i18n";
+import {
+  applyUpdate,
+  dismissUpdate,
+  isUpdateAvailable,
+  subscribeUpdate,
+} from "../services/serviceWorker";
+
+function UpdatePrompt() {
+  const { t } = useI18n();
+  const available = useSyncExternalStore(subscribeUpdate, isUpdateAvailable);
+
+  if (!available) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-50 max-w-sm bg-white rounded-lg shadow-lg p-4 flex items-start gap-3 print:hidden"
+    >
+      <RefreshCw className="w-5 h-5 text-emerald-600 shrink-0 mt-0.5" />
+      <div className="text-sm">
+        <p className="font-medium text-gray-800">{t("update.available")}</p>
+        <p className="text-gray-600">{t("update.description")}</p>
+        <div className="mt-2 flex gap-2">
+          <button
+            type="button"
+            onClick={applyUpdate}
+            className="px-3 py-1 bg-emerald-600 text-white rounded-md hover:bg-emerald-700"
+          >
+            {t("update.reload")}
+          </button>
+          <button
+            type="button"
+            onClick={dismissUpdate}
+            className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            {t("update.later")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default UpdatePrompt;
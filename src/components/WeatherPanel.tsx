@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { CloudSun, Download } from "lucide-react";
+import { magneticVariation } from "../engine/magnetic";
+import {
+  fieldConditions,
+  parseWeatherReports,
+  ReportTime,
+  ReportWind,
+  WeatherReport,
+} from "../engine/metar";
+import { runwayEnds, runwayHeading, runwayWind } from "../engine/runway";
+import { Airport } from "../engine/types";
+import { MessageKey, useI18n } from "../i18n";
+import { fetchWeather, getWeatherProviders } from "../services/weather";
+
+interface WeatherPanelProps {
+  departure?: Airport;
+  arrival?: Airport;
+  onApplyIsaDeviation: (deviation: number) => void;
+}
+
+interface StationWeatherProps {
+  label: MessageKey;
+  airport?: Airport;
+  onApplyIsaDeviation: (deviation: number) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatTime = ({ day, hour, minute }: ReportTime) =>
+  `${pad(day)}/${pad(hour)}${pad(minute)}Z`;
+
+function StationWeather({
+  label,
+  airport,
+  onApplyIsaDeviation,
+}: StationWeatherProps) {
+  const { t, formatNumber } = useI18n();
+  const [text, setText] = useState("");
+  const [runway, setRunway] = useState("");
+  const [fetching, setFetching] = useState(false);
+  const [fetchFailed, setFetchFailed] = useState(false);
+
+  const results = parseWeatherReports(text);
+  const providers = getWeatherProviders();
+  // Known runway ends of the airport, else the heading of the designator
+  const ends = airport?.runways?.flatMap(runwayEnds) ?? [];
+  const heading =
+    ends.find((end) => end.designator === runway.trim().toUpperCase())
+      ?.heading ?? runwayHeading(runway);
+  const variation = airport?.coordinates
+    ? magneticVariation(airport.coordinates)
+    : 0;
+
+  const handleFetch = (providerId: string) => {
+    if (!airport) return;
+    setFetching(true);
+    setFetchFailed(false);
+    fetchWeather(providerId, airport.icao)
+      .then(setText)
+      .catch(() => setFetchFailed(true))
+      .finally(() => setFetching(false));
+  };
+
+  const formatWind = (wind: ReportWind) => {
+    if (wind.speed === 0) return t("weather.calm");
+    const parts = [
+      wind.direction === undefined
+        ? t("weather.variable")
+        : `${String(wind.direction).padStart(3, "0")}°`,
+      t("units.kt", { value: Math.round(wind.speed) }),
+    ];
+    if (wind.gust !== undefined) {
+      parts.push(t("weather.gust", { value: Math.round(wind.gust) }));
+    }
+    if (wind.variableFrom !== undefined && wind.variableTo !== undefined) {
+      parts.push(
+        t("weather.varying", { from: wind.variableFrom, to: wind.variableTo })
+      );
+    }
+    return parts.join(", ");
+  };
+
+  const row = (name: MessageKey, value: string) => (
+    <p className="text-gray-600">
+      {t(name)}: <span className="font-semibold text-gray-800">{value}</span>
+    </p>
+  );
+
+  const reportDetails = (report: WeatherReport) => {
+    const conditions =
+      report.type === "TAF"
+        ? {}
+        : fieldConditions(report, airport?.elevation ?? 0);
+    const components =
+      heading !== undefined && report.wind && report.type !== "TAF"
+        ? runwayWind(heading, report.wind, variation)
+        : undefined;
+    const isaDeviation = conditions.isaDeviation;
+
+    return (
+      <div className="space-y-1">
+        <p className="font-medium text-gray-800">
+          {report.type} {report.station}
+          {report.issued && ` ${formatTime(report.issued)}`}
+          {report.validFrom &&
+            report.validTo &&
+            ` · ${t("weather.validity", {
+              from: formatTime(report.validFrom),
+              to: formatTime(report.validTo),
+            })}`}
+        </p>
+        {airport && report.station !== airport.icao && (
+          <p className="text-amber-600">
+            {t("weather.stationMismatch", {
+              station: report.station,
+              icao: airport.icao,
+            })}
+          </p>
+        )}
+        {report.wind && row("weather.wind", formatWind(report.wind))}
+        {report.visibility !== undefined &&
+          row(
+            "weather.visibility",
+            report.cavok
+              ? "CAVOK"
+              : report.visibility >= 10000
+                ? t("weather.visibilityUnlimited")
+                : t("weather.meters", { value: report.visibility })
+          )}
+        {report.temperature !== undefined &&
+          row(
+            "weather.temperature",
+            report.dewpoint !== undefined
+              ? `${report.temperature} °C / ${report.dewpoint} °C`
+              : `${report.temperature} °C`
+          )}
+        {report.qnh !== undefined &&
+          row("weather.qnh", `${formatNumber(report.qnh)} hPa`)}
+        {airport &&
+          conditions.pressureAltitude !== undefined &&
+          row(
+            "weather.pressureAltitude",
+            t("units.ft", { value: Math.round(conditions.pressureAltitude) })
+          )}
+        {airport &&
+          conditions.densityAltitude !== undefined &&
+          row(
+            "weather.densityAltitude",
+            t("units.ft", { value: Math.round(conditions.densityAltitude) })
+          )}
+        {airport && isaDeviation !== undefined && (
+          <p className="text-gray-600">
+            {t("weather.isaDeviation")}:{" "}
+            <span className="font-semibold text-gray-800">
+              {isaDeviation >= 0 ? "+" : ""}
+              {Math.round(isaDeviation)} °C
+            </span>{" "}
+            <button
+              type="button"
+              onClick={() => onApplyIsaDeviation(Math.round(isaDeviation))}
+              className="ml-1 text-emerald-600 hover:underline"
+            >
+              {t("weather.applyIsa")}
+            </button>
+          </p>
+        )}
+        {components && (
+          <p className="text-gray-600">
+            {t("weather.runwayWind", { runway: runway.toUpperCase() })}:{" "}
+            <span className="font-semibold text-gray-800">
+              {t(components.headwind >= 0 ? "wind.headwind" : "wind.tailwind", {
+                value: Math.round(Math.abs(components.headwind)),
+              })}
+              ,{" "}
+              {t(
+                components.crosswind >= 0
+                  ? "weather.crosswindRight"
+                  : "weather.crosswindLeft",
+                {
+                  value: Math.round(Math.abs(components.crosswind)),
+                }
+              )}
+              {components.gustCrosswind !== undefined &&
+                ` (${t("weather.gustCrosswind", {
+                  value: Math.round(Math.abs(components.gustCrosswind)),
+                })})`}
+            </span>
+          </p>
+        )}
+        {heading !== undefined &&
+          report.type !== "TAF" &&
+          report.wind?.direction === undefined &&
+          report.wind && (
+            <p className="text-gray-500">{t("weather.variableRunwayWind")}</p>
+          )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-medium text-gray-800">
+        {t(label)}
+        {airport && ` · ${airport.icao}`}
+      </h3>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={3}
+        spellCheck={false}
+        placeholder={t("weather.placeholder")}
+        aria-label={t("weather.paste", { label: t(label) })}
+        className={`${inputClass} font-mono text-sm`}
+      />
+      {airport && providers.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {providers.map((provider) => (
+            <button
+              key={provider.id}
+              type="button"
+              disabled={fetching}
+              onClick={() => handleFetch(provider.id)}
+              className="flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md hover:border-emerald-500 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              {t("weather.fetch", { provider: provider.label })}
+            </button>
+          ))}
+        </div>
+      )}
+      {fetchFailed && (
+        <p className="text-sm text-red-600">{t("weather.fetchFailed")}</p>
+      )}
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">
+          {t("weather.runway")}
+        </label>
+        <input
+          type="text"
+          value={runway}
+          onChange={(e) => setRunway(e.target.value)}
+          placeholder={t("weather.runwayPlaceholder")}
+          list={ends.length > 0 ? `runways-${label}` : undefined}
+          className={inputClass}
+        />
+        {ends.length > 0 && (
+          <datalist id={`runways-${label}`}>
+            {ends.map((end) => (
+              <option key={end.designator} value={end.designator} />
+            ))}
+          </datalist>
+        )}
+        {runway.trim() !== "" && heading === undefined && (
+          <p className="mt-1 text-sm text-red-600">
+            {t("weather.invalidRunway")}
+          </p>
+        )}
+      </div>
+      {results.map((result, index) => (
+        <div key={index} className="bg-neutral-50 p-3 rounded-lg text-sm">
+          {result.ok ? (
+            reportDetails(result.report)
+          ) : (
+            <p className="font-medium text-red-600">
+              {t("weather.invalidReport")}
+            </p>
+          )}
+          {result.issues.length > 0 && (
+            <ul className="mt-1 space-y-1">
+              {result.issues.map((issue, i) => (
+                <li
+                  key={i}
+                  className={
+                    issue.severity === "error"
+                      ? "text-red-600"
+                      : "text-amber-600"
+                  }
+                >
+                  {t(`weather.issue.${issue.code}`)}
+                  {issue.token && (
+                    <code className="ml-1 font-mono">{issue.token}</code>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function WeatherPanel({
+  departure,
+  arrival,
+  onApplyIsaDeviation,
+}: WeatherPanelProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <p className="flex items-start text-sm text-gray-500">
+        <CloudSun className="w-4 h-4 mr-1 mt-0.5 shrink-0 text-emerald-600" />
+        {t("weather.intro")}
+      </p>
+      <div className="grid md:grid-cols-2 gap-8">
+        <StationWeather
+          label="weather.departure"
+          airport={departure}
+          onApplyIsaDeviation={onApplyIsaDeviation}
+        />
+        <StationWeather
+          label="weather.arrival"
+          airport={arrival}
+          onApplyIsaDeviation={onApplyIsaDeviation}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default WeatherPanel;
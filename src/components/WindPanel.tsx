@@ -0,0 +1,202 @@
+import { Plus, Trash2, Wind as WindIcon } from "lucide-react";
+import { SpeedUnit } from "../engine/types";
+import { FlightPhase, Wind, WindBand, WindProfile } from "../engine/wind";
+import { useI18n } from "../i18n";
+
+interface WindPanelProps {
+  value?: WindProfile;
+  speedUnit: SpeedUnit;
+  onChange: (value: WindProfile | undefined) => void;
+}
+
+const phases: FlightPhase[] = ["climb", "cruise", "descent"];
+
+const inputClass =
+  "w-full px-2 py-1 border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500";
+
+const defaultBands: WindBand[] = [
+  { floor: 0, ceiling: 10000, wind: { direction: 0, speed: 0 } },
+  { floor: 10000, ceiling: 24000, wind: { direction: 0, speed: 0 } },
+  { floor: 24000, ceiling: 45000, wind: { direction: 0, speed: 0 } },
+];
+
+interface WindFieldsProps {
+  wind?: Wind;
+  speedUnit: SpeedUnit;
+  onChange: (wind: Wind) => void;
+}
+
+function WindFields({ wind, speedUnit, onChange }: WindFieldsProps) {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <input
+        type="number"
+        min={0}
+        max={360}
+        placeholder={t("windPanel.direction")}
+        aria-label={t("windPanel.directionLabel")}
+        value={wind?.direction ?? ""}
+        onChange={(e) =>
+          onChange({
+            direction: Number(e.target.value) || 0,
+            speed: wind?.speed ?? 0,
+          })
+        }
+        className={inputClass}
+      />
+      <input
+        type="number"
+        min={0}
+        placeholder={t("performance.speed", { unit: speedUnit })}
+        aria-label={t("windPanel.speedLabel", { unit: speedUnit })}
+        value={wind?.speed ?? ""}
+        onChange={(e) =>
+          onChange({
+            direction: wind?.direction ?? 0,
+            speed: Number(e.target.value) || 0,
+          })
+        }
+        className={inputClass}
+      />
+    </>
+  );
+}
+
+function WindPanel({ value, speedUnit, onChange }: WindPanelProps) {
+  const { t } = useI18n();
+  const mode = value?.mode ?? "none";
+
+  const handleModeChange = (next: string) => {
+    if (next === "phase") onChange({ mode: "phase" });
+    else if (next === "bands") onChange({ mode: "bands", bands: defaultBands });
+    else onChange(undefined);
+  };
+
+  const updateBand = (index: number, band: WindBand) => {
+    if (value?.mode !== "bands") return;
+    onChange({
+      mode: "bands",
+      bands: value.bands.map((b, i) => (i === index ? band : b)),
+    });
+  };
+
+  const removeBand = (index: number) => {
+    if (value?.mode !== "bands") return;
+    onChange({
+      mode: "bands",
+      bands: value.bands.filter((_, i) => i !== index),
+    });
+  };
+
+  const addBand = () => {
+    if (value?.mode !== "bands") return;
+    const last = value.bands[value.bands.length - 1];
+    const floor = last ? last.ceiling : 0;
+    onChange({
+      mode: "bands",
+      bands: [
+        ...value.bands,
+        { floor, ceiling: floor + 10000, wind: { direction: 0, speed: 0 } },
+      ],
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="flex items-center text-sm font-medium text-gray-600">
+          <WindIcon className="w-4 h-4 mr-1" />
+          {t("windPanel.title")}
+        </label>
+        <select
+          value={mode}
+          onChange={(e) => handleModeChange(e.target.value)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="none">{t("windPanel.none")}</option>
+          <option value="phase">{t("windPanel.byPhase")}</option>
+          <option value="bands">{t("windPanel.byBand")}</option>
+        </select>
+      </div>
+
+      {value?.mode === "phase" && (
+        <div className="space-y-2">
+          {phases.map((phase) => (
+            <div key={phase} className="grid grid-cols-3 gap-2 items-center">
+              <span className="text-sm text-gray-600">
+                {t(`phase.${phase}`)}
+              </span>
+              <WindFields
+                wind={value[phase]}
+                speedUnit={speedUnit}
+                onChange={(wind) => onChange({ ...value, [phase]: wind })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {value?.mode === "bands" && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-5 gap-2 text-xs text-gray-500">
+            <span>{t("performance.from")}</span>
+            <span>{t("performance.to")}</span>
+            <span>{t("windPanel.direction")}</span>
+            <span>{t("windPanel.speedShort", { unit: speedUnit })}</span>
+          </div>
+          {value.bands.map((band, index) => (
+            <div key={index} className="grid grid-cols-5 gap-2 items-center">
+              <input
+                type="number"
+                aria-label={t("performance.floor")}
+                value={band.floor}
+                onChange={(e) =>
+                  updateBand(index, {
+                    ...band,
+                    floor: Number(e.target.value) || 0,
+                  })
+                }
+                className={inputClass}
+              />
+              <input
+                type="number"
+                aria-label={t("performance.ceiling")}
+                value={band.ceiling}
+                onChange={(e) =>
+                  updateBand(index, {
+                    ...band,
+                    ceiling: Number(e.target.value) || 0,
+                  })
+                }
+                className={inputClass}
+              />
+              <WindFields
+                wind={band.wind}
+                speedUnit={speedUnit}
+                onChange={(wind) => updateBand(index, { ...band, wind })}
+              />
+              <button
+                onClick={() => removeBand(index)}
+                aria-label={t("performance.remove")}
+                className="justify-self-start p-1 text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addBand}
+            className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t("performance.add")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WindPanel;
@@ -0,0 +1,172 @@
+import { FuelType, FuelUnit } from "../engine/fuel";
+import { RateUnit, SpeedMode, SpeedUnit } from "../engine/types";
+import { FlightPhase } from "../engine/wind";
+
+export interface AircraftProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  speedUnit: SpeedUnit;
+  rateUnit: RateUnit;
+  climbSpeed: number;
+  cruiseSpeed: number;
+  descentSpeed: number;
+  climbRate: number;
+  descentRate: number;
+  speedModes: Record<FlightPhase, SpeedMode>;
+  serviceCeiling?: number; // feet
+  takeoffDistance?: number; // meters over a 50 ft obstacle, sea level ISA
+  landingDistance?: number; // meters over a 50 ft obstacle, sea level ISA
+  fuel?: AircraftFuel;
+}
+
+// Profile figures entered alongside the current speeds and rates
+export type ProfileLimits = Pick<
+  AircraftProfile,
+  "serviceCeiling" | "takeoffDistance" | "landingDistance"
+>;
+
+export interface AircraftFuel {
+  fuelType: FuelType;
+  unit: FuelUnit;
+  climbFlow: number; // unit per hour
+  cruiseFlow: number; // unit per hour
+  descentFlow: number; // unit per hour
+  usableCapacity?: number; // unit
+}
+
+const TAS: Record<FlightPhase, SpeedMode> = {
+  climb: "tas",
+  cruise: "tas",
+  descent: "tas",
+};
+
+const IAS_MACH: Record<FlightPhase, SpeedMode> = {
+  climb: "ias",
+  cruise: "mach",
+  descent: "ias",
+};
+
+// Typical book figures, rounded; always check the aircraft's own AFM/POH
+export const builtInProfiles: AircraftProfile[] = [
+  {
+    id: "c172",
+    name: "Cessna 172 Skyhawk",
+    builtIn: true,
+    speedUnit: "kt",
+    rateUnit: "ftmin",
+    climbSpeed: 80,
+    cruiseSpeed: 115,
+    descentSpeed: 120,
+    climbRate: 600,
+    descentRate: 500,
+    speedModes: TAS,
+    serviceCeiling: 14000,
+    takeoffDistance: 500,
+    landingDistance: 410,
+    fuel: {
+      fuelType: "avgas",
+      unit: "l",
+      climbFlow: 45,
+      cruiseFlow: 32,
+      descentFlow: 25,
+      usableCapacity: 200,
+    },
+  },
+  {
+    id: "pa34",
+    name: "Piper PA-34 Seneca",
+    builtIn: true,
+    speedUnit: "kt",
+    rateUnit: "ftmin",
+    climbSpeed: 110,
+    cruiseSpeed: 180,
+    descentSpeed: 170,
+    climbRate: 900,
+    descentRate: 700,
+    speedModes: TAS,
+    serviceCeiling: 25000,
+    takeoffDistance: 520,
+    landingDistance: 660,
+    fuel: {
+      fuelType: "avgas",
+      unit: "l",
+      climbFlow: 120,
+      cruiseFlow: 90,
+      descentFlow: 60,
+      usableCapacity: 352,
+    },
+  },
+  {
+    id: "be350",
+    name: "Beechcraft King Air 350",
+    builtIn: true,
+    speedUnit: "kt",
+    rateUnit: "ftmin",
+    climbSpeed: 160,
+    cruiseSpeed: 300,
+    descentSpeed: 220,
+    climbRate: 1800,
+    descentRate: 1800,
+    speedModes: { climb: "ias", cruise: "tas", descent: "ias" },
+    serviceCeiling: 35000,
+    takeoffDistance: 1010,
+    landingDistance: 820,
+    fuel: {
+      fuelType: "jeta1",
+      unit: "kg",
+      climbFlow: 450,
+      cruiseFlow: 380,
+      descentFlow: 250,
+      usableCapacity: 1630,
+    },
+  },
+  {
+    id: "e195",
+    name: "Embraer E195",
+    builtIn: true,
+    speedUnit: "kt",
+    rateUnit: "ftmin",
+    climbSpeed: 270,
+    cruiseSpeed: 0.78,
+    descentSpeed: 280,
+    climbRate: 2000,
+    descentRate: 2200,
+    speedModes: IAS_MACH,
+    serviceCeiling: 41000,
+    takeoffDistance: 2180,
+    landingDistance: 1280,
+    fuel: {
+      fuelType: "jeta1",
+      unit: "kg",
+      climbFlow: 3200,
+      cruiseFlow: 2300,
+      descentFlow: 1000,
+      usableCapacity: 13000,
+    },
+  },
+  {
+    id: "a320",
+    name: "Airbus A320",
+    builtIn: true,
+    speedUnit: "kt",
+    rateUnit: "ftmin",
+    climbSpeed: 280,
+    cruiseSpeed: 0.78,
+    descentSpeed: 290,
+    climbRate: 2000,
+    descentRate: 2500,
+    speedModes: IAS_MACH,
+    serviceCeiling: 39800,
+    takeoffDistance: 2100,
+    landingDistance: 1500,
+    fuel: {
+      fuelType: "jeta1",
+      unit: "kg",
+      climbFlow: 3500,
+      cruiseFlow: 2500,
+      descentFlow: 1000,
+      usableCapacity: 18700,
+    },
+  },
+];
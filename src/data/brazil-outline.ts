@@ -0,0 +1,122 @@
+// Simplified outline of Brazil's land border and coastline as [lon, lat]
+// pairs, clockwise from Oiapoque. Accurate to a few tens of kilometres,
+// enough for an offline context basemap.
+export const brazilOutline: [number, number][] = [
+  [-51.6, 4.2],
+  [-51.1, 3.8],
+  [-50.6, 2.1],
+  [-50.0, 1.7],
+  [-49.9, 0.6],
+  [-50.4, 0.0],
+  [-49.2, -0.2],
+  [-48.5, -0.7],
+  [-47.9, -0.6],
+  [-46.6, -0.9],
+  [-45.4, -1.3],
+  [-44.6, -2.1],
+  [-44.1, -2.6],
+  [-43.0, -2.5],
+  [-41.8, -2.8],
+  [-40.5, -2.8],
+  [-39.5, -3.0],
+  [-38.5, -3.7],
+  [-37.3, -4.7],
+  [-36.0, -5.0],
+  [-35.2, -5.5],
+  [-34.9, -7.1],
+  [-34.9, -8.1],
+  [-35.3, -9.2],
+  [-36.4, -10.5],
+  [-37.2, -11.5],
+  [-38.3, -12.8],
+  [-38.9, -13.6],
+  [-39.0, -15.0],
+  [-39.2, -17.5],
+  [-39.7, -19.2],
+  [-40.3, -20.3],
+  [-40.9, -21.3],
+  [-41.9, -22.9],
+  [-43.2, -23.0],
+  [-44.6, -23.3],
+  [-45.4, -23.8],
+  [-46.9, -24.4],
+  [-48.0, -25.3],
+  [-48.6, -26.2],
+  [-48.6, -27.6],
+  [-48.8, -28.6],
+  [-49.7, -29.4],
+  [-50.4, -30.6],
+  [-51.2, -31.5],
+  [-52.2, -32.3],
+  [-53.4, -33.7],
+  [-53.5, -33.1],
+  [-53.2, -32.6],
+  [-53.9, -31.9],
+  [-55.6, -30.9],
+  [-56.2, -30.2],
+  [-57.6, -30.2],
+  [-56.4, -28.9],
+  [-55.7, -28.1],
+  [-54.6, -27.4],
+  [-53.8, -27.1],
+  [-53.6, -26.2],
+  [-54.6, -25.6],
+  [-54.3, -24.1],
+  [-54.6, -23.8],
+  [-55.7, -22.6],
+  [-56.7, -22.2],
+  [-58.0, -22.0],
+  [-57.8, -20.7],
+  [-58.2, -19.8],
+  [-57.6, -18.2],
+  [-58.4, -16.3],
+  [-60.2, -16.3],
+  [-60.4, -15.1],
+  [-60.3, -13.7],
+  [-61.9, -13.5],
+  [-63.1, -12.7],
+  [-64.4, -12.4],
+  [-65.4, -11.8],
+  [-65.3, -10.8],
+  [-66.6, -9.9],
+  [-68.0, -10.7],
+  [-69.6, -10.9],
+  [-70.6, -11.0],
+  [-70.5, -9.5],
+  [-72.2, -10.0],
+  [-72.9, -9.0],
+  [-73.7, -7.6],
+  [-73.1, -6.5],
+  [-72.9, -5.2],
+  [-70.9, -4.4],
+  [-70.0, -4.3],
+  [-69.4, -1.5],
+  [-69.6, -0.5],
+  [-70.0, 0.6],
+  [-69.2, 1.0],
+  [-67.5, 2.1],
+  [-67.1, 1.2],
+  [-66.3, 0.8],
+  [-65.5, 0.7],
+  [-64.2, 1.4],
+  [-64.0, 2.1],
+  [-64.8, 2.5],
+  [-64.2, 3.6],
+  [-64.8, 4.2],
+  [-63.0, 3.8],
+  [-62.0, 4.2],
+  [-60.7, 5.2],
+  [-60.0, 5.0],
+  [-59.8, 4.0],
+  [-59.5, 3.4],
+  [-60.0, 2.3],
+  [-59.6, 1.5],
+  [-58.5, 1.3],
+  [-57.2, 2.0],
+  [-56.0, 1.9],
+  [-54.8, 2.4],
+  [-54.0, 2.1],
+  [-52.9, 2.2],
+  [-52.3, 3.2],
+  [-51.6, 4.2],
+];
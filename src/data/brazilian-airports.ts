@@ -1,16 +1,34 @@
+import { Runway } from "../engine/types";
+
 export interface BrazilianAirport {
   icao: string;
   name: string;
   city: string; 
-  iata: string;
+  iata?: string;
   state: string;
   elevation: number;
   lat: number;
   lon: number;
+  runways?: Runway[];
 }
 
 
 
+const runway = (
+  designator: string,
+  length: number,
+  width: number,
+  surface = "ASPH"
+): Runway => ({
+  designator,
+  length,
+  width,
+  surface,
+  heading: Number(designator.slice(0, 2)) * 10
+});
+
+// Runway figures from the AIP, rounded; headings follow the designators.
+// Always check current AIP/ROTAER data before relying on them.
 export const brazilianAirports: BrazilianAirport[] = [
   {
     icao: "SBGR",
@@ -20,7 +38,11 @@ export const brazilianAirports: BrazilianAirport[] = [
     state: "SP",
     elevation: 2459,
     lat: -23.435556,
-    lon: -46.473056
+    lon: -46.473056,
+    runways: [
+      runway("10L/28R", 3700, 45),
+      runway("10R/28L", 3000, 45)
+    ]
   },
   {
     icao: "SBBR",
@@ -30,7 +52,11 @@ export const brazilianAirports: BrazilianAirport[] = [
     state: "DF",
     elevation: 3497,
     lat: -15.869167,
-    lon: -47.920833
+    lon: -47.920833,
+    runways: [
+      runway("11L/29R", 3200, 45),
+      runway("11R/29L", 3300, 45)
+    ]
   },
   {
     icao: "SBGL",
@@ -40,7 +66,399 @@ export const brazilianAirports: BrazilianAirport[] = [
     state: "RJ",
     elevation: 28,
     lat: -22.808889,
-    lon: -43.243611
+    lon: -43.243611,
+    runways: [
+      runway("10/28", 4000, 45),
+      runway("15/33", 3180, 47)
+    ]
+  },
+  {
+    icao: "SBSP",
+    iata: "CGH",
+    name: "Aeroporto de São Paulo/Congonhas",
+    city: "São Paulo",
+    state: "SP",
+    elevation: 2634,
+    lat: -23.626111,
+    lon: -46.656389,
+    runways: [
+      runway("17R/35L", 1940, 45),
+      runway("17L/35R", 1435, 45)
+    ]
+  },
+  {
+    icao: "SBKP",
+    iata: "VCP",
+    name: "Aeroporto Internacional de Viracopos/Campinas",
+    city: "Campinas",
+    state: "SP",
+    elevation: 2170,
+    lat: -23.006944,
+    lon: -47.134444,
+    runways: [
+      runway("15/33", 3240, 45)
+    ]
+  },
+  {
+    icao: "SBRJ",
+    iata: "SDU",
+    name: "Aeroporto Santos Dumont",
+    city: "Rio de Janeiro",
+    state: "RJ",
+    elevation: 10,
+    lat: -22.91,
+    lon: -43.1625,
+    runways: [
+      runway("02R/20L", 1323, 42),
+      runway("02L/20R", 1260, 30)
+    ]
+  },
+  {
+    icao: "SBCF",
+    iata: "CNF",
+    name: "Aeroporto Internacional de Belo Horizonte/Confins",
+    city: "Belo Horizonte",
+    state: "MG",
+    elevation: 2721,
+    lat: -19.624444,
+    lon: -43.971944,
+    runways: [
+      runway("16/34", 3600, 45)
+    ]
+  },
+  {
+    icao: "SBBH",
+    iata: "PLU",
+    name: "Aeroporto da Pampulha",
+    city: "Belo Horizonte",
+    state: "MG",
+    elevation: 2589,
+    lat: -19.851944,
+    lon: -43.950556
+  },
+  {
+    icao: "SBCT",
+    iata: "CWB",
+    name: "Aeroporto Internacional Afonso Pena",
+    city: "Curitiba",
+    state: "PR",
+    elevation: 2989,
+    lat: -25.531667,
+    lon: -49.176111,
+    runways: [
+      runway("15/33", 2215, 45),
+      runway("11/29", 1798, 45)
+    ]
+  },
+  {
+    icao: "SBPA",
+    iata: "POA",
+    name: "Aeroporto Internacional Salgado Filho",
+    city: "Porto Alegre",
+    state: "RS",
+    elevation: 30,
+    lat: -29.994722,
+    lon: -51.171111
+  },
+  {
+    icao: "SBFL",
+    iata: "FLN",
+    name: "Aeroporto Internacional Hercílio Luz",
+    city: "Florianópolis",
+    state: "SC",
+    elevation: 17,
+    lat: -27.670278,
+    lon: -48.5525
+  },
+  {
+    icao: "SBSV",
+    iata: "SSA",
+    name: "Aeroporto Internacional de Salvador",
+    city: "Salvador",
+    state: "BA",
+    elevation: 66,
+    lat: -12.908611,
+    lon: -38.3225
+  },
+  {
+    icao: "SBRF",
+    iata: "REC",
+    name: "Aeroporto Internacional do Recife/Guararapes",
+    city: "Recife",
+    state: "PE",
+    elevation: 33,
+    lat: -8.126389,
+    lon: -34.922778
+  },
+  {
+    icao: "SBFZ",
+    iata: "FOR",
+    name: "Aeroporto Internacional Pinto Martins",
+    city: "Fortaleza",
+    state: "CE",
+    elevation: 83,
+    lat: -3.775833,
+    lon: -38.532222
+  },
+  {
+    icao: "SBBE",
+    iata: "BEL",
+    name: "Aeroporto Internacional de Belém/Val de Cans",
+    city: "Belém",
+    state: "PA",
+    elevation: 56,
+    lat: -1.384722,
+    lon: -48.478889
+  },
+  {
+    icao: "SBEG",
+    iata: "MAO",
+    name: "Aeroporto Internacional Eduardo Gomes",
+    city: "Manaus",
+    state: "AM",
+    elevation: 264,
+    lat: -3.041111,
+    lon: -60.050556
+  },
+  {
+    icao: "SBGO",
+    iata: "GYN",
+    name: "Aeroporto de Goiânia/Santa Genoveva",
+    city: "Goiânia",
+    state: "GO",
+    elevation: 2453,
+    lat: -16.6325,
+    lon: -49.221111
+  },
+  {
+    icao: "SBCY",
+    iata: "CGB",
+    name: "Aeroporto Internacional Marechal Rondon",
+    city: "Cuiabá",
+    state: "MT",
+    elevation: 617,
+    lat: -15.65,
+    lon: -56.1175
+  },
+  {
+    icao: "SBVT",
+    iata: "VIX",
+    name: "Aeroporto de Vitória/Eurico de Aguiar Salles",
+    city: "Vitória",
+    state: "ES",
+    elevation: 34,
+    lat: -20.258056,
+    lon: -40.286389
+  },
+  {
+    icao: "SBSG",
+    iata: "NAT",
+    name: "Aeroporto Internacional de Natal/São Gonçalo do Amarante",
+    city: "Natal",
+    state: "RN",
+    elevation: 273,
+    lat: -5.768889,
+    lon: -35.366389
+  },
+  {
+    icao: "SBMO",
+    iata: "MCZ",
+    name: "Aeroporto Internacional Zumbi dos Palmares",
+    city: "Maceió",
+    state: "AL",
+    elevation: 388,
+    lat: -9.510833,
+    lon: -35.791667
+  },
+  {
+    icao: "SBSL",
+    iata: "SLZ",
+    name: "Aeroporto Internacional Marechal Cunha Machado",
+    city: "São Luís",
+    state: "MA",
+    elevation: 177,
+    lat: -2.586944,
+    lon: -44.236111
+  },
+  {
+    icao: "SBTE",
+    iata: "THE",
+    name: "Aeroporto Senador Petrônio Portella",
+    city: "Teresina",
+    state: "PI",
+    elevation: 220,
+    lat: -5.060556,
+    lon: -42.824444
+  },
+  {
+    icao: "SBJP",
+    iata: "JPA",
+    name: "Aeroporto Internacional Presidente Castro Pinto",
+    city: "João Pessoa",
+    state: "PB",
+    elevation: 217,
+    lat: -7.148333,
+    lon: -34.950278
+  },
+  {
+    icao: "SBAR",
+    iata: "AJU",
+    name: "Aeroporto Santa Maria",
+    city: "Aracaju",
+    state: "SE",
+    elevation: 23,
+    lat: -10.985278,
+    lon: -37.073333
+  },
+  {
+    icao: "SBPV",
+    iata: "PVH",
+    name: "Aeroporto Internacional Governador Jorge Teixeira de Oliveira",
+    city: "Porto Velho",
+    state: "RO",
+    elevation: 295,
+    lat: -8.713611,
+    lon: -63.902778
+  },
+  {
+    icao: "SBRB",
+    iata: "RBR",
+    name: "Aeroporto Internacional Plácido de Castro",
+    city: "Rio Branco",
+    state: "AC",
+    elevation: 633,
+    lat: -9.868333,
+    lon: -67.898056
+  },
+  {
+    icao: "SBMQ",
+    iata: "MCP",
+    name: "Aeroporto Internacional Alberto Alcolumbre",
+    city: "Macapá",
+    state: "AP",
+    elevation: 56,
+    lat: 0.050556,
+    lon: -51.072222
+  },
+  {
+    icao: "SBBV",
+    iata: "BVB",
+    name: "Aeroporto Internacional Atlas Brasil Cantanhede",
+    city: "Boa Vista",
+    state: "RR",
+    elevation: 276,
+    lat: 2.841389,
+    lon: -60.692222
+  },
+  {
+    icao: "SBPJ",
+    iata: "PMW",
+    name: "Aeroporto Brigadeiro Lysias Rodrigues",
+    city: "Palmas",
+    state: "TO",
+    elevation: 774,
+    lat: -10.29,
+    lon: -48.357778
+  },
+  {
+    icao: "SBCG",
+    iata: "CGR",
+    name: "Aeroporto Internacional de Campo Grande",
+    city: "Campo Grande",
+    state: "MS",
+    elevation: 1834,
+    lat: -20.469444,
+    lon: -54.670278
+  },
+  {
+    icao: "SBFI",
+    iata: "IGU",
+    name: "Aeroporto Internacional de Foz do Iguaçu/Cataratas",
+    city: "Foz do Iguaçu",
+    state: "PR",
+    elevation: 787,
+    lat: -25.600278,
+    lon: -54.485
+  },
+  {
+    icao: "SBLO",
+    iata: "LDB",
+    name: "Aeroporto Governador José Richa",
+    city: "Londrina",
+    state: "PR",
+    elevation: 1867,
+    lat: -23.330278,
+    lon: -51.136667
+  },
+  {
+    icao: "SBNF",
+    iata: "NVT",
+    name: "Aeroporto Internacional Ministro Victor Konder",
+    city: "Navegantes",
+    state: "SC",
+    elevation: 18,
+    lat: -26.878611,
+    lon: -48.650833
+  },
+  {
+    icao: "SBJV",
+    iata: "JOI",
+    name: "Aeroporto Lauro Carneiro de Loyola",
+    city: "Joinville",
+    state: "SC",
+    elevation: 15,
+    lat: -26.223056,
+    lon: -48.797778
+  },
+  {
+    icao: "SBRP",
+    iata: "RAO",
+    name: "Aeroporto Leite Lopes",
+    city: "Ribeirão Preto",
+    state: "SP",
+    elevation: 1805,
+    lat: -21.136389,
+    lon: -47.776667
+  },
+  {
+    icao: "SBUL",
+    iata: "UDI",
+    name: "Aeroporto Ten. Cel. Av. César Bombonato",
+    city: "Uberlândia",
+    state: "MG",
+    elevation: 3094,
+    lat: -18.883611,
+    lon: -48.225278
+  },
+  {
+    icao: "SBMG",
+    iata: "MGF",
+    name: "Aeroporto Regional Sílvio Name Júnior",
+    city: "Maringá",
+    state: "PR",
+    elevation: 1801,
+    lat: -23.476389,
+    lon: -52.017778
+  },
+  {
+    icao: "SBPS",
+    iata: "BPS",
+    name: "Aeroporto de Porto Seguro",
+    city: "Porto Seguro",
+    state: "BA",
+    elevation: 169,
+    lat: -16.438056,
+    lon: -39.077778
+  },
+  {
+    icao: "SBIL",
+    iata: "IOS",
+    name: "Aeroporto Jorge Amado",
+    city: "Ilhéus",
+    state: "BA",
+    elevation: 14,
+    lat: -14.815,
+    lon: -39.033333
   },
   // Add more airports as needed
 ];
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  casToMach,
+  casToTas,
+  densityAltitude,
+  isaTemperature,
+  machToCas,
+  machToTas,
+  pressureAltitude,
+  tasToCas,
+  TROPOPAUSE_FT,
+} from "./atmosphere";
+
+describe("isaTemperature", () => {
+  it("falls 1.98 °C per 1000 ft up to the tropopause, then stays", () => {
+    expect(isaTemperature(0)).toBeCloseTo(15, 6);
+    expect(isaTemperature(10000)).toBeCloseTo(-4.81, 2);
+    expect(isaTemperature(TROPOPAUSE_FT)).toBeCloseTo(-56.5, 1);
+    expect(isaTemperature(41000)).toBeCloseTo(-56.5, 1);
+  });
+});
+
+describe("true airspeed", () => {
+  it("gives about 289 kt for 250 kt CAS at 10,000 ft", () => {
+    expect(casToTas(250, 10000)).toBeCloseTo(289, 0);
+  });
+
+  it("gives about 450 kt for M0.78 at FL350", () => {
+    expect(machToTas(0.78, 35000)).toBeCloseTo(450, 0);
+  });
+
+  it("grows in warmer air", () => {
+    expect(machToTas(0.78, 35000, 10)).toBeGreaterThan(459);
+    expect(casToTas(250, 10000, 15)).toBeGreaterThan(296);
+  });
+
+  it("converts back to the calibrated airspeed", () => {
+    expect(tasToCas(casToTas(180, 8000, 10), 8000, 10)).toBeCloseTo(180, 6);
+    expect(machToCas(1, 0)).toBeCloseTo(661.48, 2);
+  });
+});
+
+describe("crossover altitude", () => {
+  it("puts 300 kt CAS and M0.78 together near 29,300 ft", () => {
+    expect(casToMach(300, 29000)).toBeLessThan(0.78);
+    expect(casToMach(300, 29600)).toBeGreaterThan(0.78);
+    expect(machToCas(0.78, 29314)).toBeCloseTo(300, 1);
+  });
+});
+
+describe("pressureAltitude", () => {
+  it("matches the elevation at standard pressure", () => {
+    expect(pressureAltitude(0, 1013.25)).toBeCloseTo(0, 6);
+    expect(pressureAltitude(2000, 1013.25)).toBeCloseTo(2000, 6);
+  });
+
+  it("rises about 28 ft per hPa below standard", () => {
+    expect(pressureAltitude(0, 1003)).toBeCloseTo(281, 0);
+  });
+});
+
+describe("densityAltitude", () => {
+  it("is higher than the pressure altitude in hot air", () => {
+    expect(densityAltitude(5000, 25)).toBeCloseTo(7262, 0);
+    expect(densityAltitude(5000, isaTemperature(5000))).toBeCloseTo(5000, 0);
+  });
+});
@@ -0,0 +1,125 @@
+// International Standard Atmosphere (ICAO Doc 7488), troposphere and lower
+// stratosphere only. Altitudes are pressure altitudes in feet, speeds in knots.
+
+export const SEA_LEVEL_TEMPERATURE_K = 288.15;
+export const SEA_LEVEL_SPEED_OF_SOUND_KT = 661.4786;
+export const TROPOPAUSE_FT = 36089;
+export const STANDARD_PRESSURE_HPA = 1013.25;
+
+const LAPSE_RATE_K_PER_FT = 0.0019812;
+const TROPOPAUSE_TEMPERATURE_K = 216.65;
+const KELVIN_OFFSET = 273.15;
+const PRESSURE_FACTOR_PER_FT = 6.8755856e-6;
+const PRESSURE_EXPONENT = 5.2558797;
+
+export interface AtmosphereState {
+  temperature: number; // °C, including the ISA deviation
+  pressureRatio: number; // δ = p / p0
+  densityRatio: number; // σ = ρ / ρ0
+  speedOfSound: number; // kt
+}
+
+const isaTemperatureK = (altitude: number): number =>
+  altitude < TROPOPAUSE_FT
+    ? SEA_LEVEL_TEMPERATURE_K - LAPSE_RATE_K_PER_FT * altitude
+    : TROPOPAUSE_TEMPERATURE_K;
+
+/** ISA temperature in °C at a pressure altitude. */
+export const isaTemperature = (altitude: number): number =>
+  isaTemperatureK(altitude) - KELVIN_OFFSET;
+
+export const pressureRatio = (altitude: number): number =>
+  altitude < TROPOPAUSE_FT
+    ? (1 - PRESSURE_FACTOR_PER_FT * altitude) ** PRESSURE_EXPONENT
+    : 0.2233609 * Math.exp(-4.806346e-5 * (altitude - TROPOPAUSE_FT));
+
+/**
+ * Pressure altitude of a field from its elevation and QNH. QNH is the field
+ * pressure reduced to sea level through the standard atmosphere, so that
+ * reduction is undone first. Troposphere only, like every field elevation.
+ */
+export const pressureAltitude = (elevation: number, qnh: number): number => {
+  const delta = (qnh / STANDARD_PRESSURE_HPA) * pressureRatio(elevation);
+  return (1 - delta ** (1 / PRESSURE_EXPONENT)) / PRESSURE_FACTOR_PER_FT;
+};
+
+/**
+ * Standard altitude with the same air density as a pressure altitude at the
+ * given outside air temperature (°C).
+ */
+export const densityAltitude = (
+  pressureAltitude: number,
+  temperature: number
+): number => {
+  const { densityRatio } = atmosphereAt(
+    pressureAltitude,
+    temperature - isaTemperature(pressureAltitude)
+  );
+  return (
+    (1 - densityRatio ** (1 / (PRESSURE_EXPONENT - 1))) / PRESSURE_FACTOR_PER_FT
+  );
+};
+
+/**
+ * Atmosphere at a pressure altitude, optionally warmer or colder than
+ * standard by isaDeviation °C.
+ */
+export const atmosphereAt = (
+  altitude: number,
+  isaDeviation = 0
+): AtmosphereState => {
+  const temperatureK = isaTemperatureK(altitude) + isaDeviation;
+  const delta = pressureRatio(altitude);
+  const theta = temperatureK / SEA_LEVEL_TEMPERATURE_K;
+
+  return {
+    temperature: temperatureK - KELVIN_OFFSET,
+    pressureRatio: delta,
+    densityRatio: delta / theta,
+    speedOfSound: SEA_LEVEL_SPEED_OF_SOUND_KT * Math.sqrt(theta),
+  };
+};
+
+export const machToTas = (
+  mach: number,
+  altitude: number,
+  isaDeviation = 0
+): number => mach * atmosphereAt(altitude, isaDeviation).speedOfSound;
+
+export const tasToMach = (
+  tas: number,
+  altitude: number,
+  isaDeviation = 0
+): number => tas / atmosphereAt(altitude, isaDeviation).speedOfSound;
+
+/**
+ * Calibrated to Mach through the subsonic compressible pitot relation.
+ * Indicated airspeed is treated as calibrated (no instrument error).
+ */
+export const casToMach = (cas: number, altitude: number): number => {
+  const impactRatio =
+    (1 + 0.2 * (cas / SEA_LEVEL_SPEED_OF_SOUND_KT) ** 2) ** 3.5 - 1;
+  const delta = pressureRatio(altitude);
+  return Math.sqrt(5 * ((impactRatio / delta + 1) ** (2 / 7) - 1));
+};
+
+export const machToCas = (mach: number, altitude: number): number => {
+  const impactRatio =
+    pressureRatio(altitude) * ((1 + 0.2 * mach ** 2) ** 3.5 - 1);
+  return (
+    SEA_LEVEL_SPEED_OF_SOUND_KT *
+    Math.sqrt(5 * ((impactRatio + 1) ** (2 / 7) - 1))
+  );
+};
+
+export const casToTas = (
+  cas: number,
+  altitude: number,
+  isaDeviation = 0
+): number => machToTas(casToMach(cas, altitude), altitude, isaDeviation);
+
+export const tasToCas = (
+  tas: number,
+  altitude: number,
+  isaDeviation = 0
+): number => machToCas(tasToMach(tas, altitude, isaDeviation), altitude);
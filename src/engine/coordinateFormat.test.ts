@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatDecimal,
+  formatDegreesMinutes,
+  formatFmsCoordinates,
+} from "./coordinateFormat";
+
+const guarulhos = { lat: -23.435, lon: -46.4733 };
+
+describe("formatDecimal", () => {
+  it("prints latitude and longitude with fixed decimals", () => {
+    expect(formatDecimal(guarulhos)).toBe("-23.43500, -46.47330");
+    expect(formatDecimal(guarulhos, 2)).toBe("-23.43, -46.47");
+  });
+});
+
+describe("formatDegreesMinutes", () => {
+  it("names the hemispheres and pads degrees and minutes", () => {
+    expect(formatDegreesMinutes(guarulhos)).toBe("S23°26.1' W046°28.4'");
+    expect(formatDegreesMinutes({ lat: 5.05, lon: 7.5 })).toBe(
+      "N05°03.0' E007°30.0'"
+    );
+  });
+
+  it("carries minutes that round to 60 into the next degree", () => {
+    expect(formatDegreesMinutes({ lat: 22.99999, lon: -45.9999 })).toBe(
+      "N23°00.0' W046°00.0'"
+    );
+    expect(formatDegreesMinutes({ lat: -0.99999, lon: 179.99999 })).toBe(
+      "S01°00.0' E180°00.0'"
+    );
+  });
+
+  it("keeps minutes just under the carry", () => {
+    expect(formatDegreesMinutes({ lat: 22.999, lon: -45.999 })).toBe(
+      "N22°59.9' W045°59.9'"
+    );
+  });
+});
+
+describe("formatFmsCoordinates", () => {
+  it("writes the compact user waypoint form", () => {
+    expect(formatFmsCoordinates(guarulhos)).toBe("S2326.1W04628.4");
+    expect(formatFmsCoordinates({ lat: 22.99999, lon: -45.9999 })).toBe(
+      "N2300.0W04600.0"
+    );
+  });
+});
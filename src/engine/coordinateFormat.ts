@@ -0,0 +1,51 @@
+import { Coordinates } from "./types";
+
+const hemisphere = (value: number, positive: string, negative: string) =>
+  value < 0 ? negative : positive;
+
+/**
+ * Splits an angle into whole degrees and decimal minutes, carrying minutes
+ * that round up to 60 into the degrees.
+ */
+const degreesMinutes = (value: number, decimals: number) => {
+  const absolute = Math.abs(value);
+  let degrees = Math.floor(absolute);
+  let minutes = Number(((absolute - degrees) * 60).toFixed(decimals));
+  if (minutes >= 60) {
+    degrees += 1;
+    minutes = 0;
+  }
+  return { degrees, minutes: minutes.toFixed(decimals) };
+};
+
+export const formatDecimal = (coordinates: Coordinates, decimals = 5) =>
+  `${coordinates.lat.toFixed(decimals)}, ${coordinates.lon.toFixed(decimals)}`;
+
+/** Degrees and decimal minutes, e.g. S23°26.1' W046°28.4'. */
+export const formatDegreesMinutes = (coordinates: Coordinates) => {
+  const lat = degreesMinutes(coordinates.lat, 1);
+  const lon = degreesMinutes(coordinates.lon, 1);
+  return (
+    `${hemisphere(coordinates.lat, "N", "S")}` +
+    `${String(lat.degrees).padStart(2, "0")}°` +
+    `${lat.minutes.padStart(4, "0")}' ` +
+    `${hemisphere(coordinates.lon, "E", "W")}` +
+    `${String(lon.degrees).padStart(3, "0")}°` +
+    `${lon.minutes.padStart(4, "0")}'`
+  );
+};
+
+/**
+ * Compact form accepted by most FMS and EFB user waypoint pages,
+ * e.g. S2326.1W04628.4.
+ */
+export const formatFmsCoordinates = (coordinates: Coordinates) => {
+  const lat = degreesMinutes(coordinates.lat, 1);
+  const lon = degreesMinutes(coordinates.lon, 1);
+  return (
+    `${hemisphere(coordinates.lat, "N", "S")}` +
+    `${String(lat.degrees).padStart(2, "0")}${lat.minutes.padStart(4, "0")}` +
+    `${hemisphere(coordinates.lon, "E", "W")}` +
+    `${String(lon.degrees).padStart(3, "0")}${lon.minutes.padStart(4, "0")}`
+  );
+};
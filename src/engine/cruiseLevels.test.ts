@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  adviseCruiseLevels,
+  checkSemicircularRule,
+  cruisingLevels,
+  semicircleFor,
+} from "./cruiseLevels";
+import { FlightProfileInput } from "./flightProfile";
+
+// Eastbound along the equator, 180 NM, where the variation is a few degrees
+const input: FlightProfileInput = {
+  cruiseAltitude: 6000,
+  climbSpeed: 100,
+  cruiseSpeed: 140,
+  descentSpeed: 140,
+  climbRate: 700,
+  descentRate: 700,
+  speedUnit: "kt",
+  rateUnit: "ftmin",
+  departure: { icao: "A", elevation: 0, coordinates: { lat: 0, lon: 0 } },
+  arrival: { icao: "B", elevation: 0, coordinates: { lat: 0, lon: 3 } },
+  date: new Date("2025-06-01T00:00:00Z"),
+};
+
+describe("semicircleFor", () => {
+  it("splits the compass at 180°", () => {
+    expect(semicircleFor(0)).toBe("odd");
+    expect(semicircleFor(179)).toBe("odd");
+    expect(semicircleFor(180)).toBe("even");
+    expect(semicircleFor(359)).toBe("even");
+    expect(semicircleFor(-10)).toBe("even");
+  });
+});
+
+describe("cruisingLevels", () => {
+  it("lists IFR thousands up to FL410", () => {
+    const levels = cruisingLevels("odd", "ifr");
+    expect(levels.slice(0, 3)).toEqual([1000, 3000, 5000]);
+    expect(levels[levels.length - 1]).toBe(41000);
+    expect(cruisingLevels("even", "ifr").slice(0, 2)).toEqual([2000, 4000]);
+  });
+
+  it("adds 500 ft for VFR up to FL145", () => {
+    expect(cruisingLevels("odd", "vfr").slice(0, 2)).toEqual([1500, 3500]);
+    const even = cruisingLevels("even", "vfr");
+    expect(even[even.length - 1]).toBe(14500);
+  });
+});
+
+describe("checkSemicircularRule", () => {
+  it("accepts a level of the right semicircle", () => {
+    expect(checkSemicircularRule(7000, 90, "ifr")).toBeNull();
+    expect(checkSemicircularRule(6500, 270, "vfr")).toBeNull();
+  });
+
+  it("suggests the nearest level of the semicircle", () => {
+    expect(checkSemicircularRule(6000, 90, "ifr")).toMatchObject({
+      code: "semicircular-rule",
+      severity: "warning",
+      variant: "odd",
+      params: { course: 90, rules: "IFR", nearest: 5000 },
+    });
+    expect(checkSemicircularRule(5500, 200, "vfr")).toMatchObject({
+      variant: "even",
+      params: { nearest: 4500 },
+    });
+  });
+
+  it("does not judge VFR flights close to the ground", () => {
+    expect(checkSemicircularRule(4000, 90, "vfr", 2000)).toBeNull();
+  });
+
+  it("does not judge levels above the ceiling of the rules", () => {
+    expect(checkSemicircularRule(16000, 90, "vfr")).toBeNull();
+  });
+});
+
+describe("adviseCruiseLevels", () => {
+  it("needs both airport coordinates", () => {
+    expect(
+      adviseCruiseLevels(
+        { ...input, arrival: { icao: "B", elevation: 0 } },
+        "ifr"
+      )
+    ).toBeUndefined();
+  });
+
+  it("ranks the reachable levels of the semicircle by total time", () => {
+    const advice = adviseCruiseLevels(input, "ifr");
+    expect(advice?.semicircle).toBe("odd");
+    const options = advice?.options ?? [];
+    expect(options.length).toBeGreaterThan(0);
+    options.forEach((option, i) => {
+      expect((option.altitude / 1000) % 2).toBe(1);
+      if (i > 0) {
+        expect(option.totalTime).toBeGreaterThanOrEqual(
+          options[i - 1].totalTime
+        );
+      }
+    });
+    // Climb and descent take 0.0057 NM per foot: the leg fits 31,500 ft
+    expect(Math.max(...options.map((option) => option.altitude))).toBe(31000);
+    expect(advice?.diagnostics).toHaveLength(1);
+  });
+
+  it("honours the minimum altitude and the service ceiling", () => {
+    const advice = adviseCruiseLevels(
+      { ...input, serviceCeiling: 9000 },
+      "ifr",
+      4000
+    );
+    expect(advice?.options.map((option) => option.altitude).sort()).toEqual([
+      5000, 7000, 9000,
+    ]);
+  });
+});
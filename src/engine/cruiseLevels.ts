@@ -0,0 +1,164 @@
+import { calculateFlightProfile, FlightProfileInput } from "./flightProfile";
+import { initialTrueCourse, normalizeDegrees } from "./geo";
+import { magneticVariation, trueToMagnetic } from "./magnetic";
+import { Diagnostic, isPhaseComputable } from "./validation";
+
+export type FlightRules = "vfr" | "ifr";
+
+// Magnetic tracks 000–179 fly odd thousands, 180–359 even thousands
+export type Semicircle = "odd" | "even";
+
+// Highest VFR cruising level in Brazilian airspace (FL145)
+export const VFR_CEILING_FT = 14500;
+
+// Highest IFR level listed; above FL410 the rule switches to 4000 ft steps
+export const IFR_CEILING_FT = 41000;
+
+// VFR cruising levels only apply this high above the ground
+export const VFR_RULE_HEIGHT_FT = 3000;
+
+// Margin suggested levels keep above the higher of the two airports
+export const LEVEL_CLEARANCE_FT = 1000;
+
+const levelOffset = (rules: FlightRules) => (rules === "vfr" ? 500 : 0);
+
+const levelCeiling = (rules: FlightRules) =>
+  rules === "vfr" ? VFR_CEILING_FT : IFR_CEILING_FT;
+
+export const semicircleFor = (magneticCourse: number): Semicircle =>
+  normalizeDegrees(magneticCourse) < 180 ? "odd" : "even";
+
+/** Cruising levels (ft) of a semicircle, from the lowest up to the ceiling. */
+export function cruisingLevels(
+  semicircle: Semicircle,
+  rules: FlightRules
+): number[] {
+  const levels: number[] = [];
+  for (
+    let altitude = (semicircle === "odd" ? 1000 : 2000) + levelOffset(rules);
+    altitude <= levelCeiling(rules);
+    altitude += 2000
+  ) {
+    levels.push(altitude);
+  }
+  return levels;
+}
+
+/**
+ * Magnetic course of the great circle from departure to arrival, which sets
+ * the direction of flight whatever the intermediate fixes.
+ */
+export function directMagneticCourse(
+  input: Pick<FlightProfileInput, "departure" | "arrival" | "date">
+): number | undefined {
+  const from = input.departure?.coordinates;
+  const to = input.arrival?.coordinates;
+  if (!from || !to) return undefined;
+  return trueToMagnetic(
+    initialTrueCourse(from, to),
+    magneticVariation(from, input.date ?? new Date())
+  );
+}
+
+/**
+ * Warns when an altitude is not a cruising level for the direction of
+ * flight. VFR flights below VFR_RULE_HEIGHT_FT above the higher airport and
+ * levels above the ceiling of the rules are not judged.
+ */
+export function checkSemicircularRule(
+  altitude: number,
+  magneticCourse: number,
+  rules: FlightRules,
+  groundElevation = 0
+): Diagnostic | null {
+  if (!(altitude > 0) || altitude > levelCeiling(rules)) return null;
+  if (rules === "vfr" && altitude < groundElevation + VFR_RULE_HEIGHT_FT) {
+    return null;
+  }
+
+  const semicircle = semicircleFor(magneticCourse);
+  const levels = cruisingLevels(semicircle, rules);
+  if (levels.includes(altitude)) return null;
+
+  const nearest = levels.reduce((best, level) =>
+    Math.abs(level - altitude) < Math.abs(best - altitude) ? level : best
+  );
+  const course = Math.round(magneticCourse) % 360;
+  return {
+    code: "semicircular-rule",
+    severity: "warning",
+    phase: "cruise",
+    variant: semicircle,
+    params: { course, rules: rules.toUpperCase(), nearest },
+  };
+}
+
+export interface LevelOption {
+  altitude: number; // feet
+  totalTime: number; // minutes
+  cruiseTime: number; // minutes
+}
+
+export interface CruiseLevelAdvice {
+  magneticCourse: number; // degrees, direct from departure to arrival
+  semicircle: Semicircle;
+  options: LevelOption[]; // feasible levels, quickest first
+  diagnostics: Diagnostic[]; // about the entered cruise altitude
+}
+
+/**
+ * Cruising levels for the direction of flight that the leg can actually
+ * reach with the entered climb and descent performance, ranked by total
+ * time. Levels under minimumAltitude (an MEA or safe altitude), within
+ * LEVEL_CLEARANCE_FT of either airport or above the service ceiling are
+ * left out. Undefined until both airports have coordinates.
+ */
+export function adviseCruiseLevels(
+  input: FlightProfileInput,
+  rules: FlightRules,
+  minimumAltitude = 0
+): CruiseLevelAdvice | undefined {
+  const magneticCourse = directMagneticCourse(input);
+  if (magneticCourse === undefined) return undefined;
+
+  const semicircle = semicircleFor(magneticCourse);
+  const groundElevation = Math.max(
+    input.departure?.elevation || 0,
+    input.arrival?.elevation || 0
+  );
+  const floor = Math.max(groundElevation + LEVEL_CLEARANCE_FT, minimumAltitude);
+  const ceiling = input.serviceCeiling || Infinity;
+
+  const options = cruisingLevels(semicircle, rules)
+    .filter((altitude) => altitude >= floor && altitude <= ceiling)
+    .flatMap((altitude): LevelOption[] => {
+      const result = calculateFlightProfile({
+        ...input,
+        cruiseAltitude: altitude,
+      });
+      if (!isPhaseComputable(result.diagnostics, "total")) return [];
+      return [
+        {
+          altitude,
+          totalTime: result.totalTime,
+          cruiseTime: result.cruiseTime,
+        },
+      ];
+    })
+    // Stable sort: equal times keep the lower level first
+    .sort((a, b) => a.totalTime - b.totalTime);
+
+  const diagnostic = checkSemicircularRule(
+    input.cruiseAltitude,
+    magneticCourse,
+    rules,
+    groundElevation
+  );
+
+  return {
+    magneticCourse,
+    semicircle,
+    options,
+    diagnostics: diagnostic ? [diagnostic] : [],
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { DescentPlanInput, planDescent, rateForPathAngle } from "./descent";
+
+// 8000 ft at 1000 ft/min and 240 kt TAS: 8 minutes, 32 NM
+const input: DescentPlanInput = {
+  currentAltitude: 10000,
+  targetAltitude: 2000,
+  restrictionDistance: 10,
+  descentSpeed: 240,
+  descentRate: 1000,
+  speedUnit: "kt",
+  rateUnit: "ftmin",
+};
+
+describe("rateForPathAngle", () => {
+  it("gives the vertical speed of a 3° path", () => {
+    // The usual rule of thumb: about five times the ground speed
+    expect(rateForPathAngle(120, 3)).toBeCloseTo(637, 0);
+  });
+});
+
+describe("planDescent", () => {
+  it("places the TOD before the restriction", () => {
+    const plan = planDescent(input);
+    expect(plan.altitudeToLose).toBe(8000);
+    expect(plan.descentTime).toBe(8);
+    expect(plan.descentDistance).toBe(32);
+    expect(plan.todDistance).toBe(42);
+    expect(plan.groundSpeed).toBe(240);
+    expect(plan.diagnostics).toEqual([]);
+  });
+
+  it("shortens the descent into a headwind", () => {
+    const plan = planDescent({ ...input, headwind: 40 });
+    expect(plan.groundSpeed).toBe(200);
+    expect(plan.descentDistance).toBeCloseTo(26.7, 1);
+  });
+
+  it("compares the schedule with a fixed path angle", () => {
+    const plan = planDescent(input);
+    expect(plan.pathAngle).toBe(3);
+    expect(plan.pathRate).toBe(1274);
+    expect(plan.pathTodDistance).toBe(35.1);
+  });
+
+  it("reports the distance left before the TOD", () => {
+    const plan = planDescent({ ...input, distanceToFix: 50 });
+    expect(plan.distanceToTod).toBe(8);
+    // 40 NM to the restriction take 10 minutes
+    expect(plan.requiredRate).toBe(800);
+    expect(plan.diagnostics).toEqual([]);
+  });
+
+  it("warns with the required rate once past the TOD", () => {
+    const plan = planDescent({ ...input, distanceToFix: 30 });
+    expect(plan.distanceToTod).toBe(-12);
+    expect(plan.requiredRate).toBe(1600);
+    expect(plan.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "descent-late",
+        severity: "warning",
+        params: { distance: 12, rate: 1600 },
+      }),
+    ]);
+  });
+
+  it("fails once the restriction is behind", () => {
+    const plan = planDescent({ ...input, distanceToFix: 5 });
+    expect(plan.requiredRate).toBeUndefined();
+    expect(plan.diagnostics).toContainEqual(
+      expect.objectContaining({ code: "descent-late", variant: "passed" })
+    );
+  });
+
+  it("rejects a target above the present altitude", () => {
+    const plan = planDescent({ ...input, targetAltitude: 12000 });
+    expect(plan.diagnostics).toContainEqual(
+      expect.objectContaining({ code: "target-above-altitude" })
+    );
+  });
+
+  it("checks the single values where the table leaves a gap", () => {
+    const table = [{ floor: 6000, ceiling: 10000, speed: 240, rate: 1000 }];
+    const covered = planDescent({
+      ...input,
+      targetAltitude: 6000,
+      descentSpeed: 0,
+      descentRate: 0,
+      descentTable: table,
+    });
+    expect(covered.diagnostics).toEqual([]);
+
+    const partial = planDescent({
+      ...input,
+      descentSpeed: 0,
+      descentRate: 0,
+      descentTable: table,
+    });
+    expect(partial.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "missing-input",
+        params: { field: "descentSpeed" },
+      }),
+      expect.objectContaining({
+        code: "missing-input",
+        params: { field: "descentRate" },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { integratePhase, roundTenth } from "./flightProfile";
+import { toDegrees, toRadians } from "./geo";
+import { PerformanceBand, phaseSegments, tableCovers } from "./performance";
+import { RateUnit, SpeedMode, SpeedUnit } from "./types";
+import { convertRate, toTrueAirspeed } from "./units";
+import { checkPositive, Diagnostic } from "./validation";
+
+export const FEET_PER_NM = 6076.12;
+export const DEFAULT_PATH_ANGLE = 3; // degrees
+
+export interface DescentPlanInput {
+  currentAltitude: number; // feet
+  targetAltitude: number; // feet
+  restrictionDistance?: number; // NM before the fix where targetAltitude applies
+  descentSpeed: number; // in speedUnit, or Mach
+  descentRate: number; // in rateUnit
+  speedUnit: SpeedUnit;
+  rateUnit: RateUnit;
+  speedMode?: SpeedMode;
+  descentTable?: PerformanceBand[];
+  isaDeviation?: number; // °C
+  headwind?: number; // kt, negative for a tailwind
+  pathAngle?: number; // degrees
+  distanceToFix?: number; // NM from the present position, when known
+}
+
+export interface DescentPlan {
+  altitudeToLose: number; // feet
+  descentDistance: number; // NM flown while descending
+  descentTime: number; // minutes
+  todDistance: number; // NM before the fix, restriction distance included
+  groundSpeed: number; // kt, mean over the descent
+  pathAngle: number; // degrees
+  pathRate: number; // ft/min to hold pathAngle at groundSpeed
+  pathTodDistance: number; // NM before the fix when flying pathAngle
+  requiredRate?: number; // ft/min from the present position
+  requiredAngle?: number; // degrees from the present position
+  distanceToTod?: number; // NM left before starting down; negative when late
+  diagnostics: Diagnostic[];
+}
+
+/** Vertical speed (ft/min) that holds a flight-path angle at a ground speed. */
+export const rateForPathAngle = (groundSpeed: number, angle: number) =>
+  ((groundSpeed * FEET_PER_NM) / 60) * Math.tan(toRadians(angle));
+
+/**
+ * Plans a descent from the present altitude to a target altitude, which must
+ * be met restrictionDistance NM before the fix. The descent itself uses the
+ * same schedule integration as the flight profile, so IAS/Mach speeds and
+ * performance tables behave identically.
+ */
+export function planDescent(input: DescentPlanInput): DescentPlan {
+  const diagnostics: Diagnostic[] = [];
+  const push = (diagnostic: Diagnostic | null) => {
+    if (diagnostic) diagnostics.push(diagnostic);
+  };
+
+  const pathAngle = input.pathAngle || DEFAULT_PATH_ANGLE;
+  const restrictionDistance = input.restrictionDistance ?? 0;
+  const altitudeToLose = input.currentAltitude - input.targetAltitude;
+
+  // The single values fly whatever part of the descent the table leaves out
+  if (
+    !tableCovers(
+      input.descentTable,
+      input.targetAltitude,
+      input.currentAltitude
+    )
+  ) {
+    push(
+      checkPositive(
+        input.descentSpeed,
+        "descent",
+        "non-positive-speed",
+        "descentSpeed"
+      )
+    );
+    push(
+      checkPositive(
+        input.descentRate,
+        "descent",
+        "non-positive-rate",
+        "descentRate"
+      )
+    );
+  }
+  if (altitudeToLose <= 0) {
+    push({
+      code: "target-above-altitude",
+      severity: "error",
+      phase: "descent",
+    });
+  }
+
+  const headwind = input.headwind ?? 0;
+  const descent = integratePhase(
+    phaseSegments(
+      input.targetAltitude,
+      input.currentAltitude,
+      input.descentTable,
+      { speed: input.descentSpeed, rate: input.descentRate }
+    ),
+    (speed, altitude, mode = input.speedMode ?? "tas") =>
+      toTrueAirspeed(
+        speed,
+        mode,
+        input.speedUnit,
+        altitude,
+        input.isaDeviation ?? 0
+      ),
+    (rate) => convertRate(rate, input.rateUnit, "ftmin"),
+    (trueAirspeed) => trueAirspeed - headwind
+  );
+
+  const groundSpeed = descent.distance / descent.timeHours;
+  const tanAngle = Math.tan(toRadians(pathAngle));
+  const todDistance = restrictionDistance + descent.distance;
+
+  let requiredRate: number | undefined;
+  let requiredAngle: number | undefined;
+  let distanceToTod: number | undefined;
+  if (input.distanceToFix !== undefined && altitudeToLose > 0) {
+    const available = input.distanceToFix - restrictionDistance;
+    distanceToTod = input.distanceToFix - todDistance;
+    if (available <= 0) {
+      push({
+        code: "descent-late",
+        severity: "error",
+        phase: "descent",
+        variant: "passed",
+      });
+    } else {
+      requiredRate = altitudeToLose / ((available / groundSpeed) * 60);
+      requiredAngle = toDegrees(
+        Math.atan(altitudeToLose / (available * FEET_PER_NM))
+      );
+      if (distanceToTod < 0) {
+        push({
+          code: "descent-late",
+          severity: "warning",
+          phase: "descent",
+          params: {
+            distance: roundTenth(-distanceToTod),
+            rate: Math.round(requiredRate),
+          },
+        });
+      }
+    }
+  }
+
+  return {
+    altitudeToLose,
+    descentDistance: roundTenth(descent.distance),
+    descentTime: Math.round(descent.timeHours * 60),
+    todDistance: roundTenth(todDistance),
+    groundSpeed: Math.round(groundSpeed),
+    pathAngle,
+    pathRate: Math.round(rateForPathAngle(groundSpeed, pathAngle)),
+    pathTodDistance: roundTenth(
+      restrictionDistance + altitudeToLose / tanAngle / FEET_PER_NM
+    ),
+    requiredRate:
+      requiredRate !== undefined ? Math.round(requiredRate) : undefined,
+    requiredAngle:
+      requiredAngle !== undefined ? roundTenth(requiredAngle) : undefined,
+    distanceToTod:
+      distanceToTod !== undefined ? roundTenth(distanceToTod) : undefined,
+    diagnostics,
+  };
+}
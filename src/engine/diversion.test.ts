@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { findCoverageGaps, sampleRoute, timeToReach } from "./diversion";
+
+const samples = (nearest: (number | undefined)[]) =>
+  nearest.map((nearestDistance, index) => ({
+    distance: index * 10,
+    nearestDistance,
+  }));
+
+describe("findCoverageGaps", () => {
+  it("joins consecutive uncovered samples into one gap", () => {
+    expect(findCoverageGaps(samples([5, 30, 40, 20, 50, 10]), 25)).toEqual([
+      { start: 10, end: 20 },
+      { start: 40, end: 40 },
+    ]);
+  });
+
+  it("keeps a gap open to the end of the route", () => {
+    expect(findCoverageGaps(samples([5, 10, 30, 35]), 25)).toEqual([
+      { start: 20, end: 30 },
+    ]);
+  });
+
+  it("counts a sample exactly at the radius as covered", () => {
+    expect(findCoverageGaps(samples([25, 25]), 25)).toEqual([]);
+  });
+
+  it("treats the whole route as a gap without any airports", () => {
+    expect(
+      findCoverageGaps(samples([undefined, undefined, undefined]), 25)
+    ).toEqual([{ start: 0, end: 20 }]);
+    expect(findCoverageGaps([], 25)).toEqual([]);
+  });
+});
+
+describe("sampleRoute", () => {
+  it("samples every spacing and always includes both ends", () => {
+    const route = sampleRoute(
+      [
+        { ident: "AAAA", coordinates: { lat: 0, lon: 0 } },
+        { ident: "BBBB", coordinates: { lat: 0, lon: 0.5 } },
+      ],
+      10
+    );
+    expect(route.map(({ distance }) => Math.round(distance))).toEqual([
+      0, 10, 20, 30, 30,
+    ]);
+    expect(route[route.length - 1].coordinates.lon).toBeCloseTo(0.5, 9);
+    expect(sampleRoute([], 10)).toEqual([]);
+  });
+});
+
+describe("timeToReach", () => {
+  it("gives minutes, or NaN without a ground speed", () => {
+    expect(timeToReach(60, 120)).toBe(30);
+    expect(timeToReach(60, 0)).toBeNaN();
+  });
+});
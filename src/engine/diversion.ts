@@ -0,0 +1,63 @@
+import { buildLegs, locateAlongRoute, routeLength } from "./route";
+import { Coordinates, Waypoint } from "./types";
+
+export const DEFAULT_SAMPLE_SPACING_NM = 10;
+
+export interface RouteSample {
+  distance: number; // NM from departure
+  coordinates: Coordinates;
+}
+
+export interface CoverageGap {
+  start: number; // NM from departure
+  end: number; // NM from departure
+}
+
+/** Points every spacing NM along the route, both ends included. */
+export function sampleRoute(
+  waypoints: Waypoint[],
+  spacing = DEFAULT_SAMPLE_SPACING_NM
+): RouteSample[] {
+  const legs = buildLegs(waypoints);
+  if (legs.length === 0 || !(spacing > 0)) return [];
+
+  const total = routeLength(legs);
+  const distances: number[] = [];
+  for (let distance = 0; distance < total; distance += spacing) {
+    distances.push(distance);
+  }
+  distances.push(total);
+
+  return distances.flatMap((distance) => {
+    const position = locateAlongRoute(legs, distance);
+    return position ? [{ distance, coordinates: position.coordinates }] : [];
+  });
+}
+
+/**
+ * Stretches of the route whose samples have no airport within the radius.
+ * Gap edges are only as precise as the sample spacing.
+ */
+export function findCoverageGaps(
+  samples: { distance: number; nearestDistance?: number }[],
+  radius: number
+): CoverageGap[] {
+  const gaps: CoverageGap[] = [];
+  let open: CoverageGap | undefined;
+  samples.forEach(({ distance, nearestDistance }) => {
+    const covered = nearestDistance !== undefined && nearestDistance <= radius;
+    if (!covered) {
+      if (open) open.end = distance;
+      else open = { start: distance, end: distance };
+    } else if (open) {
+      gaps.push(open);
+      open = undefined;
+    }
+  });
+  if (open) gaps.push(open);
+  return gaps;
+}
+
+/** Minutes to cover a distance at a ground speed in knots. */
+export const timeToReach = (distance: number, groundSpeed: number) =>
+  groundSpeed > 0 ? (distance / groundSpeed) * 60 : NaN;
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateFlightProfile,
+  FlightProfileInput,
+  UNKNOWN_ROUTE_PADDING_NM,
+} from "./flightProfile";
+import { greatCircleDistance } from "./geo";
+import { isPhaseComputable } from "./validation";
+
+const SBMT = {
+  icao: "SBMT",
+  elevation: 2369,
+  coordinates: { lat: -23.509, lon: -46.6378 },
+};
+const SBRJ = {
+  icao: "SBRJ",
+  elevation: 11,
+  coordinates: { lat: -22.9105, lon: -43.1631 },
+};
+
+// TAS in knots and ft/min, so every phase is a straight division
+const baseInput: FlightProfileInput = {
+  cruiseAltitude: 8500,
+  climbSpeed: 90,
+  cruiseSpeed: 120,
+  descentSpeed: 120,
+  climbRate: 500,
+  descentRate: 500,
+  speedUnit: "kt",
+  rateUnit: "ftmin",
+  date: new Date("2025-06-01T00:00:00Z"),
+};
+
+describe("calculateFlightProfile", () => {
+  describe("climb", () => {
+    it("climbs from the departure elevation at the entered rate", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        departure: { icao: "SBMT", elevation: 2500 },
+      });
+      // 6000 ft at 500 ft/min: 12 min at 90 kt
+      expect(result.climbTime).toBe(12);
+      expect(result.tocDistance).toBe(18);
+      expect(result.tocTrueAirspeed).toBe(90);
+    });
+
+    it("climbs from sea level without a departure", () => {
+      const result = calculateFlightProfile(baseInput);
+      expect(result.climbTime).toBe(17);
+      expect(result.tocDistance).toBeCloseTo((8500 / 500 / 60) * 90, 1);
+    });
+
+    it("converts the climb rate from m/s", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        climbRate: 500 * 0.00508,
+        rateUnit: "ms",
+        descentRate: 500 * 0.00508,
+      });
+      expect(result.climbTime).toBe(17);
+    });
+
+    it("reports the climb as not computable without a climb rate", () => {
+      const result = calculateFlightProfile({ ...baseInput, climbRate: 0 });
+      expect(isPhaseComputable(result.diagnostics, "climb")).toBe(false);
+      expect(isPhaseComputable(result.diagnostics, "descent")).toBe(true);
+    });
+  });
+
+  describe("descent", () => {
+    it("descends to the arrival elevation at the entered rate", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        arrival: { icao: "SBRJ", elevation: 500 },
+      });
+      // 8000 ft at 500 ft/min: 16 min at 120 kt
+      expect(result.descentTime).toBe(16);
+      expect(result.todDistance).toBe(32);
+    });
+
+    it("reports the descent as not computable with a negative speed", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        descentSpeed: -120,
+      });
+      expect(isPhaseComputable(result.diagnostics, "descent")).toBe(false);
+      expect(result.diagnostics).toContainEqual(
+        expect.objectContaining({ code: "non-positive-speed" })
+      );
+    });
+  });
+
+  describe("route distance", () => {
+    it("uses the great circle distance between the airports", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        departure: SBMT,
+        arrival: SBRJ,
+      });
+      const distance = greatCircleDistance(SBMT.coordinates, SBRJ.coordinates);
+      expect(result.totalDistance).toBeCloseTo(distance, 1);
+      expect(result.legs).toHaveLength(1);
+      expect(result.toc?.legIndex).toBe(0);
+      // Each phase time is rounded on its own
+      expect(
+        Math.abs(
+          result.totalTime -
+            (result.climbTime + result.cruiseTime + result.descentTime)
+        )
+      ).toBeLessThanOrEqual(1);
+    });
+
+    it("measures a degree of arc as 60 NM", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        departure: { icao: "A", elevation: 0, coordinates: { lat: 0, lon: 0 } },
+        arrival: { icao: "B", elevation: 0, coordinates: { lat: 0, lon: 1 } },
+      });
+      expect(result.totalDistance).toBe(60);
+      expect(result.trueCourse).toBeCloseTo(90, 6);
+    });
+
+    it("sums the legs through intermediate fixes", () => {
+      const fix = { ident: "PIRAI", coordinates: { lat: -22.6, lon: -44.5 } };
+      const result = calculateFlightProfile({
+        ...baseInput,
+        departure: SBMT,
+        arrival: SBRJ,
+        route: [fix],
+      });
+      expect(result.legs).toHaveLength(2);
+      expect(result.totalDistance).toBeCloseTo(
+        greatCircleDistance(SBMT.coordinates, fix.coordinates) +
+          greatCircleDistance(fix.coordinates, SBRJ.coordinates),
+        1
+      );
+    });
+  });
+
+  describe("unknown route", () => {
+    it("pads climb and descent by 100 NM without coordinates", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        departure: { icao: "SBMT", elevation: 2500 },
+        arrival: { icao: "SBRJ", elevation: 500 },
+      });
+      expect(UNKNOWN_ROUTE_PADDING_NM).toBe(100);
+      expect(result.totalDistance).toBe(18 + 32 + 100);
+      // 100 NM of cruise at 120 kt
+      expect(result.cruiseTime).toBe(50);
+      expect(result.legs).toEqual([]);
+      expect(result.toc).toBeUndefined();
+    });
+
+    it("pads when only one airport has coordinates", () => {
+      const result = calculateFlightProfile({
+        ...baseInput,
+        departure: SBMT,
+        arrival: { icao: "SBRJ", elevation: 11 },
+      });
+      expect(result.totalDistance).toBeCloseTo(
+        result.tocDistance + result.todDistance + UNKNOWN_ROUTE_PADDING_NM,
+        0
+      );
+    });
+  });
+});
+
+describe("best achievable altitude", () => {
+  // 30 NM leg flown at indicated airspeed, so the phases stretch with altitude
+  const shortLeg: FlightProfileInput = {
+    ...baseInput,
+    cruiseAltitude: 12000,
+    speedModes: { climb: "ias", cruise: "ias", descent: "ias" },
+    departure: { icao: "AAAA", elevation: 0, coordinates: { lat: 0, lon: 0 } },
+    arrival: { icao: "BBBB", elevation: 0, coordinates: { lat: 0, lon: 0.5 } },
+  };
+  const descentBeforeToc = (cruiseAltitude: number) =>
+    calculateFlightProfile({ ...shortLeg, cruiseAltitude }).diagnostics.some(
+      (d) => d.code === "descent-before-toc"
+    );
+
+  it("is the highest altitude that still fits the leg", () => {
+    const { bestAltitude } = calculateFlightProfile(shortLeg);
+    expect(bestAltitude).toBeDefined();
+    const best = bestAltitude as number;
+    expect(best % 100).toBe(0);
+    expect(descentBeforeToc(best)).toBe(false);
+    expect(descentBeforeToc(best + 200)).toBe(true);
+  });
+
+  it("is left out when the entered altitude fits", () => {
+    const result = calculateFlightProfile({
+      ...shortLeg,
+      cruiseAltitude: 3000,
+    });
+    expect(descentBeforeToc(3000)).toBe(false);
+    expect(result.bestAltitude).toBeUndefined();
+  });
+});
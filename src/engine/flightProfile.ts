@@ -0,0 +1,398 @@
+import { magneticVariation, trueToMagnetic } from "./magnetic";
+import { PerformanceBand, PhaseSegment, phaseSegments } from "./performance";
+import {
+  buildLegs,
+  legOverlap,
+  locateAlongRoute,
+  RouteLeg,
+  routeLength,
+  RoutePosition,
+} from "./route";
+import { Airport, RateUnit, SpeedMode, SpeedUnit, Waypoint } from "./types";
+import { convertRate, convertSpeed, toTrueAirspeed } from "./units";
+import { Diagnostic, validateFlightProfile } from "./validation";
+import {
+  averageBandWind,
+  CALM,
+  FlightPhase,
+  solveWindTriangle,
+  Wind,
+  WindProfile,
+  WindSolution,
+} from "./wind";
+
+// Added to the climb + descent distances when the route length is unknown
+export const UNKNOWN_ROUTE_PADDING_NM = 100;
+
+// Height of each slice when integrating climb and descent over altitude
+export const ALTITUDE_STEP_FT = 500;
+
+export interface FlightProfileInput {
+  cruiseAltitude: number; // feet
+  climbSpeed: number; // in speedUnit, or Mach number
+  cruiseSpeed: number; // in speedUnit, or Mach number
+  descentSpeed: number; // in speedUnit, or Mach number
+  climbRate: number; // in rateUnit
+  descentRate: number; // in rateUnit
+  speedUnit: SpeedUnit;
+  rateUnit: RateUnit;
+  departure?: Airport;
+  arrival?: Airport;
+  route?: Waypoint[]; // intermediate fixes between departure and arrival
+  climbTable?: PerformanceBand[]; // overrides climbSpeed/climbRate per band
+  descentTable?: PerformanceBand[]; // overrides descentSpeed/descentRate per band
+  speedModes?: Partial<Record<FlightPhase, SpeedMode>>; // defaults to TAS
+  isaDeviation?: number; // °C
+  winds?: WindProfile; // wind speeds in speedUnit
+  serviceCeiling?: number; // feet, from the aircraft profile
+  date?: Date; // for magnetic variation, defaults to today
+}
+
+export interface ProfilePoint {
+  distance: number; // NM from departure
+  altitude: number; // feet
+  time: number; // minutes elapsed since departure
+}
+
+export interface BandBreakdown {
+  floor: number; // feet
+  ceiling: number; // feet
+  distance: number; // NM
+  time: number; // minutes
+}
+
+export interface LegResult {
+  from: string;
+  to: string;
+  trueCourse: number; // degrees
+  variation: number; // degrees, east positive, where the leg starts
+  magneticCourse: number; // degrees
+  heading: number; // degrees magnetic, corrected for the cruise wind
+  groundSpeed: number; // kt, mean over the leg
+  distance: number; // NM
+  ete: number; // minutes
+  endDistance: number; // NM from departure to the leg end, unrounded
+  endTime: number; // minutes from takeoff to the leg end, unrounded
+}
+
+export interface CalculationResult {
+  tocDistance: number; // NM
+  todDistance: number; // NM
+  totalDistance: number; // NM
+  climbTime: number; // minutes
+  cruiseTime: number; // minutes
+  descentTime: number; // minutes
+  totalTime: number; // minutes
+  tocTrueAirspeed: number; // kt, climb TAS on reaching cruise altitude
+  cruiseTrueAirspeed: number; // kt
+  trueCourse?: number; // degrees, initial course of the first leg
+  magneticCourse?: number; // degrees, initial course of the first leg
+  legs: LegResult[]; // empty when the route is unknown
+  toc?: RoutePosition;
+  tod?: RoutePosition;
+  profile: ProfilePoint[]; // vertical profile from departure to arrival
+  climbBands: BandBreakdown[]; // from departure elevation up
+  descentBands: BandBreakdown[]; // from arrival elevation up
+  wind?: Record<FlightPhase, WindSolution>; // set when winds apply
+  diagnostics: Diagnostic[];
+  bestAltitude?: number; // feet, set when the leg is too short for cruiseAltitude
+}
+
+export const roundTenth = (value: number): number =>
+  Math.round(value * 10) / 10;
+
+const roundPosition = (position: RoutePosition): RoutePosition => ({
+  ...position,
+  distanceFromFix: roundTenth(position.distanceFromFix),
+});
+
+export interface PhaseIntegration {
+  timeHours: number;
+  distance: number; // NM over the ground
+  airDistance: number; // NM through the air mass
+  points: ProfilePoint[]; // cumulative from the lower altitude
+  bands: BandBreakdown[];
+}
+
+/**
+ * Integrates a climb or descent segment by segment, each in
+ * ALTITUDE_STEP_FT slices, since the true airspeed of an IAS or Mach
+ * schedule changes with altitude.
+ */
+export const integratePhase = (
+  segments: PhaseSegment[],
+  trueAirspeedAt: (speed: number, altitude: number, mode?: SpeedMode) => number,
+  rateFtMin: (rate: number) => number,
+  groundSpeedFor: (trueAirspeed: number) => number
+): PhaseIntegration => {
+  let distance = 0;
+  let airDistance = 0;
+  let timeHours = 0;
+  const points: ProfilePoint[] = [
+    { distance: 0, altitude: segments[0].floor, time: 0 },
+  ];
+  const bands: BandBreakdown[] = [];
+
+  segments.forEach((segment) => {
+    const height = segment.ceiling - segment.floor;
+    const steps = Math.max(1, Math.ceil(Math.abs(height) / ALTITUDE_STEP_FT));
+    const stepHeight = height / steps;
+    const stepHours = stepHeight / (rateFtMin(segment.rate) * 60);
+    const startDistance = distance;
+
+    for (let i = 0; i < steps; i++) {
+      const altitude = segment.floor + stepHeight * (i + 0.5);
+      const trueAirspeed = trueAirspeedAt(
+        segment.speed,
+        altitude,
+        segment.mode
+      );
+      airDistance += trueAirspeed * stepHours;
+      distance += groundSpeedFor(trueAirspeed) * stepHours;
+      timeHours += stepHours;
+      points.push({
+        distance,
+        altitude: segment.floor + stepHeight * (i + 1),
+        time: timeHours * 60,
+      });
+    }
+
+    bands.push({
+      floor: segment.floor,
+      ceiling: segment.ceiling,
+      distance: roundTenth(distance - startDistance),
+      time: roundTenth(stepHours * steps * 60),
+    });
+  });
+
+  return { timeHours, distance, airDistance, points, bands };
+};
+
+const phaseWind = (
+  input: FlightProfileInput,
+  phase: FlightPhase,
+  lower: number,
+  upper: number
+): Wind => {
+  const winds = input.winds;
+  const wind =
+    winds?.mode === "bands"
+      ? averageBandWind(winds.bands, lower, upper)
+      : winds?.[phase];
+  return {
+    direction: wind?.direction ?? 0,
+    speed: convertSpeed(wind?.speed ?? 0, input.speedUnit, "kt"),
+  };
+};
+
+export function calculateFlightProfile(
+  input: FlightProfileInput
+): CalculationResult {
+  const isaDeviation = input.isaDeviation ?? 0;
+  const trueAirspeed = (phase: FlightPhase) => {
+    const phaseMode = input.speedModes?.[phase] ?? "tas";
+    return (speed: number, altitude: number, mode = phaseMode) =>
+      toTrueAirspeed(speed, mode, input.speedUnit, altitude, isaDeviation);
+  };
+  const cruiseSpeedKt = trueAirspeed("cruise")(
+    input.cruiseSpeed,
+    input.cruiseAltitude
+  );
+
+  // Convert rates to ft/min for calculations
+  const rateFtMin = (rate: number) =>
+    convertRate(rate, input.rateUnit, "ftmin");
+
+  const departureElevation = input.departure?.elevation || 0;
+  const arrivalElevation = input.arrival?.elevation || 0;
+
+  // Route legs, known only when both airports have coordinates
+  let legs: RouteLeg[] = [];
+  const { departure, arrival } = input;
+  if (departure?.coordinates && arrival?.coordinates) {
+    legs = buildLegs([
+      { ident: departure.icao, coordinates: departure.coordinates },
+      ...(input.route ?? []),
+      { ident: arrival.icao, coordinates: arrival.coordinates },
+    ]);
+  }
+  const routeKnown = legs.length > 0;
+  const firstCourse = routeKnown ? legs[0].trueCourse : undefined;
+  const lastCourse = routeKnown ? legs[legs.length - 1].trueCourse : undefined;
+
+  // Winds can only be resolved against a known course
+  const phaseWinds: Partial<Record<FlightPhase, Wind>> = {};
+  if (routeKnown && input.winds) {
+    const top = input.cruiseAltitude;
+    phaseWinds.climb = phaseWind(input, "climb", departureElevation, top);
+    phaseWinds.cruise = phaseWind(input, "cruise", top, top);
+    phaseWinds.descent = phaseWind(input, "descent", arrivalElevation, top);
+  }
+
+  const groundSpeed = (phase: FlightPhase, course: number | undefined) => {
+    const wind = phaseWinds[phase];
+    return (tas: number) =>
+      course !== undefined && wind
+        ? solveWindTriangle(course, tas, wind).groundSpeed
+        : tas;
+  };
+
+  // Climb on the first leg and descent on the last, the descent integrated
+  // from the field up, to any cruise altitude: validation also tries lower ones
+  const climbSegmentsTo = (top: number) =>
+    phaseSegments(departureElevation, top, input.climbTable, {
+      speed: input.climbSpeed,
+      rate: input.climbRate,
+    });
+  const climbTo = (top: number) =>
+    integratePhase(
+      climbSegmentsTo(top),
+      trueAirspeed("climb"),
+      rateFtMin,
+      groundSpeed("climb", firstCourse)
+    );
+  const descentFrom = (top: number) =>
+    integratePhase(
+      phaseSegments(arrivalElevation, top, input.descentTable, {
+        speed: input.descentSpeed,
+        rate: input.descentRate,
+      }),
+      trueAirspeed("descent"),
+      rateFtMin,
+      groundSpeed("descent", lastCourse)
+    );
+
+  const climbSegments = climbSegmentsTo(input.cruiseAltitude);
+  const climb = climbTo(input.cruiseAltitude);
+  const climbTimeHours = climb.timeHours;
+  const tocDistance = climb.distance;
+
+  const descent = descentFrom(input.cruiseAltitude);
+  const descentTimeHours = descent.timeHours;
+  const todDistance = descent.distance;
+
+  // Total distance is the sum of the legs, padded when the route is unknown
+  const totalDistance = routeKnown
+    ? routeLength(legs)
+    : tocDistance + todDistance + UNKNOWN_ROUTE_PADDING_NM;
+
+  const toc = locateAlongRoute(legs, tocDistance);
+  const tod = locateAlongRoute(legs, totalDistance - todDistance);
+  const tocCourse = toc ? legs[toc.legIndex].trueCourse : undefined;
+
+  // Calculate cruise time, leg by leg when the route is known
+  const cruiseStart = tocDistance;
+  const cruiseEnd = totalDistance - todDistance;
+  const cruiseGroundSpeed = (course: number | undefined) =>
+    groundSpeed("cruise", course)(cruiseSpeedKt);
+  const cruiseTimeHours =
+    routeKnown && cruiseEnd > cruiseStart
+      ? legs.reduce(
+          (hours, leg) =>
+            hours +
+            legOverlap(leg, cruiseStart, cruiseEnd) /
+              cruiseGroundSpeed(leg.trueCourse),
+          0
+        )
+      : (cruiseEnd - cruiseStart) / cruiseGroundSpeed(tocCourse);
+
+  // Wind triangles reported per phase, at the phase mean true airspeed
+  let wind: Record<FlightPhase, WindSolution> | undefined;
+  if (routeKnown && input.winds) {
+    const solve = (phase: FlightPhase, tas: number, course = 0) =>
+      solveWindTriangle(course, tas, phaseWinds[phase] ?? CALM);
+    wind = {
+      climb: solve("climb", climb.airDistance / climbTimeHours, firstCourse),
+      cruise: solve("cruise", cruiseSpeedKt, tocCourse),
+      descent: solve(
+        "descent",
+        descent.airDistance / descentTimeHours,
+        lastCourse
+      ),
+    };
+  }
+
+  // Each leg is timed with the ground speed of the phases it spans, and
+  // headed with the cruise wind correction on its magnetic course
+  const climbGroundSpeed = tocDistance / climbTimeHours;
+  const descentGroundSpeed = todDistance / descentTimeHours;
+  const date = input.date ?? new Date();
+  let endDistance = 0;
+  let endHours = 0;
+  const legResults: LegResult[] = legs.map((leg) => {
+    const hours =
+      legOverlap(leg, 0, tocDistance) / climbGroundSpeed +
+      legOverlap(leg, cruiseStart, cruiseEnd) /
+        cruiseGroundSpeed(leg.trueCourse) +
+      legOverlap(leg, cruiseEnd, totalDistance) / descentGroundSpeed;
+    endDistance += leg.distance;
+    endHours += hours;
+    const variation = magneticVariation(leg.from.coordinates, date);
+    const { heading } = solveWindTriangle(
+      leg.trueCourse,
+      cruiseSpeedKt,
+      phaseWinds.cruise ?? CALM
+    );
+    return {
+      from: leg.from.ident,
+      to: leg.to.ident,
+      trueCourse: leg.trueCourse,
+      variation,
+      magneticCourse: trueToMagnetic(leg.trueCourse, variation),
+      heading: trueToMagnetic(heading, variation),
+      groundSpeed: leg.distance / hours,
+      distance: roundTenth(leg.distance),
+      ete: Math.round(hours * 60),
+      endDistance,
+      endTime: endHours * 60,
+    };
+  });
+
+  // Vertical profile: climb, level cruise, then the descent run backwards
+  const totalTimeMinutes =
+    (climbTimeHours + cruiseTimeHours + descentTimeHours) * 60;
+  const profile: ProfilePoint[] = [
+    ...climb.points,
+    ...descent.points.reverse().map((point) => ({
+      distance: totalDistance - point.distance,
+      altitude: point.altitude,
+      time: totalTimeMinutes - point.time,
+    })),
+  ];
+
+  const { diagnostics, bestAltitude } = validateFlightProfile(input, {
+    tocDistance,
+    todDistance,
+    totalDistance,
+    routeKnown,
+    wind,
+    phaseDistance: (top) => climbTo(top).distance + descentFrom(top).distance,
+  });
+
+  return {
+    tocDistance: roundTenth(tocDistance),
+    todDistance: roundTenth(todDistance),
+    totalDistance: roundTenth(totalDistance),
+    climbTime: Math.round(climbTimeHours * 60),
+    cruiseTime: Math.round(cruiseTimeHours * 60),
+    descentTime: Math.round(descentTimeHours * 60),
+    totalTime: Math.round(totalTimeMinutes),
+    tocTrueAirspeed: trueAirspeed("climb")(
+      climbSegments[climbSegments.length - 1].speed,
+      input.cruiseAltitude,
+      climbSegments[climbSegments.length - 1].mode
+    ),
+    cruiseTrueAirspeed: cruiseSpeedKt,
+    trueCourse: firstCourse,
+    magneticCourse: legResults[0]?.magneticCourse,
+    legs: legResults,
+    toc: toc && roundPosition(toc),
+    tod: tod && roundPosition(tod),
+    profile,
+    climbBands: climb.bands,
+    descentBands: descent.bands,
+    wind,
+    diagnostics,
+    bestAltitude,
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { calculateFuelPlan, convertFuel, FuelPlanInput } from "./fuel";
+
+const settings: FuelPlanInput = {
+  unit: "l",
+  fuelType: "avgas",
+  climbFlow: 60,
+  cruiseFlow: 36,
+  descentFlow: 24,
+  taxi: 5,
+  contingencyPercent: 10,
+  finalReserveMinutes: 45,
+};
+
+const times = { climb: 20, cruise: 60, descent: 30 };
+
+describe("convertFuel", () => {
+  it("keeps the amount in the same unit", () => {
+    expect(convertFuel(100, "l", "l", "avgas")).toBe(100);
+  });
+
+  it("converts volume to weight with the fuel density", () => {
+    expect(convertFuel(100, "l", "kg", "avgas")).toBeCloseTo(72, 6);
+    expect(convertFuel(100, "l", "kg", "jeta1")).toBeCloseTo(80, 6);
+  });
+
+  it("converts US gallons and pounds", () => {
+    expect(convertFuel(1, "gal", "l", "avgas")).toBeCloseTo(3.785, 3);
+    expect(convertFuel(1, "kg", "lb", "jeta1")).toBeCloseTo(2.2046, 4);
+  });
+
+  it("round-trips through weight", () => {
+    const kg = convertFuel(50, "gal", "kg", "jeta1");
+    expect(convertFuel(kg, "kg", "gal", "jeta1")).toBeCloseTo(50, 9);
+  });
+});
+
+describe("calculateFuelPlan", () => {
+  it("burns each phase at its own flow", () => {
+    const plan = calculateFuelPlan(times, settings);
+    expect(plan.climb).toBe(20);
+    expect(plan.cruise).toBe(36);
+    expect(plan.descent).toBe(12);
+    expect(plan.trip).toBe(68);
+  });
+
+  it("adds contingency, final reserve and taxi", () => {
+    const plan = calculateFuelPlan(times, settings);
+    expect(plan.contingency).toBe(6.8);
+    expect(plan.finalReserve).toBe(27);
+    expect(plan.minimum).toBe(101.8);
+    expect(plan.block).toBe(106.8);
+    expect(plan.diagnostics).toEqual([]);
+  });
+
+  it("flies the alternate at cruise speed and flow", () => {
+    const plan = calculateFuelPlan(times, {
+      ...settings,
+      arrival: { lat: 0, lon: 0 },
+      alternate: { lat: 0, lon: 1 },
+      cruiseGroundSpeed: 120,
+    });
+    expect(plan.alternateDistance).toBe(60);
+    // 30 minutes at 36 L/h
+    expect(plan.alternate).toBeCloseTo(18, 1);
+  });
+
+  it("asks for the cruise flow when missing", () => {
+    const plan = calculateFuelPlan(times, { ...settings, cruiseFlow: 0 });
+    expect(plan.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "missing-input",
+        params: { field: "cruiseFlow" },
+      })
+    );
+  });
+
+  it("flags a block fuel above the usable capacity", () => {
+    const plan = calculateFuelPlan(times, {
+      ...settings,
+      usableCapacity: 100,
+    });
+    expect(plan.capacity).toBe(100);
+    expect(plan.margin).toBe(-6.8);
+    expect(plan.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "fuel-exceeds-capacity",
+        params: { amount: 6.8, unit: "L" },
+      })
+    );
+  });
+
+  it("converts the capacity into the planning unit", () => {
+    const plan = calculateFuelPlan(times, {
+      ...settings,
+      usableCapacity: 40,
+      capacityUnit: "gal",
+    });
+    expect(plan.capacity).toBe(151.4);
+    expect(plan.margin).toBe(44.6);
+  });
+});
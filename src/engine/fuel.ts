@@ -0,0 +1,171 @@
+import { greatCircleDistance } from "./geo";
+import { Coordinates } from "./types";
+import { Diagnostic } from "./validation";
+
+export type FuelType = "avgas" | "jeta1";
+// Quantity units; fuel flows are the same units per hour
+export type FuelUnit = "l" | "gal" | "kg" | "lb";
+
+export const fuelUnitLabels: Record<FuelUnit, string> = {
+  l: "L",
+  gal: "gal",
+  kg: "kg",
+  lb: "lb",
+};
+
+// Typical densities at 15 °C, kg per litre
+export const FUEL_DENSITY: Record<FuelType, number> = {
+  avgas: 0.72,
+  jeta1: 0.8,
+};
+
+const LITRES_PER_US_GALLON = 3.785411784;
+const KG_PER_LB = 0.45359237;
+
+const toKg = (amount: number, unit: FuelUnit, fuelType: FuelType) => {
+  switch (unit) {
+    case "kg":
+      return amount;
+    case "lb":
+      return amount * KG_PER_LB;
+    case "l":
+      return amount * FUEL_DENSITY[fuelType];
+    case "gal":
+      return amount * LITRES_PER_US_GALLON * FUEL_DENSITY[fuelType];
+  }
+};
+
+/** Converts a fuel quantity between volume and weight units. */
+export const convertFuel = (
+  amount: number,
+  from: FuelUnit,
+  to: FuelUnit,
+  fuelType: FuelType
+): number => {
+  if (from === to) return amount;
+  return (amount / toKg(1, to, fuelType)) * toKg(1, from, fuelType);
+};
+
+export interface FuelSettings {
+  unit: FuelUnit;
+  fuelType: FuelType;
+  climbFlow: number; // unit per hour
+  cruiseFlow: number; // unit per hour
+  descentFlow: number; // unit per hour
+  taxi: number; // unit
+  contingencyPercent: number; // of trip fuel
+  finalReserveMinutes: number; // held at cruise flow, usually 30 or 45
+  usableCapacity?: number; // in capacityUnit
+  capacityUnit?: FuelUnit; // defaults to unit
+}
+
+export interface FuelPlanInput extends FuelSettings {
+  // Alternate leg, flown at cruise speed and flow from the arrival airport
+  arrival?: Coordinates;
+  alternate?: Coordinates;
+  cruiseGroundSpeed?: number; // kt
+}
+
+export interface PhaseTimes {
+  climb: number; // minutes
+  cruise: number; // minutes
+  descent: number; // minutes
+}
+
+export interface FuelPlan {
+  climb: number;
+  cruise: number;
+  descent: number;
+  trip: number;
+  taxi: number;
+  contingency: number;
+  alternate: number;
+  alternateDistance?: number; // NM
+  finalReserve: number;
+  minimum: number; // required at takeoff
+  block: number; // minimum plus taxi
+  capacity?: number; // usable capacity converted to unit
+  margin?: number; // capacity minus block
+  diagnostics: Diagnostic[];
+}
+
+const roundFuel = (value: number) => Math.round(value * 10) / 10;
+
+export function calculateFuelPlan(
+  times: PhaseTimes,
+  input: FuelPlanInput
+): FuelPlan {
+  const diagnostics: Diagnostic[] = [];
+
+  const climb = (times.climb / 60) * input.climbFlow;
+  const cruise = (times.cruise / 60) * input.cruiseFlow;
+  const descent = (times.descent / 60) * input.descentFlow;
+  const trip = climb + cruise + descent;
+  const contingency = (trip * input.contingencyPercent) / 100;
+  const finalReserve = (input.finalReserveMinutes / 60) * input.cruiseFlow;
+
+  let alternate = 0;
+  let alternateDistance: number | undefined;
+  if (input.arrival && input.alternate) {
+    alternateDistance = greatCircleDistance(input.arrival, input.alternate);
+    if (input.cruiseGroundSpeed && input.cruiseGroundSpeed > 0) {
+      alternate =
+        (alternateDistance / input.cruiseGroundSpeed) * input.cruiseFlow;
+    }
+  }
+
+  const minimum = trip + contingency + alternate + finalReserve;
+  const block = minimum + input.taxi;
+
+  if (!(input.cruiseFlow > 0)) {
+    diagnostics.push({
+      code: "missing-input",
+      severity: "info",
+      phase: "total",
+      params: { field: "cruiseFlow" },
+    });
+  }
+
+  let capacity: number | undefined;
+  let margin: number | undefined;
+  if (input.usableCapacity && input.usableCapacity > 0) {
+    capacity = convertFuel(
+      input.usableCapacity,
+      input.capacityUnit ?? input.unit,
+      input.unit,
+      input.fuelType
+    );
+    margin = capacity - block;
+    if (margin < 0) {
+      diagnostics.push({
+        code: "fuel-exceeds-capacity",
+        severity: "error",
+        phase: "total",
+        params: {
+          amount: roundFuel(-margin),
+          unit: fuelUnitLabels[input.unit],
+        },
+      });
+    }
+  }
+
+  return {
+    climb: roundFuel(climb),
+    cruise: roundFuel(cruise),
+    descent: roundFuel(descent),
+    trip: roundFuel(trip),
+    taxi: roundFuel(input.taxi),
+    contingency: roundFuel(contingency),
+    alternate: roundFuel(alternate),
+    alternateDistance:
+      alternateDistance !== undefined
+        ? roundFuel(alternateDistance)
+        : undefined,
+    finalReserve: roundFuel(finalReserve),
+    minimum: roundFuel(minimum),
+    block: roundFuel(block),
+    capacity: capacity !== undefined ? roundFuel(capacity) : undefined,
+    margin: margin !== undefined ? roundFuel(margin) : undefined,
+    diagnostics,
+  };
+}
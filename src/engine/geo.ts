@@ -0,0 +1,82 @@
+import { Coordinates } from "./types";
+
+export const EARTH_RADIUS_NM = 3440.065;
+
+export const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great circle distance in nautical miles between two points (haversine).
+ */
+export const greatCircleDistance = (
+  from: Coordinates,
+  to: Coordinates
+): number => {
+  const lat1 = toRadians(from.lat);
+  const lon1 = toRadians(from.lon);
+  const lat2 = toRadians(to.lat);
+  const lon2 = toRadians(to.lon);
+
+  const dlon = lon2 - lon1;
+  const dlat = lat2 - lat1;
+  const a =
+    Math.sin(dlat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dlon / 2) ** 2;
+  const c = 2 * Math.asin(Math.sqrt(a));
+
+  return EARTH_RADIUS_NM * c;
+};
+
+export const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+export const normalizeDegrees = (degrees: number): number =>
+  ((degrees % 360) + 360) % 360;
+
+/**
+ * Initial true course in degrees (0-360) of the great circle from one point
+ * to another.
+ */
+export const initialTrueCourse = (
+  from: Coordinates,
+  to: Coordinates
+): number => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dlon = toRadians(to.lon - from.lon);
+
+  const y = Math.sin(dlon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dlon);
+
+  return normalizeDegrees(toDegrees(Math.atan2(y, x)));
+};
+
+/**
+ * Point at a fraction (0-1) of the great circle between two points.
+ */
+export const intermediatePoint = (
+  from: Coordinates,
+  to: Coordinates,
+  fraction: number
+): Coordinates => {
+  const angular = greatCircleDistance(from, to) / EARTH_RADIUS_NM;
+  if (angular === 0) return { ...from };
+
+  const lat1 = toRadians(from.lat);
+  const lon1 = toRadians(from.lon);
+  const lat2 = toRadians(to.lat);
+  const lon2 = toRadians(to.lon);
+
+  const a = Math.sin((1 - fraction) * angular) / Math.sin(angular);
+  const b = Math.sin(fraction * angular) / Math.sin(angular);
+  const x =
+    a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+  const y =
+    a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+  const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+  return {
+    lat: toDegrees(Math.atan2(z, Math.hypot(x, y))),
+    lon: toDegrees(Math.atan2(y, x)),
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  decimalYear,
+  formatVariation,
+  magneticVariation,
+  trueToMagnetic,
+} from "./magnetic";
+
+// Reference declinations from an independent WMM2025 implementation
+const EPOCH = new Date("2025-01-01T00:00:00Z");
+
+describe("decimalYear", () => {
+  it("counts the fraction of the year elapsed", () => {
+    expect(decimalYear(EPOCH)).toBe(2025);
+    expect(decimalYear(new Date("2027-07-02T12:00:00Z"))).toBeCloseTo(
+      2027.5,
+      2
+    );
+  });
+});
+
+describe("magneticVariation", () => {
+  it("matches the model at the epoch", () => {
+    expect(magneticVariation({ lat: -23.55, lon: -46.63 }, EPOCH)).toBeCloseTo(
+      -21.79,
+      1
+    );
+    expect(magneticVariation({ lat: -15.87, lon: -47.92 }, EPOCH)).toBeCloseTo(
+      -22.03,
+      1
+    );
+    expect(magneticVariation({ lat: 40.7, lon: -74 }, EPOCH)).toBeCloseTo(
+      -12.53,
+      1
+    );
+    expect(magneticVariation({ lat: 51.5, lon: -0.12 }, EPOCH)).toBeCloseTo(
+      0.91,
+      1
+    );
+  });
+
+  it("applies the secular change for later dates", () => {
+    const date = new Date("2027-07-02T12:00:00Z");
+    expect(magneticVariation({ lat: -3.78, lon: -38.53 }, date)).toBeCloseTo(
+      -20.17,
+      1
+    );
+  });
+
+  it("accounts for the altitude", () => {
+    const date = new Date("2027-07-02T12:00:00Z");
+    expect(
+      magneticVariation({ lat: -23.55, lon: -46.63 }, date, 10000)
+    ).toBeCloseTo(-21.92, 1);
+  });
+});
+
+describe("trueToMagnetic", () => {
+  it("adds a west variation and subtracts an east one", () => {
+    expect(trueToMagnetic(90, -21.5)).toBeCloseTo(111.5, 6);
+    expect(trueToMagnetic(10, 15)).toBeCloseTo(355, 6);
+  });
+});
+
+describe("formatVariation", () => {
+  it("writes the hemisphere letter", () => {
+    expect(formatVariation(-21.43)).toBe("21.4° W");
+    expect(formatVariation(3)).toBe("3.0° E");
+  });
+});
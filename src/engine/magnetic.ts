@@ -0,0 +1,122 @@
+import { WMM_EPOCH, wmmCoefficients } from "../data/wmm2025";
+import { normalizeDegrees, toDegrees, toRadians } from "./geo";
+import { Coordinates } from "./types";
+
+// WGS84 ellipsoid and the model's reference radius, km
+const WGS84_A = 6378.137;
+const WGS84_B = 6356.7523142;
+const REFERENCE_RADIUS = 6371.2;
+const MAX_DEGREE = 12;
+
+/** Decimal year, e.g. 2025.5 for early July 2025. */
+export const decimalYear = (date: Date): number => {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+};
+
+// Schmidt semi-normalisation factors, computed once
+const schmidt: number[][] = [];
+for (let n = 0; n <= MAX_DEGREE; n++) {
+  schmidt[n] = [];
+  schmidt[n][0] = n === 0 ? 1 : (schmidt[n - 1][0] * (2 * n - 1)) / n;
+  for (let m = 1; m <= n; m++) {
+    schmidt[n][m] =
+      schmidt[n][m - 1] *
+      Math.sqrt(((n - m + 1) * (m === 1 ? 2 : 1)) / (n + m));
+  }
+}
+
+/**
+ * Magnetic variation (declination) in degrees, east positive, from the
+ * bundled World Magnetic Model. Secular change is extrapolated linearly from
+ * the model epoch, so accuracy degrades slowly for dates past its validity.
+ */
+export function magneticVariation(
+  coordinates: Coordinates,
+  date: Date = new Date(),
+  altitudeFt = 0
+): number {
+  const dt = decimalYear(date) - WMM_EPOCH;
+  const g: number[][] = [];
+  const h: number[][] = [];
+  for (let n = 0; n <= MAX_DEGREE; n++) {
+    g[n] = [];
+    h[n] = [];
+  }
+  wmmCoefficients.forEach(([n, m, gnm, hnm, gdot, hdot]) => {
+    g[n][m] = (gnm + gdot * dt) * schmidt[n][m];
+    h[n][m] = (hnm + hdot * dt) * schmidt[n][m];
+  });
+
+  // Geodetic to geocentric spherical coordinates
+  const lat = toRadians(coordinates.lat);
+  const lon = toRadians(coordinates.lon);
+  const altitude = (altitudeFt * 0.3048) / 1000; // km
+  const a2 = WGS84_A ** 2;
+  const b2 = WGS84_B ** 2;
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const rho = Math.sqrt(a2 * cosLat ** 2 + b2 * sinLat ** 2);
+  const x = (altitude + a2 / rho) * cosLat;
+  const z = (altitude + b2 / rho) * sinLat;
+  const r = Math.sqrt(x * x + z * z);
+  const geocentricLat = Math.atan2(z, x);
+  const cosTheta = Math.sin(geocentricLat);
+  const sinTheta = Math.cos(geocentricLat);
+
+  // Gauss-normalised associated Legendre functions and their θ-derivatives
+  const p: number[][] = [[1]];
+  const dp: number[][] = [[0]];
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    p[n] = [];
+    dp[n] = [];
+    for (let m = 0; m <= n; m++) {
+      if (n === m) {
+        p[n][m] = sinTheta * p[n - 1][m - 1];
+        dp[n][m] = sinTheta * dp[n - 1][m - 1] + cosTheta * p[n - 1][m - 1];
+      } else {
+        const k =
+          n > 1 ? ((n - 1) ** 2 - m ** 2) / ((2 * n - 1) * (2 * n - 3)) : 0;
+        const p2 = n > 1 && m <= n - 2 ? p[n - 2][m] : 0;
+        const dp2 = n > 1 && m <= n - 2 ? dp[n - 2][m] : 0;
+        p[n][m] = cosTheta * p[n - 1][m] - k * p2;
+        dp[n][m] = cosTheta * dp[n - 1][m] - sinTheta * p[n - 1][m] - k * dp2;
+      }
+    }
+  }
+
+  // Field components in the geocentric frame: north, east and down
+  let north = 0;
+  let east = 0;
+  let down = 0;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    const radial = (REFERENCE_RADIUS / r) ** (n + 2);
+    for (let m = 0; m <= n; m++) {
+      const cosM = Math.cos(m * lon);
+      const sinM = Math.sin(m * lon);
+      const term = g[n][m] * cosM + h[n][m] * sinM;
+      north += radial * term * dp[n][m];
+      east +=
+        (radial * m * (g[n][m] * sinM - h[n][m] * cosM) * p[n][m]) / sinTheta;
+      down -= radial * (n + 1) * term * p[n][m];
+    }
+  }
+
+  // Rotate north into the geodetic frame; east is unchanged
+  const tilt = geocentricLat - lat;
+  const geodeticNorth = north * Math.cos(tilt) - down * Math.sin(tilt);
+  return toDegrees(Math.atan2(east, geodeticNorth));
+}
+
+/** Magnetic from true direction: variation east is subtracted. */
+export const trueToMagnetic = (trueDirection: number, variation: number) =>
+  normalizeDegrees(trueDirection - variation);
+
+/** e.g. 21.4° W for -21.4. */
+export const formatVariation = (
+  variation: number,
+  formatNumber = (value: number) => value.toFixed(1)
+): string =>
+  `${formatNumber(Math.abs(variation))}° ${variation < 0 ? "W" : "E"}`;
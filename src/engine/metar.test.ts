@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  fieldConditions,
+  parseWeatherReport,
+  parseWeatherReports,
+  WeatherReport,
+} from "./metar";
+
+const parsed = (text: string): WeatherReport => {
+  const result = parseWeatherReport(text);
+  if (!result.ok) throw new Error(JSON.stringify(result.issues));
+  return result.report;
+};
+
+describe("parseWeatherReport", () => {
+  it("decodes a METAR", () => {
+    const report = parsed(
+      "METAR SBGR 011200Z 08010G20KT 050V110 9999 FEW030 25/18 Q1015"
+    );
+    expect(report).toMatchObject({
+      type: "METAR",
+      station: "SBGR",
+      issued: { day: 1, hour: 12, minute: 0 },
+      wind: {
+        direction: 80,
+        speed: 10,
+        gust: 20,
+        variableFrom: 50,
+        variableTo: 110,
+      },
+      visibility: 10000,
+      cavok: false,
+      temperature: 25,
+      dewpoint: 18,
+      qnh: 1015,
+    });
+  });
+
+  it("reads CAVOK, variable wind and negative temperatures", () => {
+    const report = parsed("SBCT 010600Z VRB03KT CAVOK M02/M05 Q1021");
+    expect(report.type).toBe("METAR");
+    expect(report.wind).toEqual({ speed: 3 });
+    expect(report.cavok).toBe(true);
+    expect(report.visibility).toBe(10000);
+    expect(report.temperature).toBe(-2);
+    expect(report.dewpoint).toBe(-5);
+  });
+
+  it("converts m/s winds, statute miles and inches of mercury", () => {
+    const report = parsed("METAR KJFK 011251Z 27005MPS 3SM 10/05 A2992");
+    expect(report.wind?.speed).toBeCloseTo(9.7, 1);
+    expect(report.visibility).toBeCloseTo(4828, 0);
+    expect(report.qnh).toBeCloseTo(1013.2, 1);
+  });
+
+  it("decodes the validity of a TAF and stops at change groups", () => {
+    const report = parsed(
+      "TAF SBRJ 011100Z 0112/0212 18008KT 9999 SCT020 BECMG 0118/0120 27015KT"
+    );
+    expect(report.type).toBe("TAF");
+    expect(report.validFrom).toEqual({ day: 1, hour: 12, minute: 0 });
+    expect(report.validTo).toEqual({ day: 2, hour: 12, minute: 0 });
+    expect(report.wind?.direction).toBe(180);
+  });
+
+  it("ignores remarks", () => {
+    const report = parsed(
+      "METAR SBSP 011200Z 15005KT 9999 22/15 Q1018 RMK 1000"
+    );
+    expect(report.visibility).toBe(10000);
+  });
+
+  it("rejects empty text and NIL reports", () => {
+    expect(parseWeatherReport("  ")).toMatchObject({
+      ok: false,
+      issues: [expect.objectContaining({ code: "empty" })],
+    });
+    expect(parseWeatherReport("METAR SBGR 011200Z NIL")).toMatchObject({
+      ok: false,
+      issues: [expect.objectContaining({ code: "nil-report" })],
+    });
+  });
+
+  it("rejects a report without a valid station", () => {
+    const result = parseWeatherReport("METAR 12 011200Z 08010KT");
+    expect(result.ok).toBe(false);
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({ code: "invalid-station" })
+    );
+  });
+
+  it("flags malformed groups with the offending token", () => {
+    const result = parseWeatherReport(
+      "METAR SBGR 011200Z 08010KT 9999 25/18 Q0500"
+    );
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({ code: "invalid-pressure", token: "Q0500" })
+    );
+  });
+});
+
+describe("parseWeatherReports", () => {
+  it("splits a METAR and a multi-line TAF", () => {
+    const results = parseWeatherReports(
+      [
+        "METAR SBGR 011200Z 08010KT 9999 25/18 Q1015",
+        "TAF SBGR 011100Z 0112/0212 08010KT 9999 SCT030",
+        "  BECMG 0118/0120 14012KT",
+        "  TEMPO 0200/0206 4000 BR",
+      ].join("\n")
+    );
+    expect(results).toHaveLength(2);
+    expect(results.map((result) => result.ok)).toEqual([true, true]);
+  });
+
+  it("starts a report at a station and time line", () => {
+    const results = parseWeatherReports(
+      "SBGR 011200Z 08010KT 9999 25/18 Q1015\nSBRJ 011200Z 18005KT CAVOK 28/20 Q1014"
+    );
+    expect(results).toHaveLength(2);
+  });
+});
+
+describe("fieldConditions", () => {
+  it("is standard at sea level in ISA", () => {
+    const conditions = fieldConditions(parsed("SBRJ 011200Z 15/10 Q1013"), 0);
+    // 1013 is a quarter hPa under the standard 1013.25
+    expect(conditions.pressureAltitude).toBeCloseTo(7, 0);
+    expect(conditions.densityAltitude).toBeCloseTo(0, -2);
+    expect(conditions.isaDeviation).toBeCloseTo(0, 0);
+  });
+
+  it("raises pressure and density altitude with low QNH and heat", () => {
+    const conditions = fieldConditions(
+      parsed("SBBR 011800Z 31/12 Q1003"),
+      3497
+    );
+    // About 30 ft per hPa below standard
+    expect(conditions.pressureAltitude).toBeCloseTo(3497 + 10 * 30, -2);
+    expect(conditions.isaDeviation).toBeGreaterThan(20);
+    expect(conditions.densityAltitude).toBeGreaterThan(6000);
+  });
+
+  it("needs a QNH for pressure and density altitude", () => {
+    const conditions = fieldConditions(parsed("SBRJ 011200Z 25/20"), 0);
+    expect(conditions.pressureAltitude).toBeUndefined();
+    expect(conditions.densityAltitude).toBeUndefined();
+    expect(conditions.isaDeviation).toBe(10);
+  });
+});
@@ -0,0 +1,361 @@
+// METAR, SPECI and TAF decoding (WMO FM 15/16/51, ICAO Annex 3). Only the
+// groups the calculation uses are decoded: wind, visibility, temperature and
+// QNH. Weather, cloud and runway groups are skipped; a TAF is read up to its
+// first change group, and a METAR up to its trend or remarks.
+
+import {
+  densityAltitude,
+  isaTemperature,
+  pressureAltitude,
+} from "./atmosphere";
+
+export type ReportType = "METAR" | "SPECI" | "TAF";
+
+export type ReportIssueCode =
+  | "empty"
+  | "nil-report"
+  | "invalid-station"
+  | "invalid-time"
+  | "invalid-validity"
+  | "invalid-wind"
+  | "invalid-variable-wind"
+  | "invalid-visibility"
+  | "invalid-temperature"
+  | "invalid-pressure"
+  | "duplicate-group";
+
+export interface ReportIssue {
+  code: ReportIssueCode;
+  severity: "warning" | "error";
+  token?: string; // offending group, as written in the report
+}
+
+export interface ReportWind {
+  direction?: number; // degrees true the wind blows from; undefined when VRB
+  speed: number; // kt
+  gust?: number; // kt
+  variableFrom?: number; // degrees true
+  variableTo?: number; // degrees true
+}
+
+export interface ReportTime {
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface WeatherReport {
+  type: ReportType;
+  station: string;
+  raw: string;
+  issued?: ReportTime; // UTC
+  validFrom?: ReportTime; // TAF only, UTC
+  validTo?: ReportTime; // TAF only, UTC
+  wind?: ReportWind;
+  visibility?: number; // meters; 10 000 stands for 10 km or more
+  cavok: boolean;
+  temperature?: number; // °C
+  dewpoint?: number; // °C
+  qnh?: number; // hPa
+}
+
+export type ReportParseResult =
+  | { ok: true; report: WeatherReport; issues: ReportIssue[] }
+  | { ok: false; raw: string; issues: ReportIssue[] };
+
+export const KT_PER_MPS = 1.943844;
+export const KT_PER_KMH = 0.539957;
+export const HPA_PER_INHG = 33.8639;
+export const METERS_PER_SM = 1609.344;
+export const MAX_VISIBILITY_M = 10000;
+
+// Plausible ranges; values outside them are typos rather than weather
+const QNH_RANGE_HPA = [850, 1090];
+const TEMPERATURE_RANGE_C = [-80, 60];
+const MAX_WIND_KT = 250;
+
+const REPORT_TYPES: ReportType[] = ["METAR", "SPECI", "TAF"];
+
+// Groups that end the part of the report that is decoded
+const isSectionEnd = (token: string) =>
+  ["RMK", "BECMG", "TEMPO", "NOSIG", "INTER"].includes(token) ||
+  /^(FM\d{6}|PROB\d{2})$/.test(token);
+
+const temperatureValue = (value: string) =>
+  (value.startsWith("M") ? -1 : 1) * Number(value.replace("M", ""));
+
+const inRange = (value: number, [min, max]: number[]) =>
+  value >= min && value <= max;
+
+const toKnots = (speed: number, unit: string) =>
+  unit === "MPS"
+    ? speed * KT_PER_MPS
+    : unit === "KMH"
+      ? speed * KT_PER_KMH
+      : speed;
+
+// "10SM", "1/2SM", "1 1/2SM" (already joined as "1_1/2SM"), "P6SM"
+const statuteMiles = (token: string): number | undefined => {
+  const match = /^P?(?:(\d+)_)?(?:(\d+)\/(\d+)|(\d+))SM$/.exec(token);
+  if (!match) return undefined;
+  const [, whole, numerator, denominator, miles] = match;
+  if (miles !== undefined) return Number(miles);
+  if (Number(denominator) === 0) return undefined;
+  return Number(whole ?? 0) + Number(numerator) / Number(denominator);
+};
+
+const parseTime = (day: string, hour: string, minute = "00"): ReportTime => ({
+  day: Number(day),
+  hour: Number(hour),
+  minute: Number(minute),
+});
+
+const validTime = ({ day, hour, minute }: ReportTime) =>
+  day >= 1 && day <= 31 && hour <= 24 && minute <= 59;
+
+/** Decodes one METAR, SPECI or TAF. */
+export function parseWeatherReport(text: string): ReportParseResult {
+  const raw = text.trim().replace(/\s+/g, " ").replace(/=$/, "").trim();
+  const issues: ReportIssue[] = [];
+  const issue = (
+    code: ReportIssueCode,
+    token?: string,
+    severity: ReportIssue["severity"] = "error"
+  ) => issues.push({ code, severity, token });
+
+  // Whole and fractional statute miles are one visibility group
+  const tokens = raw
+    .toUpperCase()
+    .replace(/\b(\d+) (\d\/\dSM)\b/g, "$1_$2")
+    .split(" ")
+    .filter(Boolean);
+  if (tokens.length === 0) {
+    issue("empty");
+    return { ok: false, raw, issues };
+  }
+
+  let type: ReportType = "METAR";
+  if (REPORT_TYPES.includes(tokens[0] as ReportType)) {
+    type = tokens.shift() as ReportType;
+  }
+  while (["AMD", "COR", "RTD"].includes(tokens[0])) tokens.shift();
+
+  const station = tokens.shift() ?? "";
+  if (!/^[A-Z][A-Z0-9]{3}$/.test(station)) {
+    issue("invalid-station", station || undefined);
+    return { ok: false, raw, issues };
+  }
+
+  const report: WeatherReport = { type, station, raw, cavok: false };
+
+  const time = /^(\d{2})(\d{2})(\d{2})Z$/.exec(tokens[0] ?? "");
+  if (time) {
+    tokens.shift();
+    report.issued = parseTime(time[1], time[2], time[3]);
+    if (!validTime(report.issued)) {
+      issue("invalid-time", time[0]);
+    }
+  } else if (/^\d+Z$/.test(tokens[0] ?? "")) {
+    issue("invalid-time", tokens.shift());
+  }
+
+  if (tokens[0] === "NIL") {
+    issue("nil-report");
+    return { ok: false, raw, issues };
+  }
+
+  if (type === "TAF") {
+    const validity = /^(\d{2})(\d{2})\/(\d{2})(\d{2})$/.exec(tokens[0] ?? "");
+    if (validity) {
+      tokens.shift();
+      report.validFrom = parseTime(validity[1], validity[2]);
+      report.validTo = parseTime(validity[3], validity[4]);
+      if (!validTime(report.validFrom) || !validTime(report.validTo)) {
+        issue("invalid-validity", validity[0]);
+      }
+    } else {
+      issue("invalid-validity", tokens[0]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const once = (group: string, token: string) => {
+    if (!seen.has(group)) {
+      seen.add(group);
+      return true;
+    }
+    issue("duplicate-group", token, "warning");
+    return false;
+  };
+
+  for (const token of tokens) {
+    if (isSectionEnd(token)) break;
+    if (token === "AUTO") continue;
+
+    // Wind: dddff(Gfmfm)KT, VRBffKT, also MPS and KMH
+    if (/^(\d{3}|VRB|\/{3})\S*(KT|MPS|KMH)$/.test(token)) {
+      const wind = /^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS|KMH)$/.exec(
+        token
+      );
+      if (!wind) {
+        if (!token.startsWith("/")) {
+          issue("invalid-wind", token);
+        }
+        continue;
+      }
+      const [, direction, speed, gust, unit] = wind;
+      const degrees = direction === "VRB" ? undefined : Number(direction);
+      const knots = toKnots(Number(speed), unit);
+      const gustKnots = gust ? toKnots(Number(gust), unit) : undefined;
+      if (
+        (degrees !== undefined && (degrees > 360 || degrees % 10 !== 0)) ||
+        knots > MAX_WIND_KT ||
+        (gustKnots !== undefined && gustKnots <= knots)
+      ) {
+        issue("invalid-wind", token);
+        continue;
+      }
+      if (!once("wind", token)) continue;
+      report.wind = {
+        direction: degrees === 360 ? 0 : degrees,
+        speed: knots,
+        ...(gustKnots !== undefined ? { gust: gustKnots } : {}),
+      };
+      continue;
+    }
+
+    // Variable wind direction: dddVddd
+    if (/^\d{3}V\d{3}$/.test(token)) {
+      const [from, to] = token.split("V").map(Number);
+      if (!report.wind || from > 360 || to > 360) {
+        issue("invalid-variable-wind", token);
+        continue;
+      }
+      report.wind.variableFrom = from;
+      report.wind.variableTo = to;
+      continue;
+    }
+
+    if (token === "CAVOK") {
+      if (!once("visibility", token)) continue;
+      report.cavok = true;
+      report.visibility = MAX_VISIBILITY_M;
+      continue;
+    }
+
+    // Visibility: four digits in meters, optionally NDV, or statute miles
+    if (/^\d{4}(NDV)?$/.test(token)) {
+      if (!once("visibility", token)) continue;
+      report.visibility = Math.min(Number(token.slice(0, 4)), MAX_VISIBILITY_M);
+      if (report.visibility === 9999) report.visibility = MAX_VISIBILITY_M;
+      continue;
+    }
+    if (token.endsWith("SM")) {
+      const miles = statuteMiles(token);
+      if (miles === undefined) {
+        issue("invalid-visibility", token);
+        continue;
+      }
+      if (!once("visibility", token)) continue;
+      report.visibility = Math.min(
+        Math.round(miles * METERS_PER_SM),
+        MAX_VISIBILITY_M
+      );
+      continue;
+    }
+
+    // Temperature and dew point: TT/TdTd, M for negative values
+    if (/^M?\d+\/(M?\d+|\/\/)?$/.test(token)) {
+      const match = /^(M?\d{2})\/(M?\d{2}|\/\/)?$/.exec(token);
+      const temperature = match ? temperatureValue(match[1]) : NaN;
+      const dewpoint =
+        match?.[2] && match[2] !== "//"
+          ? temperatureValue(match[2])
+          : undefined;
+      if (
+        !inRange(temperature, TEMPERATURE_RANGE_C) ||
+        (dewpoint !== undefined && dewpoint > temperature)
+      ) {
+        issue("invalid-temperature", token);
+        continue;
+      }
+      if (!once("temperature", token)) continue;
+      report.temperature = temperature;
+      if (dewpoint !== undefined) report.dewpoint = dewpoint;
+      continue;
+    }
+
+    // Pressure: Qhhhh in hPa or Annnn in hundredths of inHg
+    if (/^[QA]\d+$/.test(token)) {
+      const digits = token.slice(1);
+      const hpa =
+        digits.length !== 4
+          ? NaN
+          : token.startsWith("Q")
+            ? Number(digits)
+            : (Number(digits) / 100) * HPA_PER_INHG;
+      if (!inRange(hpa, QNH_RANGE_HPA)) {
+        issue("invalid-pressure", token);
+        continue;
+      }
+      if (!once("pressure", token)) continue;
+      report.qnh = Math.round(hpa * 10) / 10;
+      continue;
+    }
+  }
+
+  if (issues.some((i) => i.severity === "error")) {
+    return { ok: false, raw, issues };
+  }
+  return { ok: true, report, issues };
+}
+
+export interface FieldConditions {
+  pressureAltitude?: number; // feet, needs QNH
+  densityAltitude?: number; // feet, needs QNH and temperature
+  isaDeviation?: number; // °C, needs temperature
+}
+
+/** Field pressure and density altitude and ISA deviation from a report. */
+export function fieldConditions(
+  report: WeatherReport,
+  elevation: number
+): FieldConditions {
+  const conditions: FieldConditions = {};
+  if (report.qnh !== undefined) {
+    conditions.pressureAltitude = pressureAltitude(elevation, report.qnh);
+  }
+  if (report.temperature !== undefined) {
+    const altitude = conditions.pressureAltitude ?? elevation;
+    conditions.isaDeviation = report.temperature - isaTemperature(altitude);
+    if (conditions.pressureAltitude !== undefined) {
+      conditions.densityAltitude = densityAltitude(
+        conditions.pressureAltitude,
+        report.temperature
+      );
+    }
+  }
+  return conditions;
+}
+
+/**
+ * Splits pasted text into reports, so a METAR and a TAF can be pasted
+ * together. A report starts at a METAR, SPECI or TAF keyword, or at a line
+ * opening with a station and issue time; other lines continue the report
+ * above, as TAF change groups usually do.
+ */
+export function parseWeatherReports(text: string): ReportParseResult[] {
+  const reports: string[] = [];
+  text
+    .toUpperCase()
+    .split(/(?=\b(?:METAR|SPECI|TAF)\b)/)
+    .forEach((chunk) =>
+      chunk.split("\n").forEach((line, index) => {
+        const startsReport =
+          index === 0 || /^\s*[A-Z][A-Z0-9]{3} \d{4,6}Z\b/.test(line);
+        if (startsReport || reports.length === 0) reports.push(line);
+        else reports[reports.length - 1] += ` ${line}`;
+      })
+    );
+  return reports.filter((report) => report.trim()).map(parseWeatherReport);
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { calculateFlightProfile, FlightProfileInput } from "./flightProfile";
+import { buildNavlog, navlogToCsv, NavlogInput } from "./navlog";
+import { Waypoint } from "./types";
+
+// Two degrees along the equator, 120 NM, with TOC near 25.5 NM and TOD
+// near 86 NM at these speeds and rates
+const departure = {
+  icao: "AAAA",
+  elevation: 0,
+  coordinates: { lat: 0, lon: 0 },
+};
+const arrival = {
+  icao: "BBBB",
+  elevation: 0,
+  coordinates: { lat: 0, lon: 2 },
+};
+
+const navlog = (route: Waypoint[], options: Partial<NavlogInput> = {}) => {
+  const input: FlightProfileInput = {
+    cruiseAltitude: 8500,
+    climbSpeed: 90,
+    cruiseSpeed: 120,
+    descentSpeed: 120,
+    climbRate: 500,
+    descentRate: 500,
+    speedUnit: "kt",
+    rateUnit: "ftmin",
+    departure,
+    arrival,
+    route,
+    date: new Date("2025-06-01T00:00:00Z"),
+  };
+  return buildNavlog({
+    result: calculateFlightProfile(input),
+    departure,
+    arrival,
+    route,
+    cruiseAltitude: 8500,
+    ...options,
+  });
+};
+
+const fix = (ident: string, lon: number): Waypoint => ({
+  ident,
+  coordinates: { lat: 0, lon },
+});
+
+describe("buildNavlog", () => {
+  it("slots TOC and TOD between the fixes by distance", () => {
+    const rows = navlog([fix("MID", 1)]);
+    expect(rows.map(({ kind, ident }) => `${kind}:${ident}`)).toEqual([
+      "departure:AAAA",
+      "toc:TOC",
+      "fix:MID",
+      "tod:TOD",
+      "arrival:BBBB",
+    ]);
+    expect(rows.map((row) => row.altitude)).toEqual([0, 8500, 8500, 8500, 0]);
+    expect(rows[1].cumulativeDistance).toBeCloseTo(25.5, 1);
+    expect(rows[2].cumulativeDistance).toBeCloseTo(60, 0);
+  });
+
+  it("keeps leg times consistent around a fix near TOC", () => {
+    const rows = navlog([fix("NEAR", 0.42), fix("NEXT", 0.43)]);
+    rows.forEach((row, index) => {
+      expect(row.legTime).toBeGreaterThanOrEqual(0);
+      if (index > 0) {
+        expect(row.elapsed).toBe(rows[index - 1].elapsed + row.legTime);
+      }
+    });
+    expect(rows[rows.length - 1].elapsed).toBe(64);
+  });
+
+  it("wraps ETAs past midnight", () => {
+    const rows = navlog([], { offBlock: "23:30", taxiMinutes: 10 });
+    expect(rows[0].eta).toBe(23 * 60 + 40);
+    expect(rows[rows.length - 1].eta).toBe(44);
+    expect(navlog([])[0].eta).toBeUndefined();
+  });
+});
+
+describe("navlogToCsv", () => {
+  const rows = navlog([], { offBlock: "1200" });
+  const header = ["Fix", "Dist; NM", 'Time "min"', "", "", "", "", "", "", ""];
+  const formatClock = (minutes: number) => `${minutes}m`;
+
+  it("uses semicolons with decimal commas and quotes where needed", () => {
+    const [title, first, toc] = navlogToCsv(rows, {
+      header,
+      formatClock,
+    }).split("\r\n");
+    expect(title).toBe('Fix;"Dist; NM";"Time ""min""";;;;;;;');
+    expect(first.split(";").slice(3, 8)).toEqual(["0", "0", "0", "0", "720m"]);
+    expect(toc.split(";")[3]).toBe("25,5");
+  });
+
+  it("uses commas with decimal points", () => {
+    const [title, , toc] = navlogToCsv(rows, {
+      header,
+      formatClock,
+      decimalSeparator: ".",
+    }).split("\r\n");
+    expect(title).toBe('Fix,Dist; NM,"Time ""min""",,,,,,,');
+    expect(toc.split(",")[3]).toBe("25.5");
+  });
+});
@@ -0,0 +1,222 @@
+import { formatDegreesMinutes } from "./coordinateFormat";
+import { CalculationResult, ProfilePoint, roundTenth } from "./flightProfile";
+import { Airport, Coordinates, Waypoint } from "./types";
+
+export type NavlogRowKind = "departure" | "toc" | "fix" | "tod" | "arrival";
+
+export interface NavlogRow {
+  kind: NavlogRowKind;
+  ident: string;
+  altitude: number; // feet
+  position?: string; // degrees and decimal minutes
+  legDistance: number; // NM from the previous row
+  cumulativeDistance: number; // NM from departure
+  legTime: number; // minutes from the previous row
+  elapsed: number; // minutes from takeoff
+  eta?: number; // minutes after midnight, when an off-block time is given
+}
+
+export interface NavlogInput {
+  result: CalculationResult;
+  departure?: Airport;
+  arrival?: Airport;
+  route?: Waypoint[];
+  cruiseAltitude: number; // feet
+  offBlock?: string; // HH:MM
+  taxiMinutes?: number; // off-block to takeoff
+}
+
+/** Minutes after midnight for an "HH:MM" clock time, if valid. */
+export const parseClock = (value: string): number | undefined => {
+  const match = /^(\d{1,2}):?(\d{2})$/.exec(value.trim());
+  if (!match) return undefined;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return undefined;
+  return hours * 60 + minutes;
+};
+
+// Altitude along the vertical profile, linear between its points
+const altitudeAt = (profile: ProfilePoint[], distance: number) => {
+  const after = profile.findIndex((point) => point.distance >= distance);
+  if (after <= 0) return profile[Math.max(after, 0)]?.altitude ?? 0;
+  const a = profile[after - 1];
+  const b = profile[after];
+  const fraction =
+    b.distance > a.distance
+      ? (distance - a.distance) / (b.distance - a.distance)
+      : 0;
+  return a.altitude + (b.altitude - a.altitude) * fraction;
+};
+
+const positionOf = (coordinates?: Coordinates) =>
+  coordinates && formatDegreesMinutes(coordinates);
+
+/**
+ * Navigation log rows from departure to arrival: the route fixes with TOC
+ * and TOD slotted in by distance. Fix times come from the leg times, so they
+ * reflect the ground speed of each phase the leg spans. All times are taken
+ * unrounded from the profile and the legs and rounded only per row, so leg
+ * times never go negative around TOC and TOD.
+ */
+export function buildNavlog(input: NavlogInput): NavlogRow[] {
+  const { result, departure, arrival } = input;
+  const waypoints = new Map(
+    (input.route ?? []).map((waypoint) => [waypoint.ident, waypoint])
+  );
+
+  type Stop = Omit<NavlogRow, "legDistance" | "legTime" | "altitude">;
+  const stops: Stop[] = [
+    {
+      kind: "departure",
+      ident: departure?.icao ?? "DEP",
+      position: positionOf(departure?.coordinates),
+      cumulativeDistance: 0,
+      elapsed: 0,
+    },
+  ];
+
+  result.legs.slice(0, -1).forEach((leg) => {
+    stops.push({
+      kind: "fix",
+      ident: leg.to,
+      position: positionOf(waypoints.get(leg.to)?.coordinates),
+      cumulativeDistance: leg.endDistance,
+      elapsed: leg.endTime,
+    });
+  });
+
+  // The climb ends and the descent starts at the first and last profile
+  // points at cruise altitude; the profile ends at the arrival
+  const { profile } = result;
+  const level = profile.filter(
+    (point) => point.altitude >= input.cruiseAltitude
+  );
+  const toc = level[0] ?? {
+    distance: result.tocDistance,
+    time: result.climbTime,
+  };
+  const tod = level[level.length - 1] ?? {
+    distance: result.totalDistance - result.todDistance,
+    time: result.totalTime - result.descentTime,
+  };
+  const end = profile[profile.length - 1] ?? {
+    distance: result.totalDistance,
+    time: result.totalTime,
+  };
+
+  stops.push(
+    {
+      kind: "toc",
+      ident: "TOC",
+      position: positionOf(result.toc?.coordinates),
+      cumulativeDistance: toc.distance,
+      elapsed: toc.time,
+    },
+    {
+      kind: "tod",
+      ident: "TOD",
+      position: positionOf(result.tod?.coordinates),
+      cumulativeDistance: tod.distance,
+      elapsed: tod.time,
+    },
+    {
+      kind: "arrival",
+      ident: arrival?.icao ?? "ARR",
+      position: positionOf(arrival?.coordinates),
+      cumulativeDistance: end.distance,
+      elapsed: end.time,
+    }
+  );
+
+  const order: Record<NavlogRowKind, number> = {
+    departure: 0,
+    toc: 1,
+    fix: 2,
+    tod: 3,
+    arrival: 4,
+  };
+  stops.sort(
+    (a, b) =>
+      a.cumulativeDistance - b.cumulativeDistance ||
+      order[a.kind] - order[b.kind]
+  );
+
+  const offBlock = input.offBlock ? parseClock(input.offBlock) : undefined;
+  const takeoff =
+    offBlock !== undefined ? offBlock + (input.taxiMinutes ?? 0) : undefined;
+
+  return stops.map((stop, index) => {
+    const previous = stops[index - 1];
+    const altitude =
+      stop.kind === "toc" || stop.kind === "tod"
+        ? input.cruiseAltitude
+        : stop.kind === "departure"
+          ? (departure?.elevation ?? 0)
+          : stop.kind === "arrival"
+            ? (arrival?.elevation ?? 0)
+            : Math.round(
+                altitudeAt(result.profile, stop.cumulativeDistance) / 100
+              ) * 100;
+    return {
+      ...stop,
+      altitude,
+      cumulativeDistance: roundTenth(stop.cumulativeDistance),
+      legDistance: previous
+        ? roundTenth(stop.cumulativeDistance - previous.cumulativeDistance)
+        : 0,
+      elapsed: Math.round(stop.elapsed),
+      legTime: previous
+        ? Math.round(stop.elapsed) - Math.round(previous.elapsed)
+        : 0,
+      eta:
+        takeoff !== undefined
+          ? Math.round(takeoff + stop.elapsed) % 1440
+          : undefined,
+    };
+  });
+}
+
+export interface CsvOptions {
+  header: string[]; // column titles, in the active language
+  formatClock: (minutes: number) => string; // for the ETA column
+  decimalSeparator?: "," | ".";
+}
+
+/**
+ * CSV in the layout spreadsheet software expects for the locale: with
+ * decimal commas (pt-BR, the default) fields are separated by semicolons,
+ * otherwise by commas. ATA and fuel are left blank.
+ */
+export function navlogToCsv(
+  rows: NavlogRow[],
+  { header, formatClock, decimalSeparator = "," }: CsvOptions
+): string {
+  const separator = decimalSeparator === "," ? ";" : ",";
+  const csvField = (value: string | number | undefined) => {
+    const text =
+      typeof value === "number"
+        ? String(value).replace(".", decimalSeparator)
+        : (value ?? "");
+    return text.includes(separator) || /["\n]/.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  };
+  const lines = rows.map((row) =>
+    [
+      row.ident,
+      row.altitude,
+      row.position,
+      row.legDistance,
+      row.cumulativeDistance,
+      row.legTime,
+      row.elapsed,
+      row.eta !== undefined ? formatClock(row.eta) : undefined,
+      "",
+      "",
+    ]
+      .map(csvField)
+      .join(separator)
+  );
+  return [header.map(csvField).join(separator), ...lines].join("\r\n");
+}
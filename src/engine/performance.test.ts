@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { PerformanceBand, phaseSegments, tableCovers } from "./performance";
+
+const fallback = { speed: 90, rate: 500 };
+
+const table: PerformanceBand[] = [
+  { floor: 0, ceiling: 5000, speed: 100, rate: 800 },
+  { floor: 8000, ceiling: 30000, speed: 0.7, rate: 1500, mode: "mach" },
+];
+
+describe("phaseSegments", () => {
+  it("uses the fallback alone without a table or a range", () => {
+    expect(phaseSegments(0, 6000, undefined, fallback)).toEqual([
+      { floor: 0, ceiling: 6000, ...fallback, fromTable: false },
+    ]);
+    expect(phaseSegments(6000, 6000, table, fallback)).toEqual([
+      { floor: 6000, ceiling: 6000, ...fallback, fromTable: false },
+    ]);
+  });
+
+  it("splits at the band edges and keeps each band value within it", () => {
+    expect(phaseSegments(1000, 12000, table, fallback)).toEqual([
+      {
+        floor: 1000,
+        ceiling: 5000,
+        speed: 100,
+        rate: 800,
+        mode: undefined,
+        fromTable: true,
+      },
+      {
+        floor: 5000,
+        ceiling: 8000,
+        ...fallback,
+        mode: undefined,
+        fromTable: false,
+      },
+      {
+        floor: 8000,
+        ceiling: 12000,
+        speed: 0.7,
+        rate: 1500,
+        mode: "mach",
+        fromTable: true,
+      },
+    ]);
+  });
+
+  it("merges a range that sits inside one band", () => {
+    expect(phaseSegments(9000, 25000, table, fallback)).toEqual([
+      expect.objectContaining({ floor: 9000, ceiling: 25000, speed: 0.7 }),
+    ]);
+  });
+
+  it("falls back above the last band", () => {
+    const segments = phaseSegments(20000, 35000, table, fallback);
+    expect(
+      segments.map(({ floor, ceiling, fromTable }) => ({
+        floor,
+        ceiling,
+        fromTable,
+      }))
+    ).toEqual([
+      { floor: 20000, ceiling: 30000, fromTable: true },
+      { floor: 30000, ceiling: 35000, fromTable: false },
+    ]);
+  });
+});
+
+describe("tableCovers", () => {
+  it("holds only when the bands leave no gap in the range", () => {
+    expect(tableCovers(table, 0, 5000)).toBe(true);
+    expect(tableCovers(table, 9000, 30000)).toBe(true);
+    expect(tableCovers(table, 0, 12000)).toBe(false);
+    expect(tableCovers(table, 20000, 35000)).toBe(false);
+  });
+
+  it("needs a table and a range to climb or descend through", () => {
+    expect(tableCovers(undefined, 0, 5000)).toBe(false);
+    expect(tableCovers([], 0, 5000)).toBe(false);
+    expect(tableCovers(table, 3000, 3000)).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { SpeedMode } from "./types";
+
+// Climb and descent performance entered per altitude band
+
+export interface PerformanceBand {
+  floor: number; // feet
+  ceiling: number; // feet
+  speed: number; // in the profile's speed unit, or Mach number
+  rate: number; // in the profile's rate unit
+  mode?: SpeedMode; // overrides the phase speed mode, e.g. Mach above FL240
+}
+
+export interface PhaseSegment {
+  floor: number; // feet
+  ceiling: number; // feet
+  speed: number;
+  rate: number;
+  mode?: SpeedMode;
+  fromTable: boolean;
+}
+
+const bandAt = (bands: PerformanceBand[], altitude: number) =>
+  bands.find((band) => altitude >= band.floor && altitude < band.ceiling);
+
+/**
+ * Splits the altitude range of a phase at the band edges. Heights not
+ * covered by any band use the fallback speed and rate.
+ */
+export function phaseSegments(
+  lower: number,
+  upper: number,
+  bands: PerformanceBand[] | undefined,
+  fallback: { speed: number; rate: number }
+): PhaseSegment[] {
+  if (!bands || bands.length === 0 || !(upper > lower)) {
+    return [{ floor: lower, ceiling: upper, ...fallback, fromTable: false }];
+  }
+
+  const edges = [lower, upper];
+  bands.forEach((band) => {
+    [band.floor, band.ceiling].forEach((edge) => {
+      if (edge > lower && edge < upper) edges.push(edge);
+    });
+  });
+  const sorted = [...new Set(edges)].sort((a, b) => a - b);
+
+  const segments: PhaseSegment[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const floor = sorted[i - 1];
+    const ceiling = sorted[i];
+    const band = bandAt(bands, (floor + ceiling) / 2);
+    segments.push({
+      floor,
+      ceiling,
+      speed: band ? band.speed : fallback.speed,
+      rate: band ? band.rate : fallback.rate,
+      mode: band?.mode,
+      fromTable: Boolean(band),
+    });
+  }
+  return segments;
+}
+
+/** Whether the bands alone cover a phase, so no fallback values are needed. */
+export const tableCovers = (
+  bands: PerformanceBand[] | undefined,
+  lower: number,
+  upper: number
+): boolean =>
+  upper > lower &&
+  phaseSegments(lower, upper, bands, { speed: 0, rate: 0 }).every(
+    (segment) => segment.fromTable
+  );
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { buildLegs, legOverlap, locateAlongRoute, routeLength } from "./route";
+
+// Three fixes one degree apart along the equator, about 60 NM per leg
+const legs = buildLegs([
+  { ident: "AAAA", coordinates: { lat: 0, lon: 0 } },
+  { ident: "BBBB", coordinates: { lat: 0, lon: 1 } },
+  { ident: "CCCC", coordinates: { lat: 0, lon: 2 } },
+]);
+const legLength = legs[0].distance;
+const total = routeLength(legs);
+
+describe("buildLegs", () => {
+  it("chains the legs by their start distance", () => {
+    expect(legLength).toBeCloseTo(60.04, 2);
+    expect(legs[1].startDistance).toBeCloseTo(legLength, 9);
+    expect(legs.map(({ trueCourse }) => trueCourse)).toEqual([90, 90]);
+    expect(total).toBeCloseTo(2 * legLength, 9);
+  });
+});
+
+describe("locateAlongRoute", () => {
+  it("places TOC and TOD on the leg they fall in", () => {
+    const toc = locateAlongRoute(legs, 20);
+    expect(toc).toMatchObject({ legIndex: 0, fix: "AAAA" });
+    expect(toc?.distanceFromFix).toBeCloseTo(20, 9);
+    expect(toc?.coordinates.lon).toBeCloseTo(20 / legLength, 6);
+
+    const tod = locateAlongRoute(legs, total - 30);
+    expect(tod).toMatchObject({ legIndex: 1, fix: "BBBB" });
+    expect(tod?.distanceFromFix).toBeCloseTo(legLength - 30, 9);
+    expect(tod?.coordinates.lon).toBeCloseTo(2 - 30 / legLength, 6);
+  });
+
+  it("ends the leg a point exactly on a waypoint", () => {
+    const position = locateAlongRoute(legs, legLength);
+    expect(position).toMatchObject({ legIndex: 0, fix: "AAAA" });
+    expect(position?.distanceFromFix).toBeCloseTo(legLength, 9);
+    expect(position?.coordinates.lat).toBeCloseTo(0, 9);
+    expect(position?.coordinates.lon).toBeCloseTo(1, 9);
+  });
+
+  it("clamps distances past either end to the first or last fix", () => {
+    const past = locateAlongRoute(legs, total + 50);
+    expect(past).toMatchObject({ legIndex: 1, fix: "BBBB" });
+    expect(past?.distanceFromFix).toBeCloseTo(legLength, 9);
+    expect(past?.coordinates.lon).toBeCloseTo(2, 9);
+
+    const before = locateAlongRoute(legs, -10);
+    expect(before).toMatchObject({ legIndex: 0, distanceFromFix: 0 });
+    expect(before?.coordinates.lon).toBeCloseTo(0, 9);
+  });
+
+  it("has no position without legs or a finite distance", () => {
+    expect(locateAlongRoute([], 10)).toBeUndefined();
+    expect(locateAlongRoute(legs, NaN)).toBeUndefined();
+  });
+});
+
+describe("legOverlap", () => {
+  it("measures the part of each leg inside a range", () => {
+    expect(legOverlap(legs[0], 20, total - 30)).toBeCloseTo(legLength - 20, 9);
+    expect(legOverlap(legs[1], 20, total - 30)).toBeCloseTo(legLength - 30, 9);
+  });
+
+  it("is zero for a range that misses the leg or ends on its start", () => {
+    expect(legOverlap(legs[1], 0, legLength)).toBe(0);
+    expect(legOverlap(legs[0], total, total + 10)).toBe(0);
+  });
+});
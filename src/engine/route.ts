@@ -0,0 +1,90 @@
+import {
+  greatCircleDistance,
+  initialTrueCourse,
+  intermediatePoint,
+} from "./geo";
+import { Coordinates, Waypoint } from "./types";
+
+export interface RouteLeg {
+  from: Waypoint;
+  to: Waypoint;
+  trueCourse: number; // degrees, initial course of the leg
+  distance: number; // NM
+  startDistance: number; // NM from departure to the start of the leg
+}
+
+export interface RoutePosition {
+  legIndex: number;
+  fix: string; // ident of the fix the leg starts at
+  distanceFromFix: number; // NM
+  coordinates: Coordinates;
+}
+
+export function buildLegs(waypoints: Waypoint[]): RouteLeg[] {
+  const legs: RouteLeg[] = [];
+  let startDistance = 0;
+
+  for (let i = 1; i < waypoints.length; i++) {
+    const from = waypoints[i - 1];
+    const to = waypoints[i];
+    const distance = greatCircleDistance(from.coordinates, to.coordinates);
+    legs.push({
+      from,
+      to,
+      trueCourse: initialTrueCourse(from.coordinates, to.coordinates),
+      distance,
+      startDistance,
+    });
+    startDistance += distance;
+  }
+
+  return legs;
+}
+
+export const routeLength = (legs: RouteLeg[]): number =>
+  legs.reduce((total, leg) => total + leg.distance, 0);
+
+/**
+ * Locates the point a given distance from departure along the route.
+ * Distances past either end are clamped to the first or last fix.
+ */
+export function locateAlongRoute(
+  legs: RouteLeg[],
+  distance: number
+): RoutePosition | undefined {
+  if (legs.length === 0 || !isFinite(distance)) return undefined;
+
+  let index = legs.findIndex(
+    (leg) => distance <= leg.startDistance + leg.distance
+  );
+  if (index === -1) index = legs.length - 1;
+  const leg = legs[index];
+  const along = Math.min(
+    Math.max(distance - leg.startDistance, 0),
+    leg.distance
+  );
+
+  return {
+    legIndex: index,
+    fix: leg.from.ident,
+    distanceFromFix: along,
+    coordinates:
+      leg.distance > 0
+        ? intermediatePoint(
+            leg.from.coordinates,
+            leg.to.coordinates,
+            along / leg.distance
+          )
+        : { ...leg.from.coordinates },
+  };
+}
+
+/**
+ * Length of the part of a leg that falls between two route distances.
+ */
+export const legOverlap = (leg: RouteLeg, start: number, end: number) =>
+  Math.max(
+    0,
+    Math.min(end, leg.startDistance + leg.distance) -
+      Math.max(start, leg.startDistance)
+  );
@@ -0,0 +1,71 @@
+import { normalizeDegrees } from "./geo";
+import { Runway } from "./types";
+import { windComponents } from "./wind";
+
+export interface RunwayEnd {
+  designator: string; // e.g. "27" or "10L"
+  heading: number; // degrees magnetic
+}
+
+export interface RunwayWind {
+  headwind: number; // kt, negative for tailwind
+  crosswind: number; // kt, positive from the right
+  gustCrosswind?: number; // kt, same sign as crosswind
+}
+
+export interface DistanceCheck {
+  required: number; // meters
+  available: number; // meters
+  margin: number; // meters, negative when the runway is too short
+}
+
+/** Magnetic heading of a runway designator: "09" or "27L" give 90 and 270. */
+export const runwayHeading = (designator: string): number | undefined => {
+  const match = /^(\d{1,2})[LCR]?$/.exec(designator.trim().toUpperCase());
+  const number = match ? Number(match[1]) : NaN;
+  return number >= 1 && number <= 36 ? number * 10 : undefined;
+};
+
+/** Both ends of a runway, the second on the reciprocal heading. */
+export const runwayEnds = (runway: Runway): RunwayEnd[] =>
+  runway.designator.split("/").map((designator, index) => ({
+    designator,
+    heading: normalizeDegrees(runway.heading + index * 180),
+  }));
+
+/**
+ * Surface wind components on a runway heading. Winds are true and runway
+ * headings magnetic, hence the variation (east positive). Variable winds,
+ * without a direction, have no components.
+ */
+export function runwayWind(
+  heading: number,
+  wind: { direction?: number; speed: number; gust?: number },
+  variation = 0
+): RunwayWind | undefined {
+  if (wind.direction === undefined) return undefined;
+  const { headwind, crosswind } = windComponents(heading + variation, {
+    direction: wind.direction,
+    speed: wind.speed,
+  });
+  return {
+    headwind,
+    crosswind,
+    ...(wind.gust !== undefined && wind.speed > 0
+      ? { gustCrosswind: (crosswind / wind.speed) * wind.gust }
+      : {}),
+  };
+}
+
+/**
+ * Book takeoff or landing distance against the runway length, taken as both
+ * the takeoff run and the landing distance available.
+ */
+export const checkRunwayDistance = (
+  runway: Runway,
+  required: number
+): DistanceCheck => ({
+  required,
+  available: runway.length,
+  margin: runway.length - required,
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { checkDaylight, sunTimes } from "./sun";
+
+const SAO_PAULO = { lat: -23.55, lon: -46.63 };
+const RIO = { lat: -22.91, lon: -43.163 };
+const RIO_BRANCO = { lat: -9.97, lon: -67.81 };
+
+// Minutes from the given UTC time, to compare with almanac times
+const offset = (date: Date | undefined, iso: string) =>
+  date ? (date.getTime() - Date.parse(iso)) / 60000 : NaN;
+
+describe("sunTimes", () => {
+  it("matches the almanac for São Paulo at the June solstice", () => {
+    const sun = sunTimes(SAO_PAULO, new Date("2026-06-21T15:00Z"));
+    // Sunrise 06:47 and sunset 17:28 local time (UTC−3)
+    expect(Math.abs(offset(sun.sunrise, "2026-06-21T09:47Z"))).toBeLessThan(2);
+    expect(Math.abs(offset(sun.sunset, "2026-06-21T20:28Z"))).toBeLessThan(2);
+  });
+
+  it("orders the twilight around sunrise and sunset", () => {
+    const sun = sunTimes(SAO_PAULO, new Date("2026-12-21T15:00Z"));
+    expect(sun.civilDawn! < sun.sunrise!).toBe(true);
+    expect(sun.sunrise! < sun.sunset!).toBe(true);
+    expect(sun.sunset! < sun.civilDusk!).toBe(true);
+    // Civil twilight lasts about 25 minutes at this latitude
+    expect(offset(sun.civilDusk, sun.sunset!.toISOString())).toBeCloseTo(
+      25,
+      -1
+    );
+  });
+
+  it("keeps an evening past midnight UTC in the same local day", () => {
+    // Rio Branco (UTC−5) sets after 22:00 UTC; asked just after midnight UTC
+    const sun = sunTimes(RIO_BRANCO, new Date("2026-06-22T01:00Z"));
+    expect(sun.sunset?.toISOString().slice(0, 10)).toBe("2026-06-21");
+  });
+
+  it("leaves the events undefined in the midnight sun", () => {
+    const sun = sunTimes({ lat: 78, lon: 15 }, new Date("2026-06-21T12:00Z"));
+    expect(sun).toEqual({
+      civilDawn: undefined,
+      sunrise: undefined,
+      sunset: undefined,
+      civilDusk: undefined,
+    });
+  });
+});
+
+describe("checkDaylight", () => {
+  it("lands in daylight with the margin to civil dusk", () => {
+    const check = checkDaylight(
+      new Date("2026-06-21T18:00Z"),
+      60,
+      SAO_PAULO,
+      RIO
+    );
+    expect(check.eta.toISOString()).toBe("2026-06-21T19:00:00.000Z");
+    expect(check.departsAtNight).toBe(false);
+    expect(check.arrivesAtNight).toBe(false);
+    expect(check.margin).toBeGreaterThan(60);
+    const dusk = check.arrivalSun.civilDusk!.getTime();
+    expect(check.latestDeparture?.getTime()).toBe(dusk - 60 * 60000);
+  });
+
+  it("flags an arrival after the end of civil twilight", () => {
+    const check = checkDaylight(
+      new Date("2026-06-21T20:00Z"),
+      60,
+      SAO_PAULO,
+      RIO
+    );
+    expect(check.arrivesAtNight).toBe(true);
+    expect(check.margin).toBeLessThan(0);
+    expect(check.latestDeparture! < check.departure).toBe(true);
+  });
+
+  it("flags a departure before dawn", () => {
+    const check = checkDaylight(
+      new Date("2026-06-21T08:00Z"),
+      90,
+      SAO_PAULO,
+      RIO
+    );
+    expect(check.departsAtNight).toBe(true);
+    expect(check.arrivesAtNight).toBe(false);
+  });
+
+  it("treats the polar night as night", () => {
+    const north = { lat: 78, lon: 15 };
+    const check = checkDaylight(
+      new Date("2026-12-21T12:00Z"),
+      30,
+      north,
+      north
+    );
+    expect(check.arrivesAtNight).toBe(true);
+    expect(check.margin).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+import { toDegrees, toRadians } from "./geo";
+import { Coordinates } from "./types";
+
+// Solar position after the NOAA solar calculator (Meeus, Astronomical
+// Algorithms), good to about a minute for the sun times below. Night is
+// the period between the end of evening and the start of morning civil
+// twilight, as in the Brazilian and ICAO definitions.
+
+export const SUNRISE_ALTITUDE = -0.833; // degrees, refraction and solar disc
+export const CIVIL_TWILIGHT_ALTITUDE = -6; // degrees
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_DAY = 86400000;
+
+export interface SunTimes {
+  civilDawn?: Date; // undefined when the sun never gets that high or low
+  sunrise?: Date;
+  sunset?: Date;
+  civilDusk?: Date;
+}
+
+export interface DaylightCheck {
+  departure: Date;
+  eta: Date; // departure plus the total flight time
+  departureSun: SunTimes; // local solar day of the departure
+  arrivalSun: SunTimes; // local solar day of the arrival
+  departsAtNight: boolean;
+  arrivesAtNight: boolean;
+  margin?: number; // minutes from the ETA to night at the arrival; negative once past
+  latestDeparture?: Date; // latest departure still landing before night
+}
+
+const solarPosition = (time: number) => {
+  const t = (time / MS_PER_DAY + 2440587.5 - 2451545) / 36525;
+  const meanLongitude = toRadians(
+    (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360
+  );
+  const anomaly = toRadians(357.52911 + t * (35999.05029 - 0.0001537 * t));
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const center =
+    Math.sin(anomaly) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * anomaly) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * anomaly) * 0.000289;
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const longitude = toRadians(
+    toDegrees(meanLongitude) + center - 0.00569 - 0.00478 * Math.sin(omega)
+  );
+  const meanObliquity =
+    23 +
+    (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const y = Math.tan(obliquity / 2) ** 2;
+  const equationOfTime =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * meanLongitude) -
+        2 * eccentricity * Math.sin(anomaly) +
+        4 * eccentricity * y * Math.sin(anomaly) * Math.cos(2 * meanLongitude) -
+        0.5 * y * y * Math.sin(4 * meanLongitude) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * anomaly)
+    );
+
+  return {
+    declination: Math.asin(Math.sin(obliquity) * Math.sin(longitude)),
+    equationOfTime, // minutes
+  };
+};
+
+/**
+ * Time the sun crosses an altitude, rising or setting, on the UTC day
+ * starting at dayStart (ms). Refined once at the first estimate.
+ */
+const crossing = (
+  dayStart: number,
+  { lat, lon }: Coordinates,
+  altitude: number,
+  rising: boolean
+): Date | undefined => {
+  let minutes = 720 - 4 * lon;
+  for (let i = 0; i < 2; i++) {
+    const { declination, equationOfTime } = solarPosition(
+      dayStart + minutes * MS_PER_MINUTE
+    );
+    const latitude = toRadians(lat);
+    const cosHourAngle =
+      (Math.sin(toRadians(altitude)) -
+        Math.sin(latitude) * Math.sin(declination)) /
+      (Math.cos(latitude) * Math.cos(declination));
+    if (Math.abs(cosHourAngle) > 1) return undefined;
+    const hourAngle = toDegrees(Math.acos(cosHourAngle));
+    minutes = 720 - 4 * lon - equationOfTime + (rising ? -4 : 4) * hourAngle;
+  }
+  return new Date(dayStart + minutes * MS_PER_MINUTE);
+};
+
+/**
+ * Civil twilight, sunrise and sunset in the local solar day containing
+ * time, so evening events stay on the same day in any time zone.
+ */
+export function sunTimes(coordinates: Coordinates, time: Date): SunTimes {
+  const solarDate = new Date(time.getTime() + (coordinates.lon / 15) * 3.6e6);
+  const dayStart = Date.UTC(
+    solarDate.getUTCFullYear(),
+    solarDate.getUTCMonth(),
+    solarDate.getUTCDate()
+  );
+  return {
+    civilDawn: crossing(dayStart, coordinates, CIVIL_TWILIGHT_ALTITUDE, true),
+    sunrise: crossing(dayStart, coordinates, SUNRISE_ALTITUDE, true),
+    sunset: crossing(dayStart, coordinates, SUNRISE_ALTITUDE, false),
+    civilDusk: crossing(dayStart, coordinates, CIVIL_TWILIGHT_ALTITUDE, false),
+  };
+}
+
+// Polar day and night leave the twilight undefined; the sun's altitude at
+// noon tells which of the two it is
+const isNight = (coordinates: Coordinates, time: Date, sun: SunTimes) => {
+  if (sun.civilDawn && sun.civilDusk) {
+    return time < sun.civilDawn || time > sun.civilDusk;
+  }
+  const { declination } = solarPosition(time.getTime());
+  const noonAltitude = 90 - Math.abs(coordinates.lat - toDegrees(declination));
+  return noonAltitude < CIVIL_TWILIGHT_ALTITUDE;
+};
+
+const minutesBetween = (from: Date, to: Date) =>
+  (to.getTime() - from.getTime()) / MS_PER_MINUTE;
+
+/**
+ * Whether a flight departing at a time and lasting totalMinutes departs or
+ * arrives at night, with the daylight left at the arrival and the latest
+ * departure that still lands before the end of evening civil twilight.
+ */
+export function checkDaylight(
+  departureTime: Date,
+  totalMinutes: number,
+  departure: Coordinates,
+  arrival: Coordinates
+): DaylightCheck {
+  const eta = new Date(departureTime.getTime() + totalMinutes * MS_PER_MINUTE);
+  const departureSun = sunTimes(departure, departureTime);
+  const arrivalSun = sunTimes(arrival, eta);
+  const dusk = arrivalSun.civilDusk;
+
+  return {
+    departure: departureTime,
+    eta,
+    departureSun,
+    arrivalSun,
+    departsAtNight: isNight(departure, departureTime, departureSun),
+    arrivesAtNight: isNight(arrival, eta, arrivalSun),
+    margin: dusk && Math.round(minutesBetween(eta, dusk)),
+    latestDeparture:
+      dusk && new Date(dusk.getTime() - totalMinutes * MS_PER_MINUTE),
+  };
+}
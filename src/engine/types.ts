@@ -0,0 +1,32 @@
+export type SpeedUnit = "kt" | "mph" | "kmh";
+export type RateUnit = "ftmin" | "ms";
+// How a phase speed is entered: true or indicated airspeed, or Mach number
+export type SpeedMode = "tas" | "ias" | "mach";
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export interface Airport {
+  icao: string;
+  elevation: number;
+  name?: string;
+  city?: string;
+  state?: string;
+  coordinates?: Coordinates;
+  runways?: Runway[];
+}
+
+export interface Runway {
+  designator: string; // both ends, e.g. "09/27" or "10L/28R"
+  length: number; // meters
+  width: number; // meters
+  surface: string; // e.g. "ASPH", "CONC", "GRASS", "GRVL"
+  heading: number; // degrees magnetic, first end
+}
+
+export interface Waypoint {
+  ident: string;
+  coordinates: Coordinates;
+}
@@ -0,0 +1,52 @@
+import { casToTas, machToTas } from "./atmosphere";
+import { RateUnit, SpeedMode, SpeedUnit } from "./types";
+
+export const convertSpeed = (
+  value: number,
+  from: SpeedUnit,
+  to: SpeedUnit
+): number => {
+  const toKnots: Record<SpeedUnit, number> = {
+    kt: 1,
+    mph: 0.868976,
+    kmh: 0.539957,
+  };
+  const fromKnots: Record<SpeedUnit, number> = {
+    kt: 1,
+    mph: 1.15078,
+    kmh: 1.852,
+  };
+  const result = value * toKnots[from] * fromKnots[to];
+  return isFinite(result) ? result : 0;
+};
+
+export const convertRate = (
+  value: number,
+  from: RateUnit,
+  to: RateUnit
+): number => {
+  if (from === to) return value;
+  let result;
+  if (from === "ftmin" && to === "ms") {
+    result = value * 0.00508;
+  } else {
+    result = value * 196.85;
+  }
+  return isFinite(result) ? result : 0;
+};
+
+/**
+ * True airspeed in knots for a speed entered in the given mode. Mach numbers
+ * are unitless; TAS and IAS are in the given speed unit.
+ */
+export const toTrueAirspeed = (
+  value: number,
+  mode: SpeedMode,
+  unit: SpeedUnit,
+  altitude: number,
+  isaDeviation = 0
+): number => {
+  if (mode === "mach") return machToTas(value, altitude, isaDeviation);
+  const knots = convertSpeed(value, unit, "kt");
+  return mode === "ias" ? casToTas(knots, altitude, isaDeviation) : knots;
+};
@@ -0,0 +1,303 @@
+import type { FlightProfileInput } from "./flightProfile";
+import type { FlightPhase, WindSolution } from "./wind";
+import { PerformanceBand, phaseSegments, tableCovers } from "./performance";
+
+const BEST_ALTITUDE_TOLERANCE_FT = 10;
+
+export type DiagnosticSeverity = "info" | "warning" | "error";
+export type DiagnosticPhase = "climb" | "cruise" | "descent" | "total";
+export type DiagnosticCode =
+  | "missing-input"
+  | "non-positive-speed"
+  | "non-positive-rate"
+  | "mach-out-of-range"
+  | "cruise-below-departure"
+  | "cruise-below-arrival"
+  | "above-service-ceiling"
+  | "descent-before-toc"
+  | "wind-exceeds-airspeed"
+  | "wind-ignored"
+  | "fuel-exceeds-capacity"
+  | "target-above-altitude"
+  | "descent-late"
+  | "semicircular-rule";
+
+// Inputs a diagnostic can point at
+export type DiagnosticField =
+  | "climbSpeed"
+  | "climbRate"
+  | "cruiseSpeed"
+  | "descentSpeed"
+  | "descentRate"
+  | "cruiseAltitude"
+  | "cruiseFlow";
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  phase: DiagnosticPhase;
+  variant?: string; // alternative wording of the same code, e.g. per band
+  params?: Record<string, string | number>; // values quoted in the message
+}
+
+// Distances (NM, unrounded) already derived from the input
+export interface ProfileGeometry {
+  tocDistance: number;
+  todDistance: number;
+  totalDistance: number;
+  routeKnown: boolean;
+  wind?: Record<FlightPhase, WindSolution>;
+  // Climb plus descent distance (NM) for a cruise altitude, in the winds of the entered one
+  phaseDistance: (altitude: number) => number;
+}
+
+export interface ValidationReport {
+  diagnostics: Diagnostic[];
+  // Highest cruise altitude (ft) that still fits the leg, if the entered one does not
+  bestAltitude?: number;
+}
+
+export const checkPositive = (
+  value: number,
+  phase: DiagnosticPhase,
+  code: "non-positive-speed" | "non-positive-rate",
+  field: DiagnosticField
+): Diagnostic | null => {
+  if (value === 0) {
+    return {
+      code: "missing-input",
+      severity: "info",
+      phase,
+      params: { field },
+    };
+  }
+  if (!(value > 0)) {
+    return {
+      code,
+      severity: "error",
+      phase,
+      params: { field },
+    };
+  }
+  return null;
+};
+
+/**
+ * Whether the figures of a phase can be trusted. Cruise and total figures
+ * depend on every other phase; climb and descent only on their own inputs.
+ */
+export function isPhaseComputable(
+  diagnostics: Diagnostic[],
+  phase: DiagnosticPhase
+): boolean {
+  return !diagnostics.some(
+    (d) =>
+      d.severity !== "warning" &&
+      (d.phase === phase ||
+        d.phase === "total" ||
+        phase === "cruise" ||
+        phase === "total")
+  );
+}
+
+/**
+ * Highest altitude between floor and ceiling at which the climb and descent
+ * still fit in the leg. Tables and true airspeed make the phase distances
+ * nonlinear in altitude but never shrinking as it grows, so it is found by
+ * bisection. Undefined when even the floor does not fit.
+ */
+const bestAchievableAltitude = (
+  phaseDistance: (altitude: number) => number,
+  totalDistance: number,
+  floor: number,
+  ceiling: number
+): number | undefined => {
+  if (phaseDistance(floor) > totalDistance) return undefined;
+  let low = floor;
+  let high = ceiling;
+  while (high - low > BEST_ALTITUDE_TOLERANCE_FT) {
+    const middle = (low + high) / 2;
+    if (phaseDistance(middle) > totalDistance) high = middle;
+    else low = middle;
+  }
+  return low;
+};
+
+export function validateFlightProfile(
+  input: FlightProfileInput,
+  geometry: ProfileGeometry
+): ValidationReport {
+  const diagnostics: Diagnostic[] = [];
+  const push = (diagnostic: Diagnostic | null) => {
+    if (diagnostic) diagnostics.push(diagnostic);
+  };
+
+  const departureElevation = input.departure?.elevation || 0;
+  const arrivalElevation = input.arrival?.elevation || 0;
+  const phases: {
+    phase: "climb" | "cruise" | "descent";
+    speed: number;
+    rate?: number;
+    table?: PerformanceBand[];
+    lower: number;
+  }[] = [
+    {
+      phase: "climb",
+      speed: input.climbSpeed,
+      rate: input.climbRate,
+      table: input.climbTable,
+      lower: departureElevation,
+    },
+    {
+      phase: "cruise",
+      speed: input.cruiseSpeed,
+      lower: input.cruiseAltitude,
+    },
+    {
+      phase: "descent",
+      speed: input.descentSpeed,
+      rate: input.descentRate,
+      table: input.descentTable,
+      lower: arrivalElevation,
+    },
+  ];
+
+  phases.forEach(({ phase, speed, rate, table, lower }) => {
+    const phaseMode = input.speedModes?.[phase];
+    const checkMach = (
+      value: number,
+      band?: { floor: number; ceiling: number },
+      mode = phaseMode
+    ) => {
+      if (mode !== "mach" || value < 1) return;
+      diagnostics.push({
+        code: "mach-out-of-range",
+        severity: "error",
+        phase,
+        ...(band ? { variant: "band", params: band } : {}),
+      });
+    };
+
+    // A band table covering the whole phase replaces the single values
+    if (!tableCovers(table, lower, input.cruiseAltitude)) {
+      push(checkPositive(speed, phase, "non-positive-speed", `${phase}Speed`));
+      if (rate !== undefined) {
+        push(
+          checkPositive(
+            rate,
+            phase,
+            "non-positive-rate",
+            phase === "climb" ? "climbRate" : "descentRate"
+          )
+        );
+      }
+      checkMach(speed);
+    }
+
+    phaseSegments(lower, input.cruiseAltitude, table, { speed: 0, rate: 0 })
+      .filter((segment) => segment.fromTable)
+      .forEach((segment) => {
+        const band = { floor: segment.floor, ceiling: segment.ceiling };
+        if (!(segment.speed > 0) || !(segment.rate > 0)) {
+          diagnostics.push({
+            code:
+              segment.speed > 0 ? "non-positive-rate" : "non-positive-speed",
+            severity: "error",
+            phase,
+            variant: "band",
+            params: band,
+          });
+        }
+        checkMach(segment.speed, band, segment.mode ?? phaseMode);
+      });
+  });
+
+  if (!input.cruiseAltitude) {
+    diagnostics.push({
+      code: "missing-input",
+      severity: "info",
+      phase: "total",
+      params: { field: "cruiseAltitude" },
+    });
+  } else {
+    if (input.departure && input.cruiseAltitude <= input.departure.elevation) {
+      diagnostics.push({
+        code: "cruise-below-departure",
+        severity: "error",
+        phase: "climb",
+        params: { elevation: input.departure.elevation },
+      });
+    }
+    if (input.arrival && input.cruiseAltitude <= input.arrival.elevation) {
+      diagnostics.push({
+        code: "cruise-below-arrival",
+        severity: "error",
+        phase: "descent",
+        params: { elevation: input.arrival.elevation },
+      });
+    }
+  }
+
+  if (input.serviceCeiling && input.cruiseAltitude > input.serviceCeiling) {
+    diagnostics.push({
+      code: "above-service-ceiling",
+      severity: "warning",
+      phase: "cruise",
+      params: { ceiling: input.serviceCeiling },
+    });
+  }
+
+  if (input.winds && !geometry.routeKnown) {
+    diagnostics.push({
+      code: "wind-ignored",
+      severity: "warning",
+      phase: "total",
+    });
+  }
+
+  const report: ValidationReport = { diagnostics };
+  const inputsValid = !diagnostics.some((d) => d.severity !== "warning");
+  const wind = geometry.wind;
+
+  if (inputsValid && wind) {
+    (["climb", "cruise", "descent"] as const).forEach((phase) => {
+      if (!isNaN(wind[phase].groundSpeed)) return;
+      diagnostics.push({
+        code: "wind-exceeds-airspeed",
+        severity: "error",
+        phase,
+      });
+    });
+  }
+
+  if (
+    !diagnostics.some((d) => d.severity !== "warning") &&
+    geometry.routeKnown &&
+    geometry.tocDistance + geometry.todDistance > geometry.totalDistance
+  ) {
+    const floor = Math.max(departureElevation, arrivalElevation);
+    const best = bestAchievableAltitude(
+      geometry.phaseDistance,
+      geometry.totalDistance,
+      floor,
+      input.cruiseAltitude
+    );
+    if (best !== undefined && best > floor) {
+      report.bestAltitude = Math.floor(best / 100) * 100;
+    }
+
+    diagnostics.push({
+      code: "descent-before-toc",
+      severity: "error",
+      phase: "cruise",
+      ...(report.bestAltitude !== undefined
+        ? {
+            variant: "best",
+            params: { altitude: report.bestAltitude },
+          }
+        : {}),
+    });
+  }
+
+  return report;
+}
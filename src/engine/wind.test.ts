@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { averageBandWind, solveWindTriangle, WindBand } from "./wind";
+
+describe("solveWindTriangle", () => {
+  it("slows the ground speed in a headwind", () => {
+    const solution = solveWindTriangle(90, 100, { direction: 90, speed: 20 });
+    expect(solution.headwind).toBeCloseTo(20, 6);
+    expect(solution.crosswind).toBeCloseTo(0, 6);
+    expect(solution.windCorrectionAngle).toBeCloseTo(0, 6);
+    expect(solution.heading).toBeCloseTo(90, 6);
+    expect(solution.groundSpeed).toBeCloseTo(80, 6);
+  });
+
+  it("speeds it up in a tailwind", () => {
+    const solution = solveWindTriangle(90, 100, { direction: 270, speed: 20 });
+    expect(solution.headwind).toBeCloseTo(-20, 6);
+    expect(solution.groundSpeed).toBeCloseTo(120, 6);
+  });
+
+  it("turns into a pure crosswind and loses the cosine", () => {
+    const solution = solveWindTriangle(0, 100, { direction: 90, speed: 30 });
+    expect(solution.headwind).toBeCloseTo(0, 6);
+    expect(solution.crosswind).toBeCloseTo(30, 6);
+    expect(solution.windCorrectionAngle).toBeCloseTo(17.46, 2);
+    expect(solution.heading).toBeCloseTo(17.46, 2);
+    expect(solution.groundSpeed).toBeCloseTo(95.39, 2);
+
+    const fromLeft = solveWindTriangle(0, 100, { direction: 270, speed: 30 });
+    expect(fromLeft.heading).toBeCloseTo(342.54, 2);
+  });
+
+  it("has no ground speed when the wind exceeds the airspeed", () => {
+    const crosswind = solveWindTriangle(0, 100, { direction: 90, speed: 120 });
+    expect(crosswind.groundSpeed).toBeNaN();
+    expect(crosswind.windCorrectionAngle).toBeNaN();
+
+    const headwind = solveWindTriangle(0, 100, { direction: 0, speed: 120 });
+    expect(headwind.windCorrectionAngle).toBeCloseTo(0, 6);
+    expect(headwind.groundSpeed).toBeNaN();
+  });
+});
+
+describe("averageBandWind", () => {
+  const bands: WindBand[] = [
+    { floor: 0, ceiling: 4000, wind: { direction: 360, speed: 20 } },
+    { floor: 4000, ceiling: 8000, wind: { direction: 90, speed: 20 } },
+  ];
+
+  it("averages the wind vectors by the height of each band", () => {
+    const wind = averageBandWind(bands, 0, 8000);
+    expect(wind.direction).toBeCloseTo(45, 6);
+    expect(wind.speed).toBeCloseTo(Math.hypot(10, 10), 6);
+    expect(averageBandWind(bands, 8000, 0)).toEqual(wind);
+  });
+
+  it("counts heights outside every band as calm", () => {
+    const wind = averageBandWind(bands.slice(0, 1), 0, 8000);
+    expect(wind.direction).toBeCloseTo(0, 6);
+    expect(wind.speed).toBeCloseTo(10, 6);
+  });
+
+  it("takes the band a level segment sits in", () => {
+    expect(averageBandWind(bands, 4000, 4000)).toEqual(bands[1].wind);
+    expect(averageBandWind(bands, 9000, 9000)).toEqual({
+      direction: 0,
+      speed: 0,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { normalizeDegrees, toDegrees, toRadians } from "./geo";
+
+export type FlightPhase = "climb" | "cruise" | "descent";
+
+export interface Wind {
+  direction: number; // degrees true the wind blows from
+  speed: number; // kt once resolved by the engine
+}
+
+export interface WindBand {
+  floor: number; // feet
+  ceiling: number; // feet
+  wind: Wind;
+}
+
+export type WindProfile =
+  | { mode: "phase"; climb?: Wind; cruise?: Wind; descent?: Wind }
+  | { mode: "bands"; bands: WindBand[] };
+
+export interface WindSolution {
+  headwind: number; // kt, negative for tailwind
+  crosswind: number; // kt, positive from the right
+  windCorrectionAngle: number; // degrees, positive to the right
+  heading: number; // degrees true
+  groundSpeed: number; // kt, NaN when the wind exceeds the airspeed
+}
+
+export const CALM: Wind = { direction: 0, speed: 0 };
+
+export const windComponents = (
+  trueCourse: number,
+  wind: Wind
+): { headwind: number; crosswind: number } => {
+  const angle = toRadians(wind.direction - trueCourse);
+  return {
+    headwind: wind.speed * Math.cos(angle),
+    crosswind: wind.speed * Math.sin(angle),
+  };
+};
+
+/**
+ * Solves the wind triangle for a true course flown at the given true
+ * airspeed.
+ */
+export const solveWindTriangle = (
+  trueCourse: number,
+  trueAirspeed: number,
+  wind: Wind
+): WindSolution => {
+  const { headwind, crosswind } = windComponents(trueCourse, wind);
+  const ratio = crosswind / trueAirspeed;
+  const correction = Math.abs(ratio) <= 1 ? Math.asin(ratio) : NaN;
+  const groundSpeed = trueAirspeed * Math.cos(correction) - headwind;
+
+  return {
+    headwind,
+    crosswind,
+    windCorrectionAngle: toDegrees(correction),
+    heading: normalizeDegrees(trueCourse + toDegrees(correction)),
+    groundSpeed: groundSpeed > 0 ? groundSpeed : NaN,
+  };
+};
+
+/**
+ * Mean wind between two altitudes, averaging the wind vectors of each band
+ * by the height it covers. Climb and descent are flown at a constant rate,
+ * so height is proportional to the time spent in each band. Altitudes not
+ * covered by any band count as calm.
+ */
+export const averageBandWind = (
+  bands: WindBand[],
+  lower: number,
+  upper: number
+): Wind => {
+  const from = Math.min(lower, upper);
+  const to = Math.max(lower, upper);
+  const height = to - from;
+
+  // A level segment samples the band it sits in
+  if (height === 0) {
+    const band = bands.find((b) => from >= b.floor && from < b.ceiling);
+    return band ? band.wind : CALM;
+  }
+
+  let north = 0;
+  let east = 0;
+  bands.forEach((band) => {
+    const overlap = Math.min(to, band.ceiling) - Math.max(from, band.floor);
+    if (overlap <= 0) return;
+    const weight = overlap / height;
+    const direction = toRadians(band.wind.direction);
+    north += band.wind.speed * Math.cos(direction) * weight;
+    east += band.wind.speed * Math.sin(direction) * weight;
+  });
+
+  return {
+    direction: normalizeDegrees(toDegrees(Math.atan2(east, north))),
+    speed: Math.hypot(north, east),
+  };
+};
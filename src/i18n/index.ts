@@ -0,0 +1,148 @@
+import { useMemo, useSyncExternalStore } from "react";
+import type { Diagnostic } from "../engine/validation";
+import type { MessageKey } from "./locales/pt-BR";
+
+export type { MessageKey } from "./locales/pt-BR";
+
+export type MessageParams = Record<string, string | number>;
+
+export interface Catalog {
+  locale: string; // BCP 47 tag, also used to format numbers and times
+  label: string; // language name, written in that language
+  messages: Record<MessageKey, string>;
+}
+
+// Every module in ./locales is a catalog: adding a language only takes a
+// new file there. pt-BR is the source catalog that defines the keys.
+export const DEFAULT_LOCALE = "pt-BR";
+const STORAGE_KEY = "toc-tod:locale";
+
+const catalogs = new Map(
+  Object.values(
+    import.meta.glob<{ default: Catalog }>("./locales/*.ts", { eager: true })
+  ).map(({ default: catalog }) => [catalog.locale, catalog])
+);
+
+export const availableLocales = [...catalogs.values()].map(
+  ({ locale, label }) => ({ locale, label })
+);
+
+// Stored choice first, then the browser languages, exact or by language
+const detectLocale = (): string => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && catalogs.has(stored)) return stored;
+  } catch {
+    // Storage unavailable: fall through to the browser languages
+  }
+  const preferred = typeof navigator === "undefined" ? [] : navigator.languages;
+  for (const tag of preferred ?? []) {
+    if (catalogs.has(tag)) return tag;
+    const language = tag.split("-")[0];
+    const match = [...catalogs.keys()].find(
+      (locale) => locale.split("-")[0] === language
+    );
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+};
+
+let currentLocale = detectLocale();
+if (typeof document !== "undefined") {
+  document.documentElement.lang = currentLocale;
+}
+const listeners = new Set<() => void>();
+
+export const getLocale = (): string => currentLocale;
+
+/** Subscribes to language changes; returns the unsubscribe function. */
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Switches the language and remembers it for the next session. */
+export function setLocale(locale: string): void {
+  if (!catalogs.has(locale) || locale === currentLocale) return;
+  currentLocale = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage full or unavailable (private mode): the choice lasts the session
+  }
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+}
+
+export interface Translator {
+  locale: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  has: (key: string) => key is MessageKey;
+  formatNumber: (value: number, maximumFractionDigits?: number) => string;
+  formatClock: (minutes: number) => string; // minutes after midnight, UTC
+}
+
+export function createTranslator(locale: string): Translator {
+  const messages = (catalogs.get(locale) ?? catalogs.get(DEFAULT_LOCALE)!)
+    .messages;
+  const numberFormats = new Map<number, Intl.NumberFormat>();
+  const clockFormat = new Intl.DateTimeFormat(locale, {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+
+  const formatNumber = (value: number, maximumFractionDigits = 1) => {
+    let format = numberFormats.get(maximumFractionDigits);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, { maximumFractionDigits });
+      numberFormats.set(maximumFractionDigits, format);
+    }
+    return format.format(value);
+  };
+
+  // "{name}" placeholders; numbers are formatted for the locale
+  const t = (key: MessageKey, params?: MessageParams) =>
+    messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params?.[name];
+      if (value === undefined) return placeholder;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+
+  return {
+    locale,
+    t,
+    has: (key: string): key is MessageKey => key in messages,
+    formatNumber,
+    formatClock: (minutes: number) =>
+      clockFormat.format(new Date(Math.round(minutes) * 60000)),
+  };
+}
+
+/** The active translator; components re-render when the language changes. */
+export function useI18n(): Translator {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return useMemo(() => createTranslator(locale), [locale]);
+}
+
+/**
+ * Engine diagnostics in the active language, looked up by code and variant.
+ * Falls back to the plain code wording for an unknown variant, and to the
+ * code itself when the catalog has neither.
+ */
+export function diagnosticMessage(
+  diagnostic: Diagnostic,
+  { t, has }: Translator
+): string {
+  const base = `diagnostic.${diagnostic.code}`;
+  const variant = `${base}.${diagnostic.variant}`;
+  const key = diagnostic.variant && has(variant) ? variant : base;
+  if (!has(key)) return diagnostic.code;
+  const params: MessageParams = { ...diagnostic.params };
+  const field = `field.${params.field}`;
+  if (has(field)) params.field = t(field);
+  const message = t(key, params);
+  return message.charAt(0).toUpperCase() + message.slice(1);
+}
@@ -0,0 +1,483 @@
+import type { Catalog } from "..";
+
+const catalog: Catalog = {
+  locale: "en",
+  label: "English",
+  messages: {
+    // common
+    "common.distance": "Distance",
+    "common.time": "Time",
+    "units.nm": "{value} NM",
+    "units.min": "{value} min",
+    "units.ft": "{value} ft",
+    "units.minutes": "{value} minutes",
+    // bands
+    "bands.band": "Band (ft)",
+    // position
+    "position.label": "{label} position:",
+    "position.afterFix": "{distance} NM past {fix}",
+    "position.copy": "Copy {label} position",
+    // aircraft profile
+    "profile.title": "Aircraft Profile",
+    "profile.custom": "Custom",
+    "profile.builtIn": "Presets",
+    "profile.mine": "My profiles",
+    "profile.delete": "Delete profile",
+    "profile.save": "Save current profile",
+    "profile.ceiling": "Service ceiling: {ceiling} ft",
+    "profile.namePlaceholder": "Profile name (e.g. PR-ABC)",
+    "profile.ceilingPlaceholder": "Service ceiling (ft, optional)",
+    "profile.saveCurrent": "Save current speeds and rates",
+    "profile.distances":
+      "Takeoff {takeoff} m, landing {landing} m (50 ft obstacle)",
+    "profile.takeoffPlaceholder": "Takeoff (m, optional)",
+    "profile.landingPlaceholder": "Landing (m, optional)",
+    // performance tables
+    "performance.byBand": "{label} by altitude band",
+    "performance.from": "From (ft)",
+    "performance.to": "To (ft)",
+    "performance.speedShort": "Speed",
+    "performance.mode": "Type",
+    "performance.rate": "Rate ({unit})",
+    "performance.floor": "Band floor (ft)",
+    "performance.ceiling": "Band ceiling (ft)",
+    "performance.speed": "Speed ({unit})",
+    "performance.phaseMode": "Phase",
+    "performance.remove": "Remove band",
+    "performance.add": "Add band",
+    "speedMode.label": "Speed type",
+    // wind solution
+    "wind.groundSpeed": "Ground speed:",
+    "wind.headwind": "headwind {value}",
+    "wind.tailwind": "tailwind {value}",
+    "wind.crosswind": "crosswind {value}",
+    "wind.correction": "Wind correction:",
+    "wind.trueHeading": "true heading {heading}°",
+    // phases
+    "phase.climb": "Climb",
+    "phase.cruise": "Cruise",
+    "phase.descent": "Descent",
+    // wind panel
+    "windPanel.title": "Wind",
+    "windPanel.none": "No wind",
+    "windPanel.byPhase": "By phase",
+    "windPanel.byBand": "By altitude band",
+    "windPanel.direction": "Direction (°)",
+    "windPanel.directionLabel": "Wind direction (degrees)",
+    "windPanel.speedLabel": "Wind speed ({unit})",
+    "windPanel.speedShort": "Speed ({unit})",
+    "airportSearch.placeholder": "ICAO, IATA, name or city",
+    // fuel panel
+    "fuel.type": "Fuel",
+    "fuel.unit": "Unit",
+    "fuel.unit.l": "Liters (L/h)",
+    "fuel.unit.gal": "US gallons (gal/h)",
+    "fuel.unit.kg": "Kilograms (kg/h)",
+    "fuel.unit.lb": "Pounds (lb/h)",
+    "fuel.climbFlow": "Climb ({unit}/h)",
+    "fuel.cruiseFlow": "Cruise ({unit}/h)",
+    "fuel.descentFlow": "Descent ({unit}/h)",
+    "fuel.taxi": "Taxi ({unit})",
+    "fuel.contingencyPercent": "Contingency (%)",
+    "fuel.finalReserve": "Final reserve",
+    "fuel.capacity": "Usable capacity",
+    "fuel.capacityUnit": "Capacity unit",
+    "fuel.alternate": "Alternate ICAO",
+    // fuel summary
+    "fuelSummary.trip": "Trip",
+    "fuelSummary.contingency": "Contingency ({percent}%)",
+    "fuelSummary.alternate": "Alternate",
+    "fuelSummary.finalReserve": "Final reserve ({minutes} min)",
+    "fuelSummary.minimum": "Minimum at takeoff",
+    "fuelSummary.taxi": "Taxi",
+    "fuelSummary.block": "Block fuel",
+    "fuelSummary.margin": "Margin",
+    // flight plan sharing
+    "plan.fileName": "plan",
+    "plan.copyLink": "Copy link",
+    "plan.linkCopied": "Link copied",
+    "plan.export": "Export JSON",
+    "plan.import": "Import JSON",
+    "plan.saveHistory": "Save to history",
+    "plan.importFailed": "The plan could not be imported:",
+    "plan.recent": "Recent plans",
+    "plan.issue.invalid-json": "The file is not valid JSON.",
+    "plan.issue.no-plan": "The file does not contain a flight plan.",
+    "plan.issue.missing-version": "The file version is missing.",
+    "plan.issue.unsupported-version":
+      "Version {version} is not supported; update the calculator.",
+    "plan.issue.not-object": "{path} must be an object.",
+    "plan.issue.not-list": "{path} must be a list.",
+    "plan.issue.not-number": "{path} must be a number.",
+    "plan.issue.not-text": "{path} must be text.",
+    "plan.issue.invalid-option": "{path} must be one of {options}.",
+    // navlog
+    "navlog.offBlock": "Off-block (HH:MM)",
+    "navlog.taxi": "Taxi (min)",
+    "navlog.print": "Print",
+    "navlog.exportCsv": "Export CSV",
+    "navlog.departure": "Departure",
+    "navlog.arrival": "Arrival",
+    "navlog.elevation": "Elev. {elevation} ft",
+    "navlog.cruiseAltitude": "Cruise altitude:",
+    "navlog.todBeforeArrival": "{distance} NM before arrival",
+    "navlog.times": "Times:",
+    "navlog.timeBreakdown":
+      "climb {climb} min · cruise {cruise} min · descent {descent} min · total {total} min",
+    "navlog.fix": "Fix",
+    "navlog.altitude": "Alt. (ft)",
+    "navlog.position": "Position",
+    "navlog.distance": "Dist.",
+    "navlog.cumulative": "Total",
+    "navlog.fuel": "Fuel",
+    "navlog.note":
+      "Distances in NM and times in minutes, counted from takeoff.",
+    "navlog.csv.fix": "Fix",
+    "navlog.csv.altitude": "Altitude (ft)",
+    "navlog.csv.position": "Position",
+    "navlog.csv.legDistance": "Leg dist. (NM)",
+    "navlog.csv.totalDistance": "Total dist. (NM)",
+    "navlog.csv.legTime": "Leg time (min)",
+    "navlog.csv.elapsed": "Elapsed time (min)",
+    "navlog.csv.fuel": "Fuel remaining",
+    "units.kt": "{value} kt",
+    "units.ftmin": "{value} ft/min",
+    "units.degrees": "{value}°",
+    // descent planner
+    "descent.fix": "fix",
+    "descent.arrival": "arrival",
+    "descent.currentAltitude": "Current altitude (feet)",
+    "descent.target": "Target",
+    "descent.target.pattern": "Pattern altitude",
+    "descent.target.restriction": "Crossing restriction",
+    "descent.patternHeight": "Pattern height (feet AGL)",
+    "descent.patternTarget":
+      "Target: {altitude} ft ({field} elevation: {elevation} ft)",
+    "descent.crossAtOrBelow": "Cross at or below (feet)",
+    "descent.nmBefore": "NM before {fix}",
+    "descent.angle": "Angle (°)",
+    "descent.headwind": "Headwind ({unit})",
+    "descent.headwindLabel": "Headwind component (negative for tailwind)",
+    "descent.distanceToFix": "Distance to {fix} (NM)",
+    "descent.planned": "Planned Descent",
+    "descent.todBefore": "TOD before {fix}",
+    "descent.altitudeToLose": "Altitude to lose",
+    "descent.time": "Descent time",
+    "descent.groundSpeed": "Average ground speed",
+    "descent.pathRate": "Rate for a {angle}° path",
+    "descent.pathTod": "TOD for {angle}°",
+    "descent.nmBeforeFix": "{distance} NM before {fix}",
+    "descent.currentPosition": "Current Position",
+    "descent.startIn": "Start descent in",
+    "descent.now": "now",
+    "descent.requiredRate": "Required rate",
+    "descent.requiredAngle": "Required angle",
+    "common.elevation": "Elevation",
+    "airportDb.queryFailed": "The airport database could not be queried.",
+    // cruise level advisor
+    "levels.title": "Suggested levels",
+    "levels.rules": "Flight rules",
+    "levels.minimum": "MEA (ft)",
+    "levels.minimumLabel": "Minimum en-route altitude (MEA), in feet",
+    "levels.needAirports":
+      "Select both airports to get cruise level suggestions.",
+    "levels.course.odd":
+      "Direct magnetic course {course}°: odd levels, quickest first.",
+    "levels.course.even":
+      "Direct magnetic course {course}°: even levels, quickest first.",
+    "levels.none":
+      "No feasible level: check the speeds, rates and MEA for this leg.",
+    "levels.fastest": "quickest",
+    "levels.cruiseTime": "Cruise: {value} min",
+    // weather reports
+    "weather.intro":
+      "Paste the METAR and/or TAF of each airport. Decoding happens locally; nothing is sent over the network.",
+    "weather.departure": "Departure",
+    "weather.arrival": "Arrival",
+    "weather.paste": "{label} METAR/TAF",
+    "weather.placeholder": "METAR SBSP 191200Z 14012KT 9999 FEW030 24/16 Q1018",
+    "weather.fetch": "Fetch from {provider}",
+    "weather.fetchFailed": "Could not fetch the reports.",
+    "weather.runway": "Runway",
+    "weather.runwayPlaceholder": "E.g. 09 or 27L",
+    "weather.invalidRunway":
+      "Invalid runway designator (01 to 36, with L, C or R).",
+    "weather.invalidReport": "The report could not be decoded:",
+    "weather.validity": "valid {from} to {to}",
+    "weather.stationMismatch": "Report for {station}, not {icao}.",
+    "weather.wind": "Wind",
+    "weather.calm": "calm",
+    "weather.variable": "variable",
+    "weather.gust": "gusting {value} kt",
+    "weather.varying": "varying between {from}° and {to}°",
+    "weather.visibility": "Visibility",
+    "weather.visibilityUnlimited": "10 km or more",
+    "weather.meters": "{value} m",
+    "weather.temperature": "Temperature / dew point",
+    "weather.qnh": "QNH",
+    "weather.pressureAltitude": "Pressure altitude",
+    "weather.densityAltitude": "Density altitude",
+    "weather.isaDeviation": "ISA deviation",
+    "weather.applyIsa": "Use in calculation",
+    "weather.runwayWind": "Wind on runway {runway}",
+    "weather.crosswindRight": "crosswind {value} from the right",
+    "weather.crosswindLeft": "crosswind {value} from the left",
+    "weather.gustCrosswind": "{value} in gusts",
+    "weather.variableRunwayWind":
+      "Variable wind: runway components cannot be determined.",
+    "weather.issue.empty": "Paste the text of a METAR or TAF.",
+    "weather.issue.nil-report":
+      "NIL report: there is no observation for the station.",
+    "weather.issue.invalid-station":
+      "Missing or invalid station identifier (4 letters or digits).",
+    "weather.issue.invalid-time": "Invalid issue date/time (format ddhhmmZ).",
+    "weather.issue.invalid-validity":
+      "Missing or invalid TAF validity period (format ddhh/ddhh).",
+    "weather.issue.invalid-wind":
+      "Invalid wind group: dddffKT or dddffGffKT, direction in tens of degrees up to 360 and gusts above the mean speed.",
+    "weather.issue.invalid-variable-wind":
+      "Invalid variable wind direction, or no wind group before it.",
+    "weather.issue.invalid-visibility": "Invalid visibility.",
+    "weather.issue.invalid-temperature":
+      "Invalid temperature (format TT/TdTd, M for negatives, dew point not above the temperature).",
+    "weather.issue.invalid-pressure":
+      "Invalid QNH (Q followed by 4 digits in hPa, or A in hundredths of inHg).",
+    "weather.issue.duplicate-group": "Repeated group was ignored.",
+    // runways
+    "runways.title": "Runways",
+    "runways.none": "No runway data for this airport.",
+    "runways.wind": "Wind (°T/kt)",
+    "runways.windDirection": "Wind direction, degrees true",
+    "runways.windSpeed": "Wind speed, kt",
+    "runways.runway": "Runway",
+    "runways.size": "Size",
+    "runways.surface": "Surface",
+    "runways.headwind": "Head (kt)",
+    "runways.crosswind": "Cross (kt)",
+    "runways.margin": "Margin",
+    "runways.required.takeoff":
+      "Takeoff needs {distance} m (aircraft profile, sea level ISA).",
+    "runways.required.landing":
+      "Landing needs {distance} m (aircraft profile, sea level ISA).",
+    "runways.noDistance.takeoff":
+      "Select a profile with a takeoff distance to check the runways.",
+    "runways.noDistance.landing":
+      "Select a profile with a landing distance to check the runways.",
+    "runways.check": "Required {required} m, available {available} m",
+    "runways.fits": "+{margin} m",
+    "runways.short": "{missing} m short",
+    // daylight
+    "daylight.intro":
+      "Sunrise, sunset and civil twilight computed offline for the airport coordinates. Night is the period between the end of evening civil twilight and the beginning of morning civil twilight. Times in UTC.",
+    "daylight.date": "Date (UTC)",
+    "daylight.departureTime": "Takeoff (UTC)",
+    "daylight.departure": "Departure",
+    "daylight.arrival": "Arrival",
+    "daylight.civilDawn": "Civil twilight begins",
+    "daylight.sunrise": "Sunrise",
+    "daylight.sunset": "Sunset",
+    "daylight.civilDusk": "Civil twilight ends",
+    "daylight.noCoordinates":
+      "Select departure and arrival airports with coordinates to compute daylight.",
+    "daylight.enterTime": "Enter the takeoff date and time to check daylight.",
+    "daylight.departsAtNight": "Takeoff at {departure} is at night.",
+    "daylight.arrivesInDaylight":
+      "Arrival at {eta} in daylight, {margin} min before civil twilight ends ({dusk}).",
+    "daylight.arrivesAtNight":
+      "Arrival at {eta} at night, {late} min after civil twilight ended ({dusk}).",
+    "daylight.arrivesBeforeDawn":
+      "Arrival at {eta} at night, before civil twilight begins ({dawn}).",
+    "daylight.arrivesInPolarDay":
+      "Arrival at {eta} in daylight (midnight sun).",
+    "daylight.arrivesInPolarNight": "Arrival at {eta} at night (polar night).",
+    "daylight.latestDeparture": "Latest takeoff to land in daylight:",
+    // app update
+    "update.available": "New version available",
+    "update.description":
+      "Reload to use the new version. Your inputs are kept.",
+    "update.reload": "Update",
+    "update.later": "Later",
+    // nearest airports
+    "nearest.point": "Point",
+    "nearest.alongRoute": "Along the route",
+    "nearest.coordinates": "Coordinates",
+    "nearest.count": "Count",
+    "nearest.distanceFromDeparture": "Distance from departure (NM)",
+    "nearest.empty": "Set a point to list the nearest airports.",
+    "nearest.airport": "Airport",
+    "nearest.bearing": "Bearing",
+    // diversion coverage
+    "diversion.analyzing": "Analyzing the route…",
+    "diversion.radius": "Maximum radius (NM)",
+    "diversion.covered":
+      "There is an airport within {radius} NM along the whole route.",
+    "diversion.gap":
+      "No airport within {radius} NM between {start} and {end} NM from departure.",
+    "diversion.stretch": "Stretch (NM)",
+    "diversion.nearest": "Nearest alternate",
+    "diversion.maxDistance": "Max dist.",
+    "diversion.maxTime": "Max time",
+    "airportDb.unavailable": "Airport database unavailable.",
+    "airportDb.loading": "Loading airport database…",
+    "airportDb.retry": "Try again",
+    // airport dataset
+    "dataset.noneValid": "No valid airport found in the file.",
+    "dataset.loadFailed": "The airport database could not be loaded.",
+    "dataset.loaded": "{count} airports loaded from {file}.",
+    "dataset.saveFailed": "They could not be saved in the browser.",
+    "dataset.restored": "Original database restored.",
+    "dataset.bundled": "{count} bundled airports",
+    "dataset.user": "{count} from the user",
+    "dataset.notLoaded": "Bundled database loads on first use",
+    "dataset.load": "Load JSON or CSV",
+    "dataset.restore": "Restore original database",
+    "dataset.fields":
+      "Fields: icao, name, city, state, elevation (ft), lat, lon and, optionally, iata and runways (in CSV, '10/28 1200x30 ASPH' entries split by '|'). User entries replace the bundled ones by ICAO.",
+    "dataset.issues": "{errors} row(s) skipped, {warnings} warning(s):",
+    "dataset.issue.empty-csv": "The CSV file is empty.",
+    "dataset.issue.missing-icao-column": "The CSV header has no icao column.",
+    "dataset.issue.invalid-json": "The file is not valid JSON.",
+    "dataset.issue.not-a-list": "The JSON must contain a list of airports.",
+    "dataset.issue.invalid-record": "Invalid record.",
+    "dataset.issue.invalid-icao":
+      "Missing or invalid ICAO (4 letters or digits).",
+    "dataset.issue.duplicate-icao":
+      "Duplicate ICAO; already defined on row {first}.",
+    "dataset.issue.missing-name": "Missing name.",
+    "dataset.issue.missing-elevation": "Missing elevation.",
+    "dataset.issue.invalid-latitude": "Latitude outside -90 to 90.",
+    "dataset.issue.invalid-longitude": "Longitude outside -180 to 180.",
+    "dataset.issue.invalid-iata": "Invalid IATA code ignored.",
+    "dataset.issue.invalid-runway": "Runway {runway} skipped.",
+    "dataset.issue.invalid-runway.format":
+      "Runway {runway} skipped: use the format 10/28 1200x30 ASPH.",
+    "dataset.issue.invalid-runway.designator":
+      "Runway {runway} skipped: invalid designator (01 to 36, with L, C or R).",
+    "dataset.issue.invalid-runway.size":
+      "Runway {runway} skipped: length and width must be greater than zero.",
+    "dataset.issue.invalid-runway.surface":
+      "Runway {runway} skipped: missing surface.",
+    "dataset.issue.invalid-runway.heading":
+      "Runway {runway} skipped: magnetic heading outside 0 to 360.",
+    "dataset.row": "Row {row}",
+    "dataset.more": "and {count} more issue(s).",
+    // profile chart and map
+    "chart.label": "Vertical flight profile",
+    "chart.distance": "Distance (NM)",
+    "chart.altitude": "Altitude (ft)",
+    "map.label": "Route map",
+    "map.setDeparture": "Set as departure",
+    "map.setArrival": "Set as arrival",
+    // legs
+    "legs.leg": "Leg",
+    "legs.trueCourse": "TC",
+    "legs.magneticCourse": "MC",
+    "legs.heading": "HDG",
+    "legs.variation": "Variation {variation}",
+    // app
+    "app.title": "TOC/TOD Calculator",
+    "app.enterIcao": "Please enter an ICAO code",
+    "app.airportNotFound": "Airport not found.",
+    "app.language": "Language",
+    "app.units": "Unit Preferences",
+    "app.speedUnit": "Speed Unit",
+    "app.knots": "Knots",
+    "app.rateUnit": "Rate Unit",
+    "app.share": "Share and Save",
+    "app.parameters": "Flight Parameters",
+    "app.departureIcao": "Departure ICAO",
+    "app.arrivalIcao": "Arrival ICAO",
+    "app.elevation": "Elevation: {elevation} ft",
+    "app.route": "Route (intermediate fixes)",
+    "app.routePlaceholder": "E.g. SBKP SBRP",
+    "app.unknownFixes": "Fixes not found: {fixes}",
+    "app.cruiseAltitude": "Cruise Altitude (feet)",
+    "app.climbSpeed": "Climb Speed ({mode})",
+    "app.cruiseSpeed": "Cruise Speed ({mode})",
+    "app.descentSpeed": "Descent Speed ({mode})",
+    "app.climbRate": "Climb Rate ({unit})",
+    "app.descentRate": "Descent Rate ({unit})",
+    "app.isaDeviation": "ISA Deviation (°C)",
+    "app.profile": "Flight Profile",
+    "app.descentPlanner": "Descent Planner",
+    "app.view": "Mode",
+    "app.view.profile": "Full profile",
+    "app.view.descent": "In-flight descent",
+    "app.climbPhase": "Climb Phase",
+    "app.tocDistance": "Distance to TOC:",
+    "app.climbTime": "Climb time:",
+    "app.tocTas": "TAS at TOC:",
+    "app.cruisePhase": "Cruise Phase",
+    "app.cruiseTime": "Cruise time:",
+    "app.cruiseTas": "Cruise TAS:",
+    "app.descentPhase": "Descent Phase",
+    "app.todDistance": "TOD distance:",
+    "app.descentTime": "Descent time:",
+    "app.total": "Total Flight",
+    "app.totalDistance": "Total distance:",
+    "app.totalTime": "Total time:",
+    "app.trueCourse": "True course:",
+    "app.magneticCourse": "Magnetic course:",
+    "app.variation": "variation {variation}",
+    "app.note": "Note:",
+    "app.disclaimer":
+      "The calculations made by this platform are approximate. Use them for planning and training only. Always follow the recommended procedures and the aircraft manufacturer's flight profile.",
+    "app.fuel": "Fuel Planning",
+    "app.fuelRequired": "Required Fuel",
+    "app.fuelIncomplete":
+      "Complete the flight parameters and the cruise fuel flow to calculate the fuel.",
+    "app.nearest": "Nearby Airports",
+    "app.diversions": "Alternates Along the Route",
+    "app.airportDb": "Airport Database",
+    "app.map": "Route Map",
+    "app.weather": "Weather",
+    "app.daylight": "Daylight",
+    // engine diagnostics, by code and variant
+    "field.climbSpeed": "the climb speed",
+    "field.climbRate": "the climb rate",
+    "field.cruiseSpeed": "the cruise speed",
+    "field.descentSpeed": "the descent speed",
+    "field.descentRate": "the descent rate",
+    "field.cruiseAltitude": "the cruise altitude",
+    "field.cruiseFlow": "the cruise fuel flow",
+    "diagnostic.missing-input": "Enter {field}.",
+    "diagnostic.non-positive-speed": "{field} must be greater than zero.",
+    "diagnostic.non-positive-speed.band":
+      "Band {floor}–{ceiling} ft: speed and rate must be greater than zero.",
+    "diagnostic.non-positive-rate": "{field} must be greater than zero.",
+    "diagnostic.non-positive-rate.band":
+      "Band {floor}–{ceiling} ft: speed and rate must be greater than zero.",
+    "diagnostic.mach-out-of-range":
+      "The Mach number must be subsonic (less than 1).",
+    "diagnostic.mach-out-of-range.band":
+      "Band {floor}–{ceiling} ft: the Mach number must be subsonic (less than 1).",
+    "diagnostic.cruise-below-departure":
+      "Cruise altitude below the departure elevation ({elevation} ft).",
+    "diagnostic.cruise-below-arrival":
+      "Cruise altitude below the arrival elevation ({elevation} ft).",
+    "diagnostic.above-service-ceiling":
+      "Cruise altitude above the aircraft service ceiling ({ceiling} ft).",
+    "diagnostic.descent-before-toc":
+      "The descent starts before the top of climb.",
+    "diagnostic.descent-before-toc.best":
+      "The descent starts before the top of climb. Highest achievable altitude: {altitude} ft.",
+    "diagnostic.wind-exceeds-airspeed":
+      "The wind exceeds the aircraft speed in this phase.",
+    "diagnostic.wind-ignored":
+      "Wind ignored: select both airports to determine the course.",
+    "diagnostic.fuel-exceeds-capacity":
+      "Required fuel exceeds the usable capacity by {amount} {unit}.",
+    "diagnostic.target-above-altitude":
+      "The target altitude must be below the current altitude.",
+    "diagnostic.descent-late":
+      "TOD passed by {distance} NM; {rate} ft/min required.",
+    "diagnostic.descent-late.passed":
+      "The restriction is already behind the current position.",
+    "diagnostic.semicircular-rule.odd":
+      "Cruise altitude breaks the semicircular rule: magnetic course {course}° under {rules} calls for odd levels. Nearest level: {nearest} ft.",
+    "diagnostic.semicircular-rule.even":
+      "Cruise altitude breaks the semicircular rule: magnetic course {course}° under {rules} calls for even levels. Nearest level: {nearest} ft.",
+  },
+};
+
+export default catalog;
@@ -0,0 +1,489 @@
+import type { Catalog } from "..";
+
+// Source catalog: its keys are the ones every other catalog must provide.
+// Placeholders in braces are filled in by the translator.
+const messages = {
+  // common
+  "common.distance": "Distância",
+  "common.time": "Tempo",
+  "units.nm": "{value} NM",
+  "units.min": "{value} min",
+  "units.ft": "{value} ft",
+  "units.minutes": "{value} minutos",
+  // bands
+  "bands.band": "Faixa (ft)",
+  // position
+  "position.label": "Posição do {label}:",
+  "position.afterFix": "{distance} NM após {fix}",
+  "position.copy": "Copiar posição do {label}",
+  // aircraft profile
+  "profile.title": "Perfil da Aeronave",
+  "profile.custom": "Personalizado",
+  "profile.builtIn": "Predefinidos",
+  "profile.mine": "Meus perfis",
+  "profile.delete": "Excluir perfil",
+  "profile.save": "Salvar perfil atual",
+  "profile.ceiling": "Teto de serviço: {ceiling} ft",
+  "profile.namePlaceholder": "Nome do perfil (ex.: PR-ABC)",
+  "profile.ceilingPlaceholder": "Teto de serviço (ft, opcional)",
+  "profile.saveCurrent": "Salvar velocidades e razões atuais",
+  "profile.distances":
+    "Decolagem {takeoff} m, pouso {landing} m (obstáculo de 50 ft)",
+  "profile.takeoffPlaceholder": "Decolagem (m, opcional)",
+  "profile.landingPlaceholder": "Pouso (m, opcional)",
+  // performance tables
+  "performance.byBand": "{label} por faixa de altitude",
+  "performance.from": "De (ft)",
+  "performance.to": "Até (ft)",
+  "performance.speedShort": "Vel.",
+  "performance.mode": "Tipo",
+  "performance.rate": "Taxa ({unit})",
+  "performance.floor": "Base da faixa (ft)",
+  "performance.ceiling": "Topo da faixa (ft)",
+  "performance.speed": "Velocidade ({unit})",
+  "performance.phaseMode": "Fase",
+  "performance.remove": "Remover faixa",
+  "performance.add": "Adicionar faixa",
+  "speedMode.label": "Tipo de velocidade",
+  // wind solution
+  "wind.groundSpeed": "Velocidade solo:",
+  "wind.headwind": "proa {value}",
+  "wind.tailwind": "cauda {value}",
+  "wind.crosswind": "través {value}",
+  "wind.correction": "Correção de deriva:",
+  "wind.trueHeading": "proa verdadeira {heading}°",
+  // phases
+  "phase.climb": "Subida",
+  "phase.cruise": "Cruzeiro",
+  "phase.descent": "Descida",
+  // wind panel
+  "windPanel.title": "Vento",
+  "windPanel.none": "Sem vento",
+  "windPanel.byPhase": "Por fase",
+  "windPanel.byBand": "Por faixa de altitude",
+  "windPanel.direction": "Direção (°)",
+  "windPanel.directionLabel": "Direção do vento (graus)",
+  "windPanel.speedLabel": "Velocidade do vento ({unit})",
+  "windPanel.speedShort": "Vel. ({unit})",
+  "airportSearch.placeholder": "ICAO, IATA, nome ou cidade",
+  // fuel panel
+  "fuel.type": "Combustível",
+  "fuel.unit": "Unidade",
+  "fuel.unit.l": "Litros (L/h)",
+  "fuel.unit.gal": "Galões US (gal/h)",
+  "fuel.unit.kg": "Quilogramas (kg/h)",
+  "fuel.unit.lb": "Libras (lb/h)",
+  "fuel.climbFlow": "Subida ({unit}/h)",
+  "fuel.cruiseFlow": "Cruzeiro ({unit}/h)",
+  "fuel.descentFlow": "Descida ({unit}/h)",
+  "fuel.taxi": "Táxi ({unit})",
+  "fuel.contingencyPercent": "Contingência (%)",
+  "fuel.finalReserve": "Reserva final",
+  "fuel.capacity": "Capacidade utilizável",
+  "fuel.capacityUnit": "Unidade da capacidade",
+  "fuel.alternate": "ICAO de Alternativa",
+  // fuel summary
+  "fuelSummary.trip": "Etapa (trip)",
+  "fuelSummary.contingency": "Contingência ({percent}%)",
+  "fuelSummary.alternate": "Alternativa",
+  "fuelSummary.finalReserve": "Reserva final ({minutes} min)",
+  "fuelSummary.minimum": "Mínimo na decolagem",
+  "fuelSummary.taxi": "Táxi",
+  "fuelSummary.block": "Combustível de bloco",
+  "fuelSummary.margin": "Margem",
+  // flight plan sharing
+  "plan.fileName": "plano",
+  "plan.copyLink": "Copiar link",
+  "plan.linkCopied": "Link copiado",
+  "plan.export": "Exportar JSON",
+  "plan.import": "Importar JSON",
+  "plan.saveHistory": "Salvar no histórico",
+  "plan.importFailed": "Não foi possível importar o plano:",
+  "plan.recent": "Planos recentes",
+  "plan.issue.invalid-json": "O arquivo não é um JSON válido.",
+  "plan.issue.no-plan": "O arquivo não contém um plano de voo.",
+  "plan.issue.missing-version": "Versão do arquivo ausente.",
+  "plan.issue.unsupported-version":
+    "Versão {version} não suportada; atualize a calculadora.",
+  "plan.issue.not-object": "{path} deve ser um objeto.",
+  "plan.issue.not-list": "{path} deve ser uma lista.",
+  "plan.issue.not-number": "{path} deve ser um número.",
+  "plan.issue.not-text": "{path} deve ser um texto.",
+  "plan.issue.invalid-option": "{path} deve ser um destes valores: {options}.",
+  // navlog
+  "navlog.offBlock": "Calço (HH:MM)",
+  "navlog.taxi": "Táxi (min)",
+  "navlog.print": "Imprimir",
+  "navlog.exportCsv": "Exportar CSV",
+  "navlog.departure": "Partida",
+  "navlog.arrival": "Chegada",
+  "navlog.elevation": "Elev. {elevation} ft",
+  "navlog.cruiseAltitude": "Altitude de cruzeiro:",
+  "navlog.todBeforeArrival": "{distance} NM antes da chegada",
+  "navlog.times": "Tempos:",
+  "navlog.timeBreakdown":
+    "subida {climb} min · cruzeiro {cruise} min · descida {descent} min · total {total} min",
+  "navlog.fix": "Fixo",
+  "navlog.altitude": "Alt. (ft)",
+  "navlog.position": "Posição",
+  "navlog.distance": "Dist.",
+  "navlog.cumulative": "Acum.",
+  "navlog.fuel": "Comb.",
+  "navlog.note":
+    "Distâncias em NM e tempos em minutos, contados a partir da decolagem.",
+  "navlog.csv.fix": "Fixo",
+  "navlog.csv.altitude": "Altitude (ft)",
+  "navlog.csv.position": "Posição",
+  "navlog.csv.legDistance": "Dist. trecho (NM)",
+  "navlog.csv.totalDistance": "Dist. acumulada (NM)",
+  "navlog.csv.legTime": "Tempo trecho (min)",
+  "navlog.csv.elapsed": "Tempo acumulado (min)",
+  "navlog.csv.fuel": "Combustível restante",
+  "units.kt": "{value} kt",
+  "units.ftmin": "{value} ft/min",
+  "units.degrees": "{value}°",
+  // descent planner
+  "descent.fix": "fixo",
+  "descent.arrival": "chegada",
+  "descent.currentAltitude": "Altitude atual (pés)",
+  "descent.target": "Alvo",
+  "descent.target.pattern": "Altitude de tráfego",
+  "descent.target.restriction": "Restrição de cruzamento",
+  "descent.patternHeight": "Altura do tráfego (pés AGL)",
+  "descent.patternTarget":
+    "Alvo: {altitude} ft (elevação de {field}: {elevation} ft)",
+  "descent.crossAtOrBelow": "Cruzar a ou abaixo de (pés)",
+  "descent.nmBefore": "NM antes de {fix}",
+  "descent.angle": "Ângulo (°)",
+  "descent.headwind": "Proa ({unit})",
+  "descent.headwindLabel": "Componente de vento de proa (negativo para cauda)",
+  "descent.distanceToFix": "Distância até {fix} (NM)",
+  "descent.planned": "Descida Planejada",
+  "descent.todBefore": "TOD antes de {fix}",
+  "descent.altitudeToLose": "Altitude a perder",
+  "descent.time": "Tempo de descida",
+  "descent.groundSpeed": "Velocidade solo média",
+  "descent.pathRate": "Razão para {angle}° de trajetória",
+  "descent.pathTod": "TOD para {angle}°",
+  "descent.nmBeforeFix": "{distance} NM antes de {fix}",
+  "descent.currentPosition": "Posição Atual",
+  "descent.startIn": "Iniciar descida em",
+  "descent.now": "agora",
+  "descent.requiredRate": "Razão necessária",
+  "descent.requiredAngle": "Ângulo necessário",
+  "common.elevation": "Elevação",
+  "airportDb.queryFailed": "Não foi possível consultar a base de aeródromos.",
+  // cruise level advisor
+  "levels.title": "Níveis sugeridos",
+  "levels.rules": "Regras de voo",
+  "levels.minimum": "MEA (ft)",
+  "levels.minimumLabel": "Altitude mínima em rota (MEA), em pés",
+  "levels.needAirports":
+    "Selecione os dois aeroportos para sugerir níveis de cruzeiro.",
+  "levels.course.odd":
+    "Curso magnético direto {course}°: níveis ímpares, do mais rápido ao mais lento.",
+  "levels.course.even":
+    "Curso magnético direto {course}°: níveis pares, do mais rápido ao mais lento.",
+  "levels.none":
+    "Nenhum nível viável: revise as velocidades, as razões e a MEA para este trecho.",
+  "levels.fastest": "mais rápido",
+  "levels.cruiseTime": "Cruzeiro: {value} min",
+  // weather reports
+  "weather.intro":
+    "Cole o METAR e/ou o TAF de cada aeródromo. A decodificação é local; nada é enviado pela rede.",
+  "weather.departure": "Partida",
+  "weather.arrival": "Chegada",
+  "weather.paste": "METAR/TAF da {label}",
+  "weather.placeholder": "METAR SBSP 191200Z 14012KT 9999 FEW030 24/16 Q1018",
+  "weather.fetch": "Buscar em {provider}",
+  "weather.fetchFailed": "Não foi possível obter os boletins.",
+  "weather.runway": "Pista",
+  "weather.runwayPlaceholder": "Ex.: 09 ou 27L",
+  "weather.invalidRunway":
+    "Designação de pista inválida (01 a 36, com L, C ou R).",
+  "weather.invalidReport": "Boletim não pôde ser decodificado:",
+  "weather.validity": "válido de {from} a {to}",
+  "weather.stationMismatch": "Boletim de {station}, não de {icao}.",
+  "weather.wind": "Vento",
+  "weather.calm": "calmo",
+  "weather.variable": "variável",
+  "weather.gust": "rajada {value} kt",
+  "weather.varying": "variando entre {from}° e {to}°",
+  "weather.visibility": "Visibilidade",
+  "weather.visibilityUnlimited": "10 km ou mais",
+  "weather.meters": "{value} m",
+  "weather.temperature": "Temperatura / orvalho",
+  "weather.qnh": "QNH",
+  "weather.pressureAltitude": "Altitude-pressão",
+  "weather.densityAltitude": "Altitude-densidade",
+  "weather.isaDeviation": "Desvio ISA",
+  "weather.applyIsa": "Usar no cálculo",
+  "weather.runwayWind": "Vento na pista {runway}",
+  "weather.crosswindRight": "través {value} pela direita",
+  "weather.crosswindLeft": "través {value} pela esquerda",
+  "weather.gustCrosswind": "{value} na rajada",
+  "weather.variableRunwayWind":
+    "Vento variável: componentes na pista indeterminadas.",
+  "weather.issue.empty": "Cole o texto de um METAR ou TAF.",
+  "weather.issue.nil-report":
+    "Boletim NIL: não há observação para a localidade.",
+  "weather.issue.invalid-station":
+    "Indicador de localidade ausente ou inválido (4 letras ou dígitos).",
+  "weather.issue.invalid-time":
+    "Data/hora de emissão inválida (formato ddhhmmZ).",
+  "weather.issue.invalid-validity":
+    "Período de validade do TAF ausente ou inválido (formato ddhh/ddhh).",
+  "weather.issue.invalid-wind":
+    "Grupo de vento inválido: dddffKT ou dddffGffKT, direção em dezenas de graus até 360 e rajada maior que a média.",
+  "weather.issue.invalid-variable-wind":
+    "Variação de direção do vento inválida ou sem grupo de vento antes.",
+  "weather.issue.invalid-visibility": "Visibilidade inválida.",
+  "weather.issue.invalid-temperature":
+    "Temperatura inválida (formato TT/TdTd, com M para negativos, ponto de orvalho até a temperatura).",
+  "weather.issue.invalid-pressure":
+    "QNH inválido (Q seguido de 4 dígitos em hPa, ou A em centésimos de inHg).",
+  "weather.issue.duplicate-group": "Grupo repetido foi ignorado.",
+  // runways
+  "runways.title": "Pistas",
+  "runways.none": "Sem dados de pista para este aeródromo.",
+  "runways.wind": "Vento (°V/kt)",
+  "runways.windDirection": "Direção do vento, graus verdadeiros",
+  "runways.windSpeed": "Velocidade do vento, kt",
+  "runways.runway": "Pista",
+  "runways.size": "Dimensões",
+  "runways.surface": "Piso",
+  "runways.headwind": "Proa (kt)",
+  "runways.crosswind": "Través (kt)",
+  "runways.margin": "Margem",
+  "runways.required.takeoff":
+    "Decolagem requer {distance} m (perfil da aeronave, nível do mar ISA).",
+  "runways.required.landing":
+    "Pouso requer {distance} m (perfil da aeronave, nível do mar ISA).",
+  "runways.noDistance.takeoff":
+    "Selecione um perfil com distância de decolagem para verificar as pistas.",
+  "runways.noDistance.landing":
+    "Selecione um perfil com distância de pouso para verificar as pistas.",
+  "runways.check": "Necessário {required} m, disponível {available} m",
+  "runways.fits": "+{margin} m",
+  "runways.short": "faltam {missing} m",
+  // daylight
+  "daylight.intro":
+    "Nascer e pôr do sol e crepúsculo civil calculados localmente para as coordenadas dos aeródromos. Noite é o período entre o fim do crepúsculo civil vespertino e o início do matutino. Horários em UTC.",
+  "daylight.date": "Data (UTC)",
+  "daylight.departureTime": "Decolagem (UTC)",
+  "daylight.departure": "Partida",
+  "daylight.arrival": "Chegada",
+  "daylight.civilDawn": "Início do crepúsculo civil",
+  "daylight.sunrise": "Nascer do sol",
+  "daylight.sunset": "Pôr do sol",
+  "daylight.civilDusk": "Fim do crepúsculo civil",
+  "daylight.noCoordinates":
+    "Selecione aeródromos de partida e chegada com coordenadas para calcular a luz do dia.",
+  "daylight.enterTime":
+    "Informe a data e a hora de decolagem para verificar a luz do dia.",
+  "daylight.departsAtNight": "Decolagem às {departure} ocorre à noite.",
+  "daylight.arrivesInDaylight":
+    "Chegada às {eta} de dia, {margin} min antes do fim do crepúsculo civil ({dusk}).",
+  "daylight.arrivesAtNight":
+    "Chegada às {eta} à noite, {late} min após o fim do crepúsculo civil ({dusk}).",
+  "daylight.arrivesBeforeDawn":
+    "Chegada às {eta} à noite, antes do início do crepúsculo civil ({dawn}).",
+  "daylight.arrivesInPolarDay": "Chegada às {eta} de dia (sol da meia-noite).",
+  "daylight.arrivesInPolarNight": "Chegada às {eta} à noite (noite polar).",
+  "daylight.latestDeparture": "Decolagem mais tarde para pousar de dia:",
+  // app update
+  "update.available": "Nova versão disponível",
+  "update.description":
+    "Recarregue para usar a nova versão. Os dados informados são mantidos.",
+  "update.reload": "Atualizar",
+  "update.later": "Depois",
+  // nearest airports
+  "nearest.point": "Ponto",
+  "nearest.alongRoute": "Ao longo da rota",
+  "nearest.coordinates": "Coordenadas",
+  "nearest.count": "Quantidade",
+  "nearest.distanceFromDeparture": "Distância desde a partida (NM)",
+  "nearest.empty": "Defina um ponto para listar os aeródromos mais próximos.",
+  "nearest.airport": "Aeródromo",
+  "nearest.bearing": "Rumo",
+  // diversion coverage
+  "diversion.analyzing": "Analisando a rota…",
+  "diversion.radius": "Raio máximo (NM)",
+  "diversion.covered": "Há aeródromo a menos de {radius} NM em toda a rota.",
+  "diversion.gap":
+    "Sem aeródromo a menos de {radius} NM entre {start} e {end} NM da partida.",
+  "diversion.stretch": "Trecho (NM)",
+  "diversion.nearest": "Alternativa mais próxima",
+  "diversion.maxDistance": "Dist. máx.",
+  "diversion.maxTime": "Tempo máx.",
+  "airportDb.unavailable": "Base de aeródromos indisponível.",
+  "airportDb.loading": "Carregando base de aeródromos…",
+  "airportDb.retry": "Tentar novamente",
+  // airport dataset
+  "dataset.noneValid": "Nenhum aeródromo válido encontrado no arquivo.",
+  "dataset.loadFailed": "Não foi possível carregar a base de aeródromos.",
+  "dataset.loaded": "{count} aeródromos carregados de {file}.",
+  "dataset.saveFailed": "Não foi possível salvar no navegador.",
+  "dataset.restored": "Base original restaurada.",
+  "dataset.bundled": "{count} aeródromos embarcados",
+  "dataset.user": "{count} do usuário",
+  "dataset.notLoaded": "Base embarcada carregada no primeiro uso",
+  "dataset.load": "Carregar JSON ou CSV",
+  "dataset.restore": "Restaurar base original",
+  "dataset.fields":
+    "Campos: icao, name, city, state, elevation (ft), lat, lon e, opcionalmente, iata e runways (no CSV, entradas '10/28 1200x30 ASPH' separadas por '|'). Entradas do usuário substituem as da base pelo ICAO.",
+  "dataset.issues": "{errors} linha(s) ignorada(s), {warnings} aviso(s):",
+  "dataset.issue.empty-csv": "O arquivo CSV está vazio.",
+  "dataset.issue.missing-icao-column": "Cabeçalho do CSV sem a coluna icao.",
+  "dataset.issue.invalid-json": "O arquivo não é um JSON válido.",
+  "dataset.issue.not-a-list": "O JSON deve conter uma lista de aeródromos.",
+  "dataset.issue.invalid-record": "Registro inválido.",
+  "dataset.issue.invalid-icao":
+    "ICAO ausente ou inválido (4 letras ou dígitos).",
+  "dataset.issue.duplicate-icao":
+    "ICAO duplicado; já definido na linha {first}.",
+  "dataset.issue.missing-name": "Nome ausente.",
+  "dataset.issue.missing-elevation": "Elevação ausente.",
+  "dataset.issue.invalid-latitude": "Latitude fora do intervalo de -90 a 90.",
+  "dataset.issue.invalid-longitude":
+    "Longitude fora do intervalo de -180 a 180.",
+  "dataset.issue.invalid-iata": "Código IATA inválido foi ignorado.",
+  "dataset.issue.invalid-runway": "Pista {runway} ignorada.",
+  "dataset.issue.invalid-runway.format":
+    "Pista {runway} ignorada: use o formato 10/28 1200x30 ASPH.",
+  "dataset.issue.invalid-runway.designator":
+    "Pista {runway} ignorada: designação inválida (01 a 36, com L, C ou R).",
+  "dataset.issue.invalid-runway.size":
+    "Pista {runway} ignorada: comprimento e largura devem ser maiores que zero.",
+  "dataset.issue.invalid-runway.surface":
+    "Pista {runway} ignorada: superfície ausente.",
+  "dataset.issue.invalid-runway.heading":
+    "Pista {runway} ignorada: proa magnética fora do intervalo de 0 a 360.",
+  "dataset.row": "Linha {row}",
+  "dataset.more": "e mais {count} problema(s).",
+  // profile chart and map
+  "chart.label": "Perfil vertical do voo",
+  "chart.distance": "Distância (NM)",
+  "chart.altitude": "Altitude (ft)",
+  "map.label": "Mapa da rota",
+  "map.setDeparture": "Definir como partida",
+  "map.setArrival": "Definir como chegada",
+  // legs
+  "legs.leg": "Trecho",
+  "legs.trueCourse": "CV",
+  "legs.magneticCourse": "CM",
+  "legs.heading": "Proa",
+  "legs.variation": "Declinação {variation}",
+  // app
+  "app.title": "Calculadora TOC/TOD",
+  "app.enterIcao": "Por favor, insira um código ICAO",
+  "app.airportNotFound": "Aeroporto não encontrado.",
+  "app.language": "Idioma",
+  "app.units": "Preferências de Unidade",
+  "app.speedUnit": "Unidade de Velocidade",
+  "app.knots": "Knots",
+  "app.rateUnit": "Unidade de Taxa",
+  "app.share": "Compartilhar e Salvar",
+  "app.parameters": "Parâmetros de Voo",
+  "app.departureIcao": "ICAO de Partida",
+  "app.arrivalIcao": "ICAO de Chegada",
+  "app.elevation": "Elevação: {elevation} ft",
+  "app.route": "Rota (fixos intermediários)",
+  "app.routePlaceholder": "Ex.: SBKP SBRP",
+  "app.unknownFixes": "Fixos não encontrados: {fixes}",
+  "app.cruiseAltitude": "Altitude de Cruzeiro (pés)",
+  "app.climbSpeed": "Velocidade de Subida ({mode})",
+  "app.cruiseSpeed": "Velocidade de Cruzeiro ({mode})",
+  "app.descentSpeed": "Velocidade de Descida ({mode})",
+  "app.climbRate": "Taxa de Subida ({unit})",
+  "app.descentRate": "Taxa de Descida ({unit})",
+  "app.isaDeviation": "Desvio ISA (°C)",
+  "app.profile": "Perfil de Voo",
+  "app.descentPlanner": "Planejador de Descida",
+  "app.view": "Modo",
+  "app.view.profile": "Perfil completo",
+  "app.view.descent": "Descida em voo",
+  "app.climbPhase": "Fase de Subida",
+  "app.tocDistance": "Distância para TOC:",
+  "app.climbTime": "Tempo de subida:",
+  "app.tocTas": "TAS no TOC:",
+  "app.cruisePhase": "Fase de Cruzeiro",
+  "app.cruiseTime": "Tempo de Cruzeiro:",
+  "app.cruiseTas": "TAS de Cruzeiro:",
+  "app.descentPhase": "Fase de Descida",
+  "app.todDistance": "Distância do TOD:",
+  "app.descentTime": "Tempo de Descida:",
+  "app.total": "Voo Total",
+  "app.totalDistance": "Distância Total:",
+  "app.totalTime": "Tempo total:",
+  "app.trueCourse": "Curso verdadeiro:",
+  "app.magneticCourse": "Curso magnético:",
+  "app.variation": "declinação {variation}",
+  "app.note": "Nota:",
+  "app.disclaimer":
+    "Os cálculos realizados pela plataforma são aproximados. Use apenas para fins de planejamento e treinamento. Sempre siga os procedimentos recomendados e o perfil de voo do fabricante da aeronave.",
+  "app.fuel": "Planejamento de Combustível",
+  "app.fuelRequired": "Combustível Necessário",
+  "app.fuelIncomplete":
+    "Complete os parâmetros de voo e o consumo de cruzeiro para calcular o combustível.",
+  "app.nearest": "Aeródromos Próximos",
+  "app.diversions": "Alternativas ao Longo da Rota",
+  "app.airportDb": "Base de Aeródromos",
+  "app.map": "Mapa da Rota",
+  "app.weather": "Meteorologia",
+  "app.daylight": "Luz do Dia",
+  // engine diagnostics, by code and variant
+  "field.climbSpeed": "a velocidade de subida",
+  "field.climbRate": "a taxa de subida",
+  "field.cruiseSpeed": "a velocidade de cruzeiro",
+  "field.descentSpeed": "a velocidade de descida",
+  "field.descentRate": "a taxa de descida",
+  "field.cruiseAltitude": "a altitude de cruzeiro",
+  "field.cruiseFlow": "o consumo de cruzeiro",
+  "diagnostic.missing-input": "Informe {field}.",
+  "diagnostic.non-positive-speed": "{field} deve ser maior que zero.",
+  "diagnostic.non-positive-speed.band":
+    "Faixa {floor}–{ceiling} ft: velocidade e taxa devem ser maiores que zero.",
+  "diagnostic.non-positive-rate": "{field} deve ser maior que zero.",
+  "diagnostic.non-positive-rate.band":
+    "Faixa {floor}–{ceiling} ft: velocidade e taxa devem ser maiores que zero.",
+  "diagnostic.mach-out-of-range":
+    "O número Mach deve ser subsônico (menor que 1).",
+  "diagnostic.mach-out-of-range.band":
+    "Faixa {floor}–{ceiling} ft: o número Mach deve ser subsônico (menor que 1).",
+  "diagnostic.cruise-below-departure":
+    "Altitude de cruzeiro abaixo da elevação de partida ({elevation} ft).",
+  "diagnostic.cruise-below-arrival":
+    "Altitude de cruzeiro abaixo da elevação de chegada ({elevation} ft).",
+  "diagnostic.above-service-ceiling":
+    "Altitude de cruzeiro acima do teto de serviço da aeronave ({ceiling} ft).",
+  "diagnostic.descent-before-toc": "A descida começa antes do topo de subida.",
+  "diagnostic.descent-before-toc.best":
+    "A descida começa antes do topo de subida. Altitude máxima atingível: {altitude} ft.",
+  "diagnostic.wind-exceeds-airspeed":
+    "O vento excede a velocidade da aeronave nesta fase.",
+  "diagnostic.wind-ignored":
+    "Vento ignorado: selecione os dois aeroportos para determinar o curso.",
+  "diagnostic.fuel-exceeds-capacity":
+    "Combustível necessário excede a capacidade utilizável em {amount} {unit}.",
+  "diagnostic.target-above-altitude":
+    "A altitude alvo deve estar abaixo da altitude atual.",
+  "diagnostic.descent-late":
+    "TOD ultrapassado em {distance} NM; são necessários {rate} ft/min.",
+  "diagnostic.descent-late.passed":
+    "A restrição já foi ultrapassada na posição atual.",
+  "diagnostic.semicircular-rule.odd":
+    "Altitude de cruzeiro fora da regra semicircular: curso magnético {course}° em {rules} pede níveis ímpares. Nível mais próximo: {nearest} ft.",
+  "diagnostic.semicircular-rule.even":
+    "Altitude de cruzeiro fora da regra semicircular: curso magnético {course}° em {rules} pede níveis pares. Nível mais próximo: {nearest} ft.",
+};
+
+export type MessageKey = keyof typeof messages;
+
+const catalog: Catalog = {
+  locale: "pt-BR",
+  label: "Português (Brasil)",
+  messages,
+};
+
+export default catalog;
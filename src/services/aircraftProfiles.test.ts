@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { builtInProfiles } from "../data/aircraft-profiles";
+import { isAircraftProfile } from "./aircraftProfiles";
+
+const profile = { ...builtInProfiles[0], id: "user-1", builtIn: undefined };
+
+describe("isAircraftProfile", () => {
+  it("accepts the built-in profiles and a saved copy", () => {
+    expect(builtInProfiles.every(isAircraftProfile)).toBe(true);
+    expect(isAircraftProfile(JSON.parse(JSON.stringify(profile)))).toBe(true);
+  });
+
+  it("rejects entries with missing or invalid fields", () => {
+    expect(isAircraftProfile(null)).toBe(false);
+    expect(isAircraftProfile([profile])).toBe(false);
+    expect(isAircraftProfile({ ...profile, name: " " })).toBe(false);
+    expect(isAircraftProfile({ ...profile, speedUnit: "knots" })).toBe(false);
+    expect(isAircraftProfile({ ...profile, cruiseSpeed: "115" })).toBe(false);
+    expect(isAircraftProfile({ ...profile, serviceCeiling: null })).toBe(false);
+    expect(
+      isAircraftProfile({
+        ...profile,
+        speedModes: { climb: "ias", cruise: "tas" },
+      })
+    ).toBe(false);
+    expect(
+      isAircraftProfile({
+        ...profile,
+        fuel: { fuelType: "avgas", unit: "l", climbFlow: 40 },
+      })
+    ).toBe(false);
+  });
+});
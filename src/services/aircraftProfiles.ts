@@ -0,0 +1,85 @@
+import { AircraftProfile, builtInProfiles } from "../data/aircraft-profiles";
+
+const STORAGE_KEY = "toc-tod:aircraft-profiles";
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value);
+
+const isText = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+const isOneOf = (value: unknown, options: readonly string[]) =>
+  options.includes(value as string);
+
+const numbers = (value: Json, keys: string[], optional = false) =>
+  keys.every(
+    (key) => isNumber(value[key]) || (optional && value[key] === undefined)
+  );
+
+const SPEED_MODES = ["tas", "ias", "mach"];
+
+const isFuel = (value: unknown) =>
+  isObject(value) &&
+  isOneOf(value.fuelType, ["avgas", "jeta1"]) &&
+  isOneOf(value.unit, ["l", "gal", "kg", "lb"]) &&
+  numbers(value, ["climbFlow", "cruiseFlow", "descentFlow"]) &&
+  numbers(value, ["usableCapacity"], true);
+
+/** Whether a stored entry has every field a profile needs, with valid values. */
+export const isAircraftProfile = (value: unknown): value is AircraftProfile =>
+  isObject(value) &&
+  isText(value.id) &&
+  isText(value.name) &&
+  isOneOf(value.speedUnit, ["kt", "mph", "kmh"]) &&
+  isOneOf(value.rateUnit, ["ftmin", "ms"]) &&
+  numbers(value, [
+    "climbSpeed",
+    "cruiseSpeed",
+    "descentSpeed",
+    "climbRate",
+    "descentRate",
+  ]) &&
+  numbers(
+    value,
+    ["serviceCeiling", "takeoffDistance", "landingDistance"],
+    true
+  ) &&
+  isObject(value.speedModes) &&
+  ["climb", "cruise", "descent"].every((phase) =>
+    isOneOf((value.speedModes as Json)[phase], SPEED_MODES)
+  ) &&
+  (value.fuel === undefined || isFuel(value.fuel));
+
+/**
+ * Stored user profiles. Entries that no longer make a valid profile, e.g.
+ * edited by hand or saved by an older version, are left out.
+ */
+export function loadUserProfiles(): AircraftProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isAircraftProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserProfiles(profiles: AircraftProfile[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch {
+    // Storage full or unavailable (private mode): profiles last the session
+  }
+}
+
+export function getAllProfiles(userProfiles: AircraftProfile[]) {
+  return [...builtInProfiles, ...userProfiles];
+}
+
+export const createProfileId = () =>
+  `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
@@ -1,43 +1,178 @@
-import airportsData from "../../waypoints.json";
 import { BrazilianAirport } from "../data/brazilian-airports";
+import { Coordinates } from "../engine/types";
+import type {
+  AirportData,
+  AirportRequest,
+  AirportSearchResult,
+  AirportStats,
+  Bounds,
+  NearbyAirport
+} from "./airportIndex";
+import type { WorkerRequest, WorkerResponse } from "./airportWorker";
 
-interface AirportData {
-  elevation: {
-    feet: number;
-    meters: number;
-  };
-  name: string;
-  city?: string;
-  state?: string;
-  coordinates?: {
-    lat: number;
-    lon: number;
+export type {
+  AirportData,
+  AirportSearchResult,
+  AirportStats,
+  Bounds,
+  NearbyAirport,
+  SearchField
+} from "./airportIndex";
+
+// The airport database (~1 MB of JSON) is kept out of the main bundle. It is
+// fetched on the first request by a Web Worker, which builds the index off
+// the main thread; without worker support the index is imported lazily
+// instead. Nothing is loaded until a component asks for airports.
+
+export type AirportStatus = "idle" | "loading" | "ready" | "error";
+
+export interface AirportSnapshot {
+  status: AirportStatus;
+  revision: number; // bumped whenever the airport set is replaced
+}
+
+type Send = (request: AirportRequest) => Promise<unknown>;
+
+// Replaced, never mutated, so it can back React's useSyncExternalStore
+let snapshot: AirportSnapshot = { status: "idle", revision: 0 };
+const listeners = new Set<() => void>();
+let backend: Promise<Send> | null = null;
+let userAirports: BrazilianAirport[] = []; // sent to every backend as it starts
+const lookupCache = new Map<string, Promise<AirportData | null>>();
+
+const updateSnapshot = (next: Partial<AirportSnapshot>) => {
+  if (next.status === snapshot.status && next.revision === undefined) return;
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach((listener) => listener());
+};
+
+const setStatus = (status: AirportStatus) => updateSnapshot({ status });
+
+export const getAirportSnapshot = (): AirportSnapshot => snapshot;
+
+/** Subscribes to status and dataset changes; returns the unsubscribe function. */
+export function subscribeAirports(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
   };
 }
 
-// Create a lookup map keyed by uppercase ICAO code
-const airportMap: Record<string, BrazilianAirport> = {};
-const airportsDataJson = airportsData as BrazilianAirport[];
-
-airportsDataJson.forEach((airport) => {
-  airportMap[airport.icao.toUpperCase()] = airport;
-});
-
-export function getAirportData(icao: string): AirportData | null {
-  const airport = airportMap[icao.toUpperCase()];
-  if (!airport) return null;
-
-  return {
-    elevation: {
-      feet: airport.elevation,
-      meters: Math.round(airport.elevation * 0.3048)
-    },
-    name: airport.name,
-    city: airport.city,
-    state: airport.state,
-    coordinates: {
-      lat: airport.lat,
-      lon: airport.lon
-    }
+const startWorker = (): Send => {
+  const worker = new Worker(new URL("./airportWorker.ts", import.meta.url), {
+    type: "module"
+  });
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (reason: Error) => void }
+  >();
+  let nextId = 0;
+
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if ("error" in data) request.reject(new Error(data.error));
+    else request.resolve(data.result);
   };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const error = new Error(event.message || "Airport worker failed");
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+    worker.terminate();
+    backend = null;
+    lookupCache.clear();
+    setStatus("error");
+  };
+
+  return (request) =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      const message: WorkerRequest = { id, request };
+      worker.postMessage(message);
+    });
+};
+
+const startInline = async (): Promise<Send> => {
+  const { handleAirportRequest, loadAirportIndex } = await import(
+    "./airportIndex"
+  );
+  await loadAirportIndex();
+  return async (request) => handleAirportRequest(request);
+};
+
+const send = async <T>(request: AirportRequest): Promise<T> => {
+  if (!backend) {
+    setStatus("loading");
+    backend = (
+      typeof Worker !== "undefined"
+        ? Promise.resolve(startWorker())
+        : startInline()
+    ).then(async (post) => {
+      if (userAirports.length > 0) {
+        await post({ type: "setUser", airports: userAirports });
+      }
+      return post;
+    });
+  }
+  try {
+    const result = (await (await backend)(request)) as T;
+    setStatus("ready");
+    return result;
+  } catch (error) {
+    backend = null;
+    lookupCache.clear();
+    setStatus("error");
+    throw error;
+  }
+};
+
+/** Starts loading the database, e.g. to retry after an error. */
+export const loadAirports = (): Promise<AirportStats> =>
+  send<AirportStats>({ type: "stats" });
+
+export function getAirportData(icao: string): Promise<AirportData | null> {
+  const key = icao.toUpperCase();
+  let lookup = lookupCache.get(key);
+  if (!lookup) {
+    lookup = send<AirportData | null>({ type: "lookup", icao: key });
+    lookupCache.set(key, lookup);
+  }
+  return lookup;
+}
+
+export const getAirportsInBounds = (
+  bounds: Bounds,
+  limit?: number
+): Promise<BrazilianAirport[]> =>
+  send<BrazilianAirport[]>({ type: "bounds", bounds, limit });
+
+export const searchAirports = (
+  query: string,
+  limit?: number
+): Promise<AirportSearchResult[]> =>
+  send<AirportSearchResult[]>({ type: "search", query, limit });
+
+/** The closest airports to each point, nearest first; one list per point. */
+export const findNearestAirports = (
+  points: Coordinates[],
+  count?: number
+): Promise<NearbyAirport[][]> =>
+  send<NearbyAirport[][]>({ type: "nearest", points, count });
+
+/**
+ * Overlays user airports on the bundled set behind lookups, map bounds and
+ * search; an empty list clears them. The overlay is kept here and applied by
+ * each backend as it starts, so setting it loads nothing by itself and it
+ * survives a worker restart.
+ */
+export async function applyUserAirports(
+  airports: BrazilianAirport[]
+): Promise<void> {
+  userAirports = airports;
+  lookupCache.clear();
+  if (backend) await send({ type: "setUser", airports });
+  updateSnapshot({ revision: snapshot.revision + 1 });
 }
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import { BrazilianAirport } from "../data/brazilian-airports";
+import {
+  detectFormat,
+  mergeAirports,
+  parseAirportDataset,
+} from "./airportDataset";
+
+const marte: BrazilianAirport = {
+  icao: "SBMT",
+  name: "Campo de Marte",
+  city: "São Paulo",
+  state: "SP",
+  elevation: 2369,
+  lat: -23.509,
+  lon: -46.638,
+  iata: "RTE",
+};
+
+const issues = (content: string, fileName?: string) =>
+  parseAirportDataset(content, fileName).issues.map(
+    ({ row, code, params }) => ({ row, code, params })
+  );
+
+describe("detectFormat", () => {
+  it("goes by the extension, then by the first character", () => {
+    expect(detectFormat("airports.csv", "[]")).toBe("csv");
+    expect(detectFormat("airports.txt", "\uFEFF  [{}]")).toBe("json");
+    expect(detectFormat("", "icao;name")).toBe("csv");
+  });
+});
+
+describe("parseAirportDataset CSV", () => {
+  it("reads quoted cells, semicolons and decimal commas", () => {
+    const { airports, issues } = parseAirportDataset(
+      "icao;name;city;state;elevation;lat;lon;iata\n" +
+        'sbmt;"Campo de Marte";"São Paulo";sp;2369;-23,509;-46,638;rte\n' +
+        'SDCO;"Sorocaba ""Bertram Luiz Leupolz""";Sorocaba;SP;2077;-23.478;-47.490;\n',
+      "airports.csv"
+    );
+    expect(issues).toEqual([]);
+    expect(airports[0]).toEqual(marte);
+    expect(airports[1].name).toBe('Sorocaba "Bertram Luiz Leupolz"');
+    expect(airports[1]).not.toHaveProperty("iata");
+  });
+
+  it("numbers rows from the header and leaves bad rows out", () => {
+    const result = parseAirportDataset(
+      "icao,name,elevation,lat,lon,iata\n" +
+        "SBMT,Campo de Marte,2369,-23.5,-46.6,RT\n" +
+        "SB1,Sem ICAO,0,0,0,\n" +
+        "SBMT,Duplicado,0,0,0,\n" +
+        "SBRJ,,,-95,-43.2,\n",
+      "airports.csv"
+    );
+    expect(result.airports.map(({ icao }) => icao)).toEqual(["SBMT"]);
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        row: 2,
+        severity: "warning",
+        code: "invalid-iata",
+      }),
+      expect.objectContaining({
+        row: 3,
+        severity: "error",
+        code: "invalid-icao",
+      }),
+      expect.objectContaining({
+        row: 4,
+        code: "duplicate-icao",
+        params: { first: 2 },
+      }),
+      expect.objectContaining({ row: 5, code: "missing-name" }),
+      expect.objectContaining({ row: 5, code: "missing-elevation" }),
+      expect.objectContaining({ row: 5, code: "invalid-latitude" }),
+    ]);
+  });
+
+  it("rejects empty files and headers without icao", () => {
+    expect(issues("", "a.csv")).toEqual([
+      { row: 0, code: "empty-csv", params: undefined },
+    ]);
+    expect(issues("code,name\nSBMT,Marte", "a.csv")).toEqual([
+      { row: 0, code: "missing-icao-column", params: undefined },
+    ]);
+  });
+});
+
+describe("parseAirportDataset JSON", () => {
+  it("reads an array of airports, numbering records from one", () => {
+    const result = parseAirportDataset(
+      JSON.stringify([marte, { ...marte, icao: "SBJD", lon: 200 }, "SBRJ"])
+    );
+    expect(result.airports).toEqual([marte]);
+    expect(result.issues.map(({ row, code }) => ({ row, code }))).toEqual([
+      { row: 2, code: "invalid-longitude" },
+      { row: 3, code: "invalid-record" },
+    ]);
+  });
+
+  it("rejects invalid JSON and non-array documents", () => {
+    expect(issues("[{")).toEqual([
+      { row: 0, code: "invalid-json", params: undefined },
+    ]);
+    expect(issues(JSON.stringify({ airports: [marte] }))).toEqual([
+      { row: 0, code: "not-a-list", params: undefined },
+    ]);
+  });
+});
+
+describe("mergeAirports", () => {
+  it("lets user entries replace bundled ones by ICAO", () => {
+    const jacarepagua = { ...marte, icao: "SBJR", name: "Jacarepaguá" };
+    const renamed = { ...marte, name: "Marte" };
+    const { airports, added, replaced } = mergeAirports(
+      [marte],
+      [renamed, jacarepagua]
+    );
+    expect(airports).toEqual([renamed, jacarepagua]);
+    expect({ added, replaced }).toEqual({ added: 1, replaced: 1 });
+  });
+});
+
+describe("runways", () => {
+  it("reads CSV runway text and JSON runway objects", () => {
+    const csv = parseAirportDataset(
+      "icao,name,elevation,lat,lon,runways\n" +
+        'SBMT,Campo de Marte,2369,-23.5,-46.6,"12/30 1600x45 ASPH | 03 800x18 GRVL 35"\n',
+      "airports.csv"
+    );
+    expect(csv.issues).toEqual([]);
+    expect(csv.airports[0].runways).toEqual([
+      {
+        designator: "12/30",
+        length: 1600,
+        width: 45,
+        surface: "ASPH",
+        heading: 120,
+      },
+      {
+        designator: "03",
+        length: 800,
+        width: 18,
+        surface: "GRVL",
+        heading: 35,
+      },
+    ]);
+
+    const runway = {
+      designator: "10l/28r",
+      length: 3700,
+      width: 45,
+      surface: "asph",
+    };
+    const json = parseAirportDataset(
+      JSON.stringify([{ ...marte, runways: [runway] }])
+    );
+    expect(json.airports[0].runways).toEqual([
+      { ...runway, designator: "10L/28R", surface: "ASPH", heading: 100 },
+    ]);
+  });
+
+  it("skips bad runways with a warning naming the reason", () => {
+    const { airports, issues } = parseAirportDataset(
+      "icao,name,elevation,lat,lon,runways\n" +
+        "SBMT,Campo de Marte,2369,-23.5,-46.6," +
+        '"pista 12 | 37/19 1600x45 ASPH | 12/30 0x45 ASPH | 12/30 1600x45 ASPH 400 | 12/30 1600x45 ASPH"\n',
+      "airports.csv"
+    );
+    expect(airports[0].runways).toHaveLength(1);
+    expect(
+      issues.map(({ severity, code, params, variant }) => ({
+        severity,
+        code,
+        runway: params?.runway,
+        variant,
+      }))
+    ).toEqual([
+      {
+        severity: "warning",
+        code: "invalid-runway",
+        runway: 1,
+        variant: "format",
+      },
+      {
+        severity: "warning",
+        code: "invalid-runway",
+        runway: 2,
+        variant: "designator",
+      },
+      {
+        severity: "warning",
+        code: "invalid-runway",
+        runway: 3,
+        variant: "size",
+      },
+      {
+        severity: "warning",
+        code: "invalid-runway",
+        runway: 4,
+        variant: "heading",
+      },
+    ]);
+    expect(
+      parseAirportDataset(
+        JSON.stringify([
+          { ...marte, runways: [{ designator: "12", length: 900, width: 20 }] },
+        ])
+      ).issues[0].variant
+    ).toBe("surface");
+  });
+});
@@ -0,0 +1,390 @@
+import { BrazilianAirport } from "../data/brazilian-airports";
+import { runwayHeading } from "../engine/runway";
+import { Runway } from "../engine/types";
+
+export type DatasetFormat = "json" | "csv";
+
+export type DatasetIssueCode =
+  | "empty-csv"
+  | "missing-icao-column"
+  | "invalid-json"
+  | "not-a-list"
+  | "invalid-record"
+  | "invalid-icao"
+  | "duplicate-icao"
+  | "missing-name"
+  | "missing-elevation"
+  | "invalid-latitude"
+  | "invalid-longitude"
+  | "invalid-iata"
+  | "invalid-runway";
+
+// Why a runway entry was skipped, the variant of an invalid-runway issue
+export type RunwayIssue =
+  "format" | "designator" | "size" | "surface" | "heading";
+
+export interface DatasetIssue {
+  row: number; // 1-based record number; CSV rows count the header line
+  icao?: string;
+  severity: "warning" | "error";
+  code: DatasetIssueCode;
+  params?: Record<string, string | number>; // values quoted in the message
+  variant?: RunwayIssue;
+}
+
+export interface DatasetParseResult {
+  airports: BrazilianAirport[]; // valid records, in file order
+  issues: DatasetIssue[]; // rows with errors are left out of airports
+}
+
+export interface MergeSummary {
+  airports: BrazilianAirport[];
+  added: number;
+  replaced: number;
+}
+
+const DB_NAME = "toc-tod";
+const STORE = "airport-datasets";
+const USER_KEY = "user";
+
+type Row = Record<string, unknown>;
+
+const isRow = (value: unknown): value is Row =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value.trim() : value == null ? "" : String(value);
+
+// CSV cells arrive as strings; blank cells count as missing
+const number = (value: unknown): number | undefined => {
+  if (typeof value === "number") return isFinite(value) ? value : undefined;
+  const raw = text(value).replace(",", ".");
+  if (raw === "") return undefined;
+  const parsed = Number(raw);
+  return isFinite(parsed) ? parsed : undefined;
+};
+
+// "10L/28R 3700x45 ASPH", optionally followed by the magnetic heading
+const RUNWAY_TEXT =
+  /^(\S+)\s+(\d+(?:[.,]\d+)?)\s*[x×]\s*(\d+(?:[.,]\d+)?)\s+([A-Z]+)(?:\s+(\d+(?:[.,]\d+)?))?$/i;
+const RUNWAY_END = "(0[1-9]|[12]\\d|3[0-6])[LCR]?";
+const DESIGNATOR = new RegExp(`^${RUNWAY_END}(/${RUNWAY_END})?$`);
+
+// JSON lists runways as objects; a CSV cell as text entries split by "|"
+const runwayEntries = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  return text(value)
+    .split("|")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = RUNWAY_TEXT.exec(entry);
+      if (!match) return entry;
+      const [, designator, length, width, surface, heading] = match;
+      return { designator, length, width, surface, heading };
+    });
+};
+
+const validateRunway = (entry: unknown): Runway | RunwayIssue => {
+  if (!isRow(entry)) return "format";
+  const designator = text(entry.designator).toUpperCase();
+  if (!DESIGNATOR.test(designator)) return "designator";
+  const length = number(entry.length);
+  const width = number(entry.width);
+  if (!length || length <= 0 || !width || width <= 0) return "size";
+  const surface = text(entry.surface).toUpperCase();
+  if (!surface) return "surface";
+  const heading =
+    number(entry.heading) ?? runwayHeading(designator.split("/")[0]) ?? NaN;
+  if (!(heading >= 0 && heading <= 360)) return "heading";
+  return { designator, length, width, surface, heading };
+};
+
+/** Checks raw records against the BrazilianAirport shape. */
+export function validateAirportRecords(
+  records: unknown[],
+  firstRow = 1
+): DatasetParseResult {
+  const airports: BrazilianAirport[] = [];
+  const issues: DatasetIssue[] = [];
+  const seen = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const row = index + firstRow;
+    if (!isRow(record)) {
+      issues.push({
+        row,
+        severity: "error",
+        code: "invalid-record",
+      });
+      return;
+    }
+
+    const icao = text(record.icao).toUpperCase();
+    const error = (code: DatasetIssueCode, params?: DatasetIssue["params"]) =>
+      issues.push({
+        row,
+        icao: icao || undefined,
+        severity: "error",
+        code,
+        params,
+      });
+
+    if (!/^[A-Z0-9]{4}$/.test(icao)) {
+      error("invalid-icao");
+      return;
+    }
+    const first = seen.get(icao);
+    if (first !== undefined) {
+      error("duplicate-icao", { first });
+      return;
+    }
+    seen.set(icao, row);
+
+    const name = text(record.name);
+    const elevation = number(record.elevation);
+    const lat = number(record.lat);
+    const lon = number(record.lon);
+    const before = issues.length;
+
+    if (!name) error("missing-name");
+    if (elevation === undefined) {
+      error("missing-elevation");
+    }
+    if (lat === undefined || lat < -90 || lat > 90) {
+      error("invalid-latitude");
+    }
+    if (lon === undefined || lon < -180 || lon > 180) {
+      error("invalid-longitude");
+    }
+    if (issues.length > before) return;
+
+    const iata = text(record.iata).toUpperCase();
+    if (iata && !/^[A-Z]{3}$/.test(iata)) {
+      issues.push({
+        row,
+        icao,
+        severity: "warning",
+        code: "invalid-iata",
+      });
+    }
+
+    const runways: Runway[] = [];
+    runwayEntries(record.runways).forEach((entry, index) => {
+      const runway = validateRunway(entry);
+      if (typeof runway === "string") {
+        issues.push({
+          row,
+          icao,
+          severity: "warning",
+          code: "invalid-runway",
+          params: { runway: index + 1 },
+          variant: runway,
+        });
+      } else runways.push(runway);
+    });
+
+    airports.push({
+      icao,
+      name,
+      city: text(record.city),
+      state: text(record.state).toUpperCase(),
+      elevation: elevation as number,
+      lat: lat as number,
+      lon: lon as number,
+      ...(/^[A-Z]{3}$/.test(iata) ? { iata } : {}),
+      ...(runways.length > 0 ? { runways } : {}),
+    });
+  });
+
+  return { airports, issues };
+}
+
+// Splits one CSV line, honouring quoted cells with doubled quotes
+const splitCsvLine = (line: string, separator: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === separator) {
+      cells.push(cell);
+      cell = "";
+    } else cell += char;
+  }
+  cells.push(cell);
+  return cells;
+};
+
+const parseCsv = (content: string): Row[] => {
+  const lines = content
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+  if (lines.length === 0) return [];
+  const separator = lines[0].includes(";") ? ";" : ",";
+  const header = splitCsvLine(lines[0], separator).map((column) =>
+    column.trim().toLowerCase()
+  );
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line, separator);
+    return Object.fromEntries(header.map((column, i) => [column, cells[i]]));
+  });
+};
+
+export const detectFormat = (fileName: string, content: string) =>
+  /\.csv$/i.test(fileName) || !/^[\s\uFEFF]*[[{]/.test(content)
+    ? "csv"
+    : "json";
+
+/**
+ * Parses an airport dataset in JSON (an array of airports) or CSV with a
+ * header row naming the fields: icao, name, city, state, elevation, lat,
+ * lon and optionally iata and runways. Comma or semicolon separators are
+ * accepted; CSV runways are written as "10/28 1200x30 ASPH", split by "|".
+ */
+export function parseAirportDataset(
+  content: string,
+  fileName = ""
+): DatasetParseResult {
+  if (detectFormat(fileName, content) === "csv") {
+    const rows = parseCsv(content);
+    if (rows.length === 0) {
+      return {
+        airports: [],
+        issues: [
+          {
+            row: 0,
+            severity: "error",
+            code: "empty-csv",
+          },
+        ],
+      };
+    }
+    if (!("icao" in rows[0])) {
+      return {
+        airports: [],
+        issues: [
+          {
+            row: 0,
+            severity: "error",
+            code: "missing-icao-column",
+          },
+        ],
+      };
+    }
+    return validateAirportRecords(rows, 2);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return {
+      airports: [],
+      issues: [
+        {
+          row: 0,
+          severity: "error",
+          code: "invalid-json",
+        },
+      ],
+    };
+  }
+  if (!Array.isArray(parsed)) {
+    return {
+      airports: [],
+      issues: [
+        {
+          row: 0,
+          severity: "error",
+          code: "not-a-list",
+        },
+      ],
+    };
+  }
+  return validateAirportRecords(parsed);
+}
+
+/** Overlays user airports on a base set; user entries win by ICAO. */
+export function mergeAirports(
+  base: BrazilianAirport[],
+  user: BrazilianAirport[]
+): MergeSummary {
+  const merged = new Map(
+    base.map((airport) => [airport.icao.toUpperCase(), airport])
+  );
+  let replaced = 0;
+  user.forEach((airport) => {
+    if (merged.has(airport.icao)) replaced++;
+    merged.set(airport.icao, airport);
+  });
+  return {
+    airports: [...merged.values()],
+    added: user.length - replaced,
+    replaced,
+  };
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request?.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * The airports loaded by the user. Only these are stored: the airport service
+ * merges them over the bundled set once it loads, which picks up bundle
+ * updates and fetches nothing at startup.
+ */
+export async function loadStoredDataset(): Promise<
+  BrazilianAirport[] | undefined
+> {
+  try {
+    return await withStore<BrazilianAirport[]>("readonly", (store) =>
+      store.get(USER_KEY)
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+export async function saveStoredDataset(
+  user: BrazilianAirport[]
+): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.put(user, USER_KEY);
+  });
+}
+
+export async function clearStoredDataset(): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.clear();
+  });
+}
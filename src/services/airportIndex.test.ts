@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { BrazilianAirport } from "../data/brazilian-airports";
+import { searchAirports, setAirportDataset } from "./airportIndex";
+
+const airport = (
+  icao: string,
+  fields: Partial<BrazilianAirport>
+): BrazilianAirport => ({
+  icao,
+  name: "",
+  city: "",
+  state: "",
+  elevation: 0,
+  lat: 0,
+  lon: 0,
+  ...fields,
+});
+
+const fixture = [
+  airport("SWKA", { name: "Fazenda Campos", city: "Itu", state: "SP" }),
+  airport("SWKB", { name: "Fazenda Boa Vista", city: "Cabrália", state: "BA" }),
+  airport("SWKC", { name: "Aeroclube", city: "Lins", iata: "CAW" }),
+  airport("SBKD", { name: "Aeroporto Estadual", city: "São Paulo" }),
+  airport("SWKD", { name: "Aeroporto Estadual", city: "São Paulo" }),
+];
+
+const icaos = (query: string) =>
+  searchAirports(query).map(({ airport }) => airport.icao);
+
+beforeEach(() => setAirportDataset(fixture));
+
+describe("searchAirports", () => {
+  it("ranks code prefixes ahead of name and city words", () => {
+    expect(
+      searchAirports("ca").map(({ airport, matchedField }) => [
+        airport.icao,
+        matchedField,
+      ])
+    ).toEqual([
+      ["SWKC", "iata"],
+      ["SWKA", "name"],
+      ["SWKB", "city"],
+    ]);
+    expect(searchAirports("swkb")[0]).toMatchObject({
+      airport: { icao: "SWKB" },
+      matchedField: "icao",
+    });
+    expect(icaos("swk")).toEqual(["SWKA", "SWKB", "SWKC", "SWKD"]);
+  });
+
+  it("ignores accents and case on both sides", () => {
+    expect(icaos("cabralia")).toEqual(["SWKB"]);
+    expect(icaos("CABRÁLIA")).toEqual(["SWKB"]);
+    expect(icaos("sao paulo")).toEqual(["SBKD", "SWKD"]);
+  });
+
+  it("needs every word to match and boosts public airports", () => {
+    expect(icaos("fazenda campos")).toEqual(["SWKA"]);
+    expect(icaos("fazenda lins")).toEqual([]);
+    expect(searchAirports("estadual")[0].score).toBeGreaterThan(
+      searchAirports("estadual")[1].score
+    );
+  });
+
+  it("tolerates one typo in longer words", () => {
+    expect(icaos("canpos")).toEqual(["SWKA"]);
+    expect(icaos("  ")).toEqual([]);
+  });
+});
@@ -0,0 +1,354 @@
+import airportsUrl from "../../waypoints.json?url";
+import {
+  BrazilianAirport,
+  brazilianAirports
+} from "../data/brazilian-airports";
+import { greatCircleDistance, initialTrueCourse } from "../engine/geo";
+import { Coordinates, Runway } from "../engine/types";
+import { mergeAirports } from "./airportDataset";
+
+// Synchronous airport index. It runs inside the airport worker (or a lazily
+// imported chunk where workers are unavailable); the app talks to it through
+// the async API in ./airport. The bundled set is emitted as a JSON asset and
+// fetched by loadAirportIndex, so both hosts share one copy of it.
+
+export interface AirportData {
+  elevation: {
+    feet: number;
+    meters: number;
+  };
+  name: string;
+  city?: string;
+  state?: string;
+  coordinates?: {
+    lat: number;
+    lon: number;
+  };
+  runways?: Runway[];
+}
+
+let bundledAirports: BrazilianAirport[] = [];
+
+// Lookup map keyed by uppercase ICAO code
+const buildAirportMap = (airports: BrazilianAirport[]) => {
+  const map: Record<string, BrazilianAirport> = {};
+  airports.forEach((airport) => {
+    map[airport.icao.toUpperCase()] = airport;
+  });
+  return map;
+};
+
+// Active airport set: the bundled one with the user airports applied
+let airportsDataJson = bundledAirports;
+let airportMap = buildAirportMap(bundledAirports);
+let userAirports: BrazilianAirport[] = [];
+
+let loading: Promise<void> | null = null;
+
+/** Fetches the bundled set once; requests must wait for it to resolve. */
+export function loadAirportIndex(): Promise<void> {
+  loading ??= fetch(airportsUrl)
+    .then((response) => {
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return response.json() as Promise<BrazilianAirport[]>;
+    })
+    .then((airports) => {
+      bundledAirports = airports;
+      setUserAirports(userAirports);
+    })
+    .catch((error) => {
+      loading = null; // retried on the next request
+      throw error;
+    });
+  return loading;
+}
+
+export function getAirportData(icao: string): AirportData | null {
+  const airport = airportMap[icao.toUpperCase()];
+  if (!airport) return null;
+
+  return {
+    elevation: {
+      feet: airport.elevation,
+      meters: Math.round(airport.elevation * 0.3048)
+    },
+    name: airport.name,
+    city: airport.city,
+    state: airport.state,
+    coordinates: {
+      lat: airport.lat,
+      lon: airport.lon
+    },
+    // The bundled set has no runways; curated entries fill them in
+    runways: airport.runways ?? curatedByIcao[airport.icao.toUpperCase()]?.runways
+  };
+}
+
+export interface Bounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Public airports (SB**) first, so a capped list still shows the main fields
+const byRelevance = (a: BrazilianAirport, b: BrazilianAirport) =>
+  Number(b.icao.startsWith("SB")) - Number(a.icao.startsWith("SB"));
+
+export function getAirportsInBounds(
+  bounds: Bounds,
+  limit = 300
+): BrazilianAirport[] {
+  return airportsDataJson
+    .filter(
+      (airport) =>
+        airport.lat <= bounds.north &&
+        airport.lat >= bounds.south &&
+        airport.lon <= bounds.east &&
+        airport.lon >= bounds.west
+    )
+    .sort(byRelevance)
+    .slice(0, limit);
+}
+
+export type SearchField = "icao" | "iata" | "name" | "city" | "state";
+
+export interface AirportSearchResult {
+  airport: BrazilianAirport;
+  score: number;
+  matchedField: SearchField;
+}
+
+// Lowercase and strip accents, so "São" and "Sao" compare equal
+export const normalizeText = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+interface SearchEntry {
+  airport: BrazilianAirport;
+  icao: string;
+  iata: string;
+  state: string;
+  nameWords: string[];
+  cityWords: string[];
+}
+
+const splitWords = (text: string) =>
+  normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Curated entries add IATA codes and common names (e.g. "Confins")
+const curatedByIcao: Record<string, BrazilianAirport> = {};
+brazilianAirports.forEach((airport) => {
+  curatedByIcao[airport.icao] = airport;
+});
+
+let searchIndex: SearchEntry[] | null = null;
+
+/** Replaces the airport set behind lookups, map bounds and search. */
+export function setAirportDataset(airports: BrazilianAirport[]): void {
+  airportsDataJson = airports;
+  airportMap = buildAirportMap(airports);
+  searchIndex = null;
+}
+
+/** Overlays user airports on the bundled set; an empty list clears them. */
+export function setUserAirports(airports: BrazilianAirport[]): void {
+  userAirports = airports;
+  setAirportDataset(mergeAirports(bundledAirports, airports).airports);
+}
+
+const getSearchIndex = (): SearchEntry[] => {
+  if (!searchIndex) {
+    searchIndex = airportsDataJson.map((airport) => {
+      const curated = curatedByIcao[airport.icao.toUpperCase()];
+      const iata = airport.iata ?? curated?.iata ?? "";
+      return {
+        airport: { ...airport, iata: iata || undefined },
+        icao: normalizeText(airport.icao),
+        iata: normalizeText(iata),
+        state: normalizeText(airport.state ?? ""),
+        nameWords: splitWords(`${airport.name} ${curated?.name ?? ""}`),
+        cityWords: splitWords(airport.city ?? "")
+      };
+    });
+  }
+  return searchIndex;
+};
+
+// Single edit (insertion, deletion or substitution) between two words
+const withinOneEdit = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+const wordScore = (token: string, words: string[], weight: number) => {
+  let best = 0;
+  words.forEach((word) => {
+    if (word === token) best = Math.max(best, weight);
+    else if (word.startsWith(token)) best = Math.max(best, weight * 0.8);
+    else if (token.length >= 3 && word.includes(token)) {
+      best = Math.max(best, weight * 0.5);
+    } else if (token.length >= 4 && withinOneEdit(token, word)) {
+      best = Math.max(best, weight * 0.4);
+    }
+  });
+  return best;
+};
+
+const tokenScore = (
+  token: string,
+  entry: SearchEntry
+): { score: number; field: SearchField } => {
+  const candidates: { score: number; field: SearchField }[] = [
+    {
+      field: "icao",
+      score:
+        entry.icao === token ? 100 : entry.icao.startsWith(token) ? 70 : 0
+    },
+    {
+      field: "iata",
+      score:
+        entry.iata && entry.iata === token
+          ? 95
+          : entry.iata && token.length >= 2 && entry.iata.startsWith(token)
+            ? 60
+            : 0
+    },
+    { field: "name", score: wordScore(token, entry.nameWords, 60) },
+    { field: "city", score: wordScore(token, entry.cityWords, 60) },
+    { field: "state", score: entry.state === token ? 30 : 0 }
+  ];
+  return candidates.reduce((best, c) => (c.score > best.score ? c : best));
+};
+
+/**
+ * Accent-insensitive airport search over ICAO, IATA, name, city and state.
+ * Every word of the query must match some field; results are ranked by the
+ * average match quality, with a small boost for public (SB**) airports.
+ */
+export function searchAirports(
+  query: string,
+  limit = 8
+): AirportSearchResult[] {
+  const tokens = splitWords(query);
+  if (tokens.length === 0) return [];
+
+  const results: AirportSearchResult[] = [];
+  getSearchIndex().forEach((entry) => {
+    let total = 0;
+    let matchedField: SearchField = "icao";
+    let bestToken = 0;
+    for (const token of tokens) {
+      const { score, field } = tokenScore(token, entry);
+      if (score === 0) return;
+      total += score;
+      if (score > bestToken) {
+        bestToken = score;
+        matchedField = field;
+      }
+    }
+    results.push({
+      airport: entry.airport,
+      score: total / tokens.length + (entry.icao.startsWith("sb") ? 10 : 0),
+      matchedField
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export interface NearbyAirport {
+  airport: BrazilianAirport;
+  distance: number; // NM
+  bearing: number; // degrees true, from the point to the airport
+}
+
+/** The closest airports to a point, nearest first. */
+export function findNearestAirports(
+  point: Coordinates,
+  count = 5
+): NearbyAirport[] {
+  const nearest: { airport: BrazilianAirport; distance: number }[] = [];
+  airportsDataJson.forEach((airport) => {
+    const distance = greatCircleDistance(point, {
+      lat: airport.lat,
+      lon: airport.lon
+    });
+    if (nearest.length === count && distance >= nearest[count - 1].distance) {
+      return;
+    }
+    const index = nearest.findIndex((entry) => entry.distance > distance);
+    nearest.splice(index === -1 ? nearest.length : index, 0, {
+      airport,
+      distance
+    });
+    if (nearest.length > count) nearest.pop();
+  });
+  return nearest.map(({ airport, distance }) => ({
+    airport,
+    distance,
+    bearing: initialTrueCourse(point, { lat: airport.lat, lon: airport.lon })
+  }));
+}
+
+export type AirportRequest =
+  | { type: "lookup"; icao: string }
+  | { type: "search"; query: string; limit?: number }
+  | { type: "bounds"; bounds: Bounds; limit?: number }
+  | { type: "setUser"; airports: BrazilianAirport[] }
+  | { type: "stats" }
+  | { type: "nearest"; points: Coordinates[]; count?: number };
+
+export interface AirportStats {
+  bundled: number;
+  active: number;
+}
+
+export function handleAirportRequest(request: AirportRequest): unknown {
+  switch (request.type) {
+    case "lookup":
+      return getAirportData(request.icao);
+    case "search":
+      return searchAirports(request.query, request.limit);
+    case "bounds":
+      return getAirportsInBounds(request.bounds, request.limit);
+    case "setUser":
+      setUserAirports(request.airports);
+      return null;
+    case "nearest":
+      return request.points.map((point) =>
+        findNearestAirports(point, request.count)
+      );
+    case "stats": {
+      const stats: AirportStats = {
+        bundled: bundledAirports.length,
+        active: airportsDataJson.length
+      };
+      return stats;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  AirportRequest,
+  handleAirportRequest,
+  loadAirportIndex
+} from "./airportIndex";
+
+export interface WorkerRequest {
+  id: number;
+  request: AirportRequest;
+}
+
+export type WorkerResponse =
+  { id: number; result: unknown } | { id: number; error: string };
+
+// The index fetches waypoints.json and builds the lookup map here, off the
+// main thread; the search index is built on the first search. Requests wait
+// in order for the dataset.
+self.onmessage = async ({ data }: MessageEvent<WorkerRequest>) => {
+  let response: WorkerResponse;
+  try {
+    await loadAirportIndex();
+    response = { id: data.id, result: handleAirportRequest(data.request) };
+  } catch (error) {
+    response = { id: data.id, error: String(error) };
+  }
+  self.postMessage(response);
+};
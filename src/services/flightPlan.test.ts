@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodePlanQuery,
+  encodePlanQuery,
+  exportPlan,
+  FLIGHT_PLAN_VERSION,
+  FlightPlanState,
+  parsePlanFile,
+  validatePlanState,
+} from "./flightPlan";
+
+const plan: FlightPlanState = {
+  speedUnit: "kt",
+  rateUnit: "ftmin",
+  inputs: {
+    cruiseAltitude: 9500,
+    climbSpeed: 90,
+    cruiseSpeed: 140,
+    descentSpeed: 150,
+    climbRate: 700,
+    descentRate: 500,
+    departureIcao: "SBMT",
+    arrivalIcao: "SBRJ",
+  },
+  speedModes: { climb: "ias", cruise: "tas", descent: "tas" },
+  isaDeviation: 0,
+  route: "",
+  fuel: {
+    unit: "l",
+    fuelType: "avgas",
+    climbFlow: 60,
+    cruiseFlow: 45,
+    descentFlow: 30,
+    taxi: 5,
+    contingencyPercent: 10,
+    finalReserveMinutes: 45,
+  },
+  alternateIcao: "",
+};
+
+// A plan with cleared numeric inputs, as the form stores them
+const cleared: FlightPlanState = {
+  ...plan,
+  inputs: { ...plan.inputs, cruiseAltitude: null, descentRate: null },
+};
+
+const codes = (value: unknown) =>
+  validatePlanState(value).map(({ code, params }) => ({ code, params }));
+
+describe("validatePlanState", () => {
+  it("accepts a complete plan and null inputs", () => {
+    expect(validatePlanState(plan)).toEqual([]);
+    expect(validatePlanState(cleared)).toEqual([]);
+  });
+
+  it("reports each problem with its code and path", () => {
+    expect(
+      codes({
+        ...plan,
+        speedUnit: "knots",
+        route: 3,
+        inputs: { ...plan.inputs, cruiseAltitude: "" },
+        fuel: undefined,
+      })
+    ).toEqual([
+      {
+        code: "invalid-option",
+        params: { path: "plan.speedUnit", options: "kt, mph, kmh" },
+      },
+      { code: "not-text", params: { path: "plan.route" } },
+      { code: "not-number", params: { path: "plan.inputs.cruiseAltitude" } },
+      { code: "not-object", params: { path: "plan.fuel" } },
+    ]);
+  });
+
+  it("checks wind bands and performance tables", () => {
+    expect(
+      codes({
+        ...plan,
+        winds: { mode: "bands", bands: [{ floor: 0, ceiling: "FL100" }] },
+        climbTable: [
+          { floor: 0, ceiling: 5000, speed: 90, rate: 700, mode: "cas" },
+        ],
+      })
+    ).toEqual([
+      { code: "not-number", params: { path: "plan.winds.bands[0].ceiling" } },
+      { code: "not-object", params: { path: "plan.winds.bands[0].wind" } },
+      {
+        code: "invalid-option",
+        params: { path: "plan.climbTable[0].mode", options: "tas, ias, mach" },
+      },
+    ]);
+  });
+});
+
+describe("parsePlanFile", () => {
+  it("round-trips an exported plan with cleared inputs", () => {
+    const result = parsePlanFile(exportPlan(cleared));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.file.version).toBe(FLIGHT_PLAN_VERSION);
+      expect(result.file.plan).toEqual(cleared);
+    }
+  });
+
+  it("rejects files that are not a current plan", () => {
+    const error = (text: string) => {
+      const result = parsePlanFile(text);
+      return result.ok ? undefined : result.errors[0];
+    };
+    expect(error("{")?.code).toBe("invalid-json");
+    expect(error("[]")?.code).toBe("no-plan");
+    expect(error(JSON.stringify({ plan }))?.code).toBe("missing-version");
+    expect(
+      error(JSON.stringify({ version: FLIGHT_PLAN_VERSION + 1, plan }))
+    ).toMatchObject({
+      code: "unsupported-version",
+      params: { version: FLIGHT_PLAN_VERSION + 1 },
+    });
+  });
+});
+
+describe("plan query", () => {
+  it("decodes what it encodes, cleared inputs included", () => {
+    const query = encodePlanQuery(cleared);
+    expect(query).not.toContain("alt=");
+    expect(decodePlanQuery(query, plan)).toEqual(cleared);
+  });
+
+  it("ignores queries without a plan or with invalid values", () => {
+    expect(decodePlanQuery("", plan)).toBeUndefined();
+    expect(decodePlanQuery("v=1&su=knots", plan)).toBeUndefined();
+  });
+});
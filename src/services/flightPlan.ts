@@ -0,0 +1,462 @@
+import { FuelSettings } from "../engine/fuel";
+import { PerformanceBand } from "../engine/performance";
+import { RateUnit, SpeedMode, SpeedUnit } from "../engine/types";
+import { FlightPhase, WindProfile } from "../engine/wind";
+
+export const FLIGHT_PLAN_VERSION = 1;
+export const HISTORY_LIMIT = 10;
+
+const HISTORY_KEY = "toc-tod:history";
+const LAST_PLAN_KEY = "toc-tod:last-plan";
+
+export interface FlightInputs {
+  cruiseAltitude: number | null;
+  climbSpeed: number | null;
+  cruiseSpeed: number | null;
+  descentSpeed: number | null;
+  climbRate: number | null;
+  descentRate: number | null;
+  departureIcao: string;
+  arrivalIcao: string;
+}
+
+// Everything needed to reproduce a calculation
+export interface FlightPlanState {
+  speedUnit: SpeedUnit;
+  rateUnit: RateUnit;
+  inputs: FlightInputs;
+  speedModes: Record<FlightPhase, SpeedMode>;
+  isaDeviation: number;
+  route: string;
+  winds?: WindProfile;
+  climbTable?: PerformanceBand[];
+  descentTable?: PerformanceBand[];
+  profileId?: string;
+  fuel: FuelSettings;
+  alternateIcao: string;
+}
+
+export interface FlightPlanFile {
+  version: number;
+  savedAt: string; // ISO 8601
+  plan: FlightPlanState;
+}
+
+export type PlanIssueCode =
+  | "invalid-json"
+  | "no-plan"
+  | "missing-version"
+  | "unsupported-version"
+  | "not-object"
+  | "not-list"
+  | "not-number"
+  | "not-text"
+  | "invalid-option";
+
+export interface PlanIssue {
+  code: PlanIssueCode;
+  params?: Record<string, string | number>; // path of the field, options
+}
+
+export type PlanParseResult =
+  { ok: true; file: FlightPlanFile } | { ok: false; errors: PlanIssue[] };
+
+type Issues = PlanIssue[];
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value);
+
+const SPEED_UNITS: readonly SpeedUnit[] = ["kt", "mph", "kmh"];
+const RATE_UNITS: readonly RateUnit[] = ["ftmin", "ms"];
+const SPEED_MODES: readonly SpeedMode[] = ["tas", "ias", "mach"];
+const FUEL_UNITS: readonly FuelSettings["unit"][] = ["l", "gal", "kg", "lb"];
+const FUEL_TYPES: readonly FuelSettings["fuelType"][] = ["avgas", "jeta1"];
+
+const phases: FlightPhase[] = ["climb", "cruise", "descent"];
+
+const typeIssue = (
+  code: "not-object" | "not-list" | "not-number" | "not-text",
+  path: string
+): PlanIssue => ({ code, params: { path } });
+
+const checkOption = (
+  value: unknown,
+  path: string,
+  options: readonly string[],
+  issues: Issues
+) => {
+  if (options.includes(value as string)) return;
+  issues.push({
+    code: "invalid-option",
+    params: { path, options: options.join(", ") },
+  });
+};
+
+const checkNumbers = (
+  value: Json,
+  path: string,
+  keys: string[],
+  issues: Issues,
+  { nullable = false, optional = false } = {}
+) => {
+  keys.forEach((key) => {
+    const field = value[key];
+    if (field === undefined && optional) return;
+    if (field === null && nullable) return;
+    if (!isNumber(field))
+      issues.push(typeIssue("not-number", `${path}.${key}`));
+  });
+};
+
+const checkWind = (value: unknown, path: string, issues: Issues) => {
+  if (!isObject(value)) {
+    issues.push(typeIssue("not-object", path));
+    return;
+  }
+  checkNumbers(value, path, ["direction", "speed"], issues);
+};
+
+const checkWinds = (value: unknown, issues: Issues) => {
+  if (!isObject(value)) {
+    issues.push(typeIssue("not-object", "plan.winds"));
+  } else if (value.mode === "phase") {
+    phases.forEach((phase) => {
+      if (value[phase] !== undefined) {
+        checkWind(value[phase], `plan.winds.${phase}`, issues);
+      }
+    });
+  } else if (value.mode === "bands") {
+    if (!Array.isArray(value.bands)) {
+      issues.push(typeIssue("not-list", "plan.winds.bands"));
+      return;
+    }
+    value.bands.forEach((band: unknown, index) => {
+      const path = `plan.winds.bands[${index}]`;
+      if (!isObject(band)) {
+        issues.push(typeIssue("not-object", path));
+        return;
+      }
+      checkNumbers(band, path, ["floor", "ceiling"], issues);
+      checkWind(band.wind, `${path}.wind`, issues);
+    });
+  } else {
+    checkOption(value.mode, "plan.winds.mode", ["phase", "bands"], issues);
+  }
+};
+
+const checkTable = (value: unknown, path: string, issues: Issues) => {
+  if (!Array.isArray(value)) {
+    issues.push(typeIssue("not-list", path));
+    return;
+  }
+  value.forEach((band: unknown, index) => {
+    const bandPath = `${path}[${index}]`;
+    if (!isObject(band)) {
+      issues.push(typeIssue("not-object", bandPath));
+      return;
+    }
+    checkNumbers(band, bandPath, ["floor", "ceiling", "speed", "rate"], issues);
+    if (band.mode !== undefined) {
+      checkOption(band.mode, `${bandPath}.mode`, SPEED_MODES, issues);
+    }
+  });
+};
+
+/** Lists every problem with a decoded plan; an empty list means it is valid. */
+export function validatePlanState(value: unknown): PlanIssue[] {
+  const issues: Issues = [];
+  if (!isObject(value)) return [typeIssue("not-object", "plan")];
+
+  checkOption(value.speedUnit, "plan.speedUnit", SPEED_UNITS, issues);
+  checkOption(value.rateUnit, "plan.rateUnit", RATE_UNITS, issues);
+  checkNumbers(value, "plan", ["isaDeviation"], issues);
+  ["route", "alternateIcao"].forEach((key) => {
+    if (typeof value[key] !== "string") {
+      issues.push(typeIssue("not-text", `plan.${key}`));
+    }
+  });
+  if (value.profileId !== undefined && typeof value.profileId !== "string") {
+    issues.push(typeIssue("not-text", "plan.profileId"));
+  }
+
+  const { inputs, speedModes, fuel } = value;
+  if (!isObject(inputs)) {
+    issues.push(typeIssue("not-object", "plan.inputs"));
+  } else {
+    checkNumbers(
+      inputs,
+      "plan.inputs",
+      [
+        "cruiseAltitude",
+        "climbSpeed",
+        "cruiseSpeed",
+        "descentSpeed",
+        "climbRate",
+        "descentRate",
+      ],
+      issues,
+      { nullable: true }
+    );
+    ["departureIcao", "arrivalIcao"].forEach((key) => {
+      if (typeof inputs[key] !== "string") {
+        issues.push(typeIssue("not-text", `plan.inputs.${key}`));
+      }
+    });
+  }
+
+  if (!isObject(speedModes)) {
+    issues.push(typeIssue("not-object", "plan.speedModes"));
+  } else {
+    phases.forEach((phase) =>
+      checkOption(
+        speedModes[phase],
+        `plan.speedModes.${phase}`,
+        SPEED_MODES,
+        issues
+      )
+    );
+  }
+
+  if (value.winds !== undefined) checkWinds(value.winds, issues);
+  if (value.climbTable !== undefined) {
+    checkTable(value.climbTable, "plan.climbTable", issues);
+  }
+  if (value.descentTable !== undefined) {
+    checkTable(value.descentTable, "plan.descentTable", issues);
+  }
+
+  if (!isObject(fuel)) {
+    issues.push(typeIssue("not-object", "plan.fuel"));
+  } else {
+    checkOption(fuel.unit, "plan.fuel.unit", FUEL_UNITS, issues);
+    checkOption(fuel.fuelType, "plan.fuel.fuelType", FUEL_TYPES, issues);
+    checkNumbers(
+      fuel,
+      "plan.fuel",
+      [
+        "climbFlow",
+        "cruiseFlow",
+        "descentFlow",
+        "taxi",
+        "contingencyPercent",
+        "finalReserveMinutes",
+      ],
+      issues
+    );
+    checkNumbers(fuel, "plan.fuel", ["usableCapacity"], issues, {
+      optional: true,
+    });
+    if (fuel.capacityUnit !== undefined) {
+      checkOption(
+        fuel.capacityUnit,
+        "plan.fuel.capacityUnit",
+        FUEL_UNITS,
+        issues
+      );
+    }
+  }
+
+  return issues;
+}
+
+export function exportPlan(plan: FlightPlanState): string {
+  const file: FlightPlanFile = {
+    version: FLIGHT_PLAN_VERSION,
+    savedAt: new Date().toISOString(),
+    plan,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parsePlanFile(text: string): PlanParseResult {
+  const fail = (issue: PlanIssue): PlanParseResult => ({
+    ok: false,
+    errors: [issue],
+  });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return fail({ code: "invalid-json" });
+  }
+  if (!isObject(parsed)) {
+    return fail({ code: "no-plan" });
+  }
+  if (!isNumber(parsed.version)) {
+    return fail({ code: "missing-version" });
+  }
+  if (parsed.version > FLIGHT_PLAN_VERSION) {
+    return fail({
+      code: "unsupported-version",
+      params: { version: parsed.version },
+    });
+  }
+
+  const errors = validatePlanState(parsed.plan);
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    file: {
+      version: parsed.version,
+      savedAt: typeof parsed.savedAt === "string" ? parsed.savedAt : "",
+      plan: parsed.plan as FlightPlanState,
+    },
+  };
+}
+
+// Short query keys keep shared links readable
+const inputKeys: Record<keyof FlightInputs, string> = {
+  departureIcao: "dep",
+  arrivalIcao: "arr",
+  cruiseAltitude: "alt",
+  climbSpeed: "vcl",
+  cruiseSpeed: "vcr",
+  descentSpeed: "vde",
+  climbRate: "rcl",
+  descentRate: "rde",
+};
+
+/** Encodes a plan as a URL query string (without the leading "?"). */
+export function encodePlanQuery(plan: FlightPlanState): string {
+  const params = new URLSearchParams();
+  params.set("v", String(FLIGHT_PLAN_VERSION));
+  (Object.keys(inputKeys) as (keyof FlightInputs)[]).forEach((key) => {
+    const value = plan.inputs[key];
+    if (value !== null && value !== "")
+      params.set(inputKeys[key], String(value));
+  });
+  params.set("su", plan.speedUnit);
+  params.set("ru", plan.rateUnit);
+  params.set("sm", phases.map((phase) => plan.speedModes[phase]).join(","));
+  if (plan.isaDeviation) params.set("isa", String(plan.isaDeviation));
+  if (plan.route) params.set("rte", plan.route);
+  if (plan.profileId) params.set("ac", plan.profileId);
+  if (plan.alternateIcao) params.set("altn", plan.alternateIcao);
+  if (plan.winds) params.set("wind", JSON.stringify(plan.winds));
+  if (plan.climbTable) params.set("tcl", JSON.stringify(plan.climbTable));
+  if (plan.descentTable) params.set("tde", JSON.stringify(plan.descentTable));
+  params.set("fuel", JSON.stringify(plan.fuel));
+  return params.toString();
+}
+
+/**
+ * Decodes a plan from a URL query string. Returns undefined when the query
+ * holds no plan or does not validate, so a bad link never half-applies.
+ */
+export function decodePlanQuery(
+  search: string,
+  defaults: FlightPlanState
+): FlightPlanState | undefined {
+  const params = new URLSearchParams(search);
+  if (!params.has("v")) return undefined;
+
+  const json = (key: string) => {
+    const raw = params.get(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      return null; // fails validation below
+    }
+  };
+  const number = (key: string) => {
+    const raw = params.get(key);
+    return raw === null || raw === "" ? null : Number(raw);
+  };
+
+  const inputs = { ...defaults.inputs };
+  (Object.keys(inputKeys) as (keyof FlightInputs)[]).forEach((key) => {
+    if (key === "departureIcao" || key === "arrivalIcao") {
+      inputs[key] = params.get(inputKeys[key]) ?? "";
+    } else {
+      inputs[key] = number(inputKeys[key]);
+    }
+  });
+  const [climb, cruise, descent] = (params.get("sm") ?? "").split(",");
+
+  const plan = {
+    ...defaults,
+    speedUnit: params.get("su") ?? defaults.speedUnit,
+    rateUnit: params.get("ru") ?? defaults.rateUnit,
+    inputs,
+    speedModes: params.has("sm")
+      ? { climb, cruise, descent }
+      : defaults.speedModes,
+    isaDeviation: number("isa") ?? 0,
+    route: params.get("rte") ?? "",
+    profileId: params.get("ac") ?? undefined,
+    alternateIcao: params.get("altn") ?? "",
+    winds: json("wind"),
+    climbTable: json("tcl"),
+    descentTable: json("tde"),
+    fuel: json("fuel") ?? defaults.fuel,
+  };
+  return validatePlanState(plan).length === 0
+    ? (plan as FlightPlanState)
+    : undefined;
+}
+
+/**
+ * The plan of the previous session, stored in its link form, so units and
+ * inputs survive a closed tab or an app opened from the home screen.
+ */
+export function loadLastPlan(
+  defaults: FlightPlanState
+): FlightPlanState | undefined {
+  try {
+    const stored = localStorage.getItem(LAST_PLAN_KEY);
+    return stored ? decodePlanQuery(stored, defaults) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Stores a plan in the form encodePlanQuery returns. */
+export function saveLastPlan(query: string): void {
+  try {
+    localStorage.setItem(LAST_PLAN_KEY, query);
+  } catch {
+    // Storage full or unavailable (private mode): the plan lasts the session
+  }
+}
+
+export interface HistoryEntry {
+  savedAt: string; // ISO 8601
+  plan: FlightPlanState;
+}
+
+export function loadHistory(): HistoryEntry[] {
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? (parsed as HistoryEntry[]).filter(
+          (entry) => validatePlanState(entry?.plan).length === 0
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Adds a plan to the top of the history, dropping an identical older entry. */
+export function pushHistory(
+  history: HistoryEntry[],
+  plan: FlightPlanState
+): HistoryEntry[] {
+  const key = encodePlanQuery(plan);
+  const next = [
+    { savedAt: new Date().toISOString(), plan },
+    ...history.filter((entry) => encodePlanQuery(entry.plan) !== key),
+  ].slice(0, HISTORY_LIMIT);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  } catch {
+    // Storage full or unavailable (private mode): history lasts the session
+  }
+  return next;
+}
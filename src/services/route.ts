@@ -0,0 +1,41 @@
+import { Waypoint } from "../engine/types";
+import { getAirportData } from "./airport";
+
+export interface ResolvedRoute {
+  waypoints: Waypoint[];
+  unknown: string[];
+}
+
+/**
+ * Resolves a route string such as "SBGR SBKP SBBR" into the intermediate
+ * fixes between departure and arrival. The endpoints may be repeated at the
+ * start and end of the string; "DCT" tokens are ignored.
+ */
+export async function resolveRoute(
+  route: string,
+  departureIcao?: string,
+  arrivalIcao?: string
+): Promise<ResolvedRoute> {
+  const tokens = route
+    .toUpperCase()
+    .split(/[\s,]+/)
+    .filter((token) => token && token !== "DCT");
+
+  if (departureIcao && tokens[0] === departureIcao.toUpperCase()) {
+    tokens.shift();
+  }
+  if (arrivalIcao && tokens[tokens.length - 1] === arrivalIcao.toUpperCase()) {
+    tokens.pop();
+  }
+
+  const found = await Promise.all(tokens.map(getAirportData));
+  const waypoints: Waypoint[] = [];
+  const unknown: string[] = [];
+  tokens.forEach((ident, index) => {
+    const coordinates = found[index]?.coordinates;
+    if (coordinates) waypoints.push({ ident, coordinates });
+    else unknown.push(ident);
+  });
+
+  return { waypoints, unknown };
+}
@@ -0,0 +1,66 @@
+// Production builds register the service worker (src/sw.js), which precaches
+// the app for use without connectivity. A new deploy installs in the
+// background and waits until the user accepts the update prompt.
+
+let waiting: ServiceWorker | undefined;
+const listeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker | undefined) => {
+  waiting = worker;
+  listeners.forEach((listener) => listener());
+};
+
+export const isUpdateAvailable = (): boolean => waiting !== undefined;
+
+/** Subscribes to update availability; returns the unsubscribe function. */
+export function subscribeUpdate(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  const { serviceWorker } = navigator;
+
+  window.addEventListener("load", () => {
+    serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .then((registration) => {
+        // Without a controller this is the first install, not an update
+        if (registration.waiting && serviceWorker.controller) {
+          setWaiting(registration.waiting);
+        }
+        registration.addEventListener("updatefound", () => {
+          const installing = registration.installing;
+          installing?.addEventListener("statechange", () => {
+            if (installing.state === "installed" && serviceWorker.controller) {
+              setWaiting(installing);
+            }
+          });
+        });
+        // A tab left open for days still finds new deploys
+        document.addEventListener("visibilitychange", () => {
+          if (document.visibilityState === "visible") {
+            registration.update().catch(() => undefined);
+          }
+        });
+      })
+      .catch(() => undefined); // the app keeps working online
+  });
+}
+
+/** Activates the waiting build and reloads the page into it. */
+export function applyUpdate(): void {
+  if (!waiting) return;
+  navigator.serviceWorker.addEventListener(
+    "controllerchange",
+    () => window.location.reload(),
+    { once: true }
+  );
+  waiting.postMessage("skip-waiting");
+}
+
+/** Hides the prompt; the update applies once every tab is closed. */
+export const dismissUpdate = () => setWaiting(undefined);
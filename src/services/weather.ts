@@ -0,0 +1,40 @@
+// Reports are pasted by hand today. A weather source plugs in by registering
+// a provider; the weather panel then offers to fetch reports from it.
+// Providers return raw text, which goes through the same local parser
+// (engine/metar) as pasted text.
+
+export interface RawWeather {
+  metar?: string;
+  taf?: string;
+}
+
+export interface WeatherProvider {
+  id: string;
+  label: string;
+  fetchReports(icao: string, signal?: AbortSignal): Promise<RawWeather>;
+}
+
+const providers = new Map<string, WeatherProvider>();
+
+/** Adds or replaces a provider, keyed by its id. */
+export function registerWeatherProvider(provider: WeatherProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export const getWeatherProviders = (): WeatherProvider[] => [
+  ...providers.values(),
+];
+
+/** Latest METAR and TAF of a station from a provider, one per line. */
+export async function fetchWeather(
+  providerId: string,
+  icao: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`Provedor de meteorologia desconhecido: ${providerId}`);
+  }
+  const { metar, taf } = await provider.fetchReports(icao, signal);
+  return [metar, taf].filter(Boolean).join("\n");
+}
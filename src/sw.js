@@ -0,0 +1,71 @@
+// Service worker of production builds. The build (vite.config.ts) emits it
+// as sw.js and injects the precache list, which holds the app shell and the
+// airport dataset (waypoints.json), and the build version.
+
+const PRECACHE = self.__PRECACHE_MANIFEST;
+const CACHE_PREFIX = "toc-tod-";
+const CACHE = `${CACHE_PREFIX}${self.__BUILD_VERSION}`;
+
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE).then((cache) => cache.addAll(PRECACHE.map(scoped)))
+  );
+});
+
+// A new build waits until the page accepts the update prompt, so an open
+// session never mixes files of two builds
+self.addEventListener("message", (event) => {
+  if (event.data === "skip-waiting") self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache first: navigations get the app shell, whatever the query (a shared
+// plan); other same-origin files are stored on first use
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (
+    request.method !== "GET" ||
+    new URL(request.url).origin !== self.location.origin
+  ) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      caches
+        .match(scoped("index.html"), { cacheName: CACHE })
+        .then((cached) => cached ?? fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE }).then(
+      (cached) =>
+        cached ??
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+    )
+  );
+});
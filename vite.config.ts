@@ -1,9 +1,60 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Files served from public/ that the app needs offline
+const PUBLIC_FILES = [
+  'manifest.webmanifest',
+  'icon.svg',
+  'icon-192.png',
+  'icon-512.png',
+  'icon-maskable-512.png',
+];
+
+// Chunks only some browsers load, cached on first use instead: the airport
+// index imported in place of the worker where workers are unavailable
+const LAZY_CHUNKS = [/^assets\/airportIndex-/];
+
+// Builds src/sw.js as sw.js and injects the list of emitted files to
+// precache, with the build time as version: every deploy installs a new
+// worker, which the app then offers as an update.
+function serviceWorker(): Plugin {
+  let reference: string;
+  return {
+    name: 'toc-tod:service-worker',
+    apply: 'build',
+    enforce: 'post',
+    buildStart() {
+      reference = this.emitFile({
+        type: 'chunk',
+        id: 'src/sw.js',
+        fileName: 'sw.js',
+      });
+    },
+    generateBundle(_options, bundle) {
+      const worker = bundle[this.getFileName(reference)];
+      if (worker?.type !== 'chunk') return;
+      const files = Object.keys(bundle).filter(
+        (file) =>
+          file !== worker.fileName &&
+          !file.endsWith('.map') &&
+          !LAZY_CHUNKS.some((pattern) => pattern.test(file))
+      );
+      worker.code = worker.code
+        .replace(
+          'self.__PRECACHE_MANIFEST',
+          JSON.stringify(['./', ...files, ...PUBLIC_FILES])
+        )
+        .replace(
+          'self.__BUILD_VERSION',
+          JSON.stringify(Date.now().toString(36))
+        );
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },